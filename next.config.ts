@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The search index and sources are read from disk at runtime, so ship them with the routes
+  outputFileTracingIncludes: { "/**/*": ["./src/data/**/*"] },
 };
 
 export default nextConfig;
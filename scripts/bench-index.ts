@@ -0,0 +1,170 @@
+// Compare the JSON index with the binary formats: cold-start load time, file
+// size, vector query latency and how much int8 and IVF change the results.
+//
+//   npm run index:bench                          # the built index, or the corpus embedded locally
+//   npm run index:bench -- --corpus=<id>         # another corpus than the default
+//   npm run index:bench -- --synthetic=50000     # clustered random vectors, to see how it scales
+//   npm run index:bench -- --queries=200 --dims=768
+//
+// Only the vector side of retrieval is timed; BM25 and MMR are unchanged.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { performance } from 'perf_hooks';
+import { loadEnvConfig } from '@next/env';
+
+loadEnvConfig(process.cwd());
+
+const K = 10;
+
+function arg(name: string, fallback: number): number {
+  const raw = process.argv.find(a => a.startsWith(`--${name}=`));
+  const value = raw ? Number(raw.split('=')[1]) : fallback;
+  if (!Number.isInteger(value) || value < 1) throw new Error(`Invalid --${name}`);
+  return value;
+}
+
+// Seeded so runs are comparable
+function random(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 2 ** 32 - 0.5;
+  };
+}
+
+function time<T>(fn: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = fn();
+  return { result, ms: performance.now() - start };
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+// The query path before the binary index: both norms recomputed for every chunk
+function legacySearch(embeddings: number[][], query: number[], k: number): number[] {
+  const cosine = (a: number[], b: number[]) => {
+    let dot = 0, na = 0, nb = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      na += a[i] * a[i];
+      nb += b[i] * b[i];
+    }
+    return dot / (Math.sqrt(na) * Math.sqrt(nb) || 1);
+  };
+  return embeddings
+    .map((e, row) => ({ row, score: cosine(query, e) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(h => h.row);
+}
+
+async function main() {
+  const { readManifest, loadIndex } = await import('@/lib/search-index');
+  const { chunkNewsletters } = await import('@/lib/chunking');
+  const { corpusFromArgs, getNewsletters } = await import('@/lib/corpus');
+  const { LocalEmbeddingProvider } = await import('@/lib/providers/local');
+  const { IvfIndex, VectorMatrix, normalize, topRows } = await import('@/lib/vectors');
+
+  const queryCount = arg('queries', 100);
+  const rand = random(42);
+
+  // Chunk metadata stands in for what the real index stores next to the vectors
+  let embeddings: number[][];
+  let metadata: { id: string; text: string }[];
+  let source: string;
+  const synthetic = process.argv.some(a => a.startsWith('--synthetic='));
+  if (synthetic) {
+    const count = arg('synthetic', 50000);
+    const dims = arg('dims', 768);
+    const centers = Array.from({ length: Math.ceil(Math.sqrt(count)) }, () => Array.from({ length: dims }, rand));
+    embeddings = Array.from({ length: count }, (_, i) => centers[i % centers.length].map(x => x + rand() * 0.8));
+    metadata = embeddings.map((_, i) => ({ id: `chunk-${i}`, text: 'x'.repeat(600) }));
+    source = `${count} synthetic vectors, ${dims} dimensions`;
+  } else {
+    const corpus = corpusFromArgs(process.argv);
+    const manifest = readManifest(corpus);
+    if (manifest) {
+      const index = loadIndex(corpus, manifest.embeddingModel);
+      embeddings = index.chunks.map((_, i) => Array.from(index.vectors.vector(i)));
+      metadata = index.chunks;
+      source = `built index (${manifest.embeddingModel}, ${index.chunks.length} chunks)`;
+    } else {
+      const local = new LocalEmbeddingProvider();
+      const raw = chunkNewsletters(getNewsletters(corpus));
+      embeddings = await Promise.all(raw.map(c => local.embed(c.text)));
+      metadata = raw;
+      source = `corpus embedded with ${local.id} (${raw.length} chunks)`;
+    }
+  }
+  console.log(`Benchmarking ${source}, ${queryCount} queries, top ${K}.\n`);
+
+  // Cold start: read and decode each format from disk
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'index-bench-'));
+  try {
+    const jsonFile = path.join(dir, 'embeddings_cache.json');
+    fs.writeFileSync(jsonFile, JSON.stringify(metadata.map((m, i) => ({ ...m, embedding: embeddings[i] }))));
+    const metaFile = path.join(dir, 'index_chunks.json');
+    fs.writeFileSync(metaFile, JSON.stringify(metadata));
+
+    const float32 = VectorMatrix.fromVectors(embeddings, 'float32');
+    const int8 = VectorMatrix.fromVectors(embeddings, 'int8');
+    const { result: ivf, ms: ivfBuildMs } = time(() => IvfIndex.build(float32));
+    for (const [name, m] of [['float32', float32], ['int8', int8]] as const) fs.writeFileSync(path.join(dir, `${name}.bin`), m.toBuffer());
+
+    const mb = (file: string) => (fs.statSync(file).size / 1e6).toFixed(2);
+    const cold = [
+      { name: 'JSON', size: mb(jsonFile), ms: time(() => JSON.parse(fs.readFileSync(jsonFile, 'utf-8'))).ms },
+      ...(['float32', 'int8'] as const).map(encoding => {
+        const bin = path.join(dir, `${encoding}.bin`);
+        const { ms } = time(() => {
+          JSON.parse(fs.readFileSync(metaFile, 'utf-8'));
+          return VectorMatrix.fromBuffer(fs.readFileSync(bin), embeddings.length, float32.dimensions, encoding);
+        });
+        return { name: `binary ${encoding}`, size: `${mb(bin)} + ${mb(metaFile)}`, ms };
+      }),
+    ];
+    console.log('Cold start');
+    for (const c of cold) console.log(`  ${c.name.padEnd(16)} ${c.ms.toFixed(1).padStart(8)} ms   ${c.size} MB`);
+    console.log(`  (IVF build with ${ivf.centroids.count} lists: ${ivfBuildMs.toFixed(0)} ms, done once at ingest)\n`);
+
+    // Queries: stored vectors with noise, so each has real neighbours
+    const queries = Array.from({ length: queryCount }, (_, i) => {
+      const base = embeddings[Math.floor((i * embeddings.length) / queryCount)];
+      return base.map(x => x + rand() * 0.5 * Math.abs(x || 0.01));
+    });
+    const all = Array.from({ length: embeddings.length }, (_, i) => i);
+    const exact = queries.map(q => topRows(float32, normalize(q), all, K).map(h => h.row));
+
+    const methods: { name: string; search: (q: number[]) => number[] }[] = [
+      { name: 'legacy cosine', search: q => legacySearch(embeddings, q, K) },
+      { name: 'float32 dot', search: q => topRows(float32, normalize(q), all, K).map(h => h.row) },
+      { name: 'int8 dot', search: q => topRows(int8, normalize(q), all, K).map(h => h.row) },
+      { name: 'float32 + IVF', search: q => { const u = normalize(q); return topRows(float32, u, ivf.candidates(u, 8), K).map(h => h.row); } },
+    ];
+
+    console.log(`Query latency (ms)            p50      p95   recall@${K} vs exact`);
+    for (const m of methods) {
+      // Warm up the JIT so the first method isn't penalized
+      for (const q of queries.slice(0, 10)) m.search(q);
+      const times: number[] = [];
+      let found = 0;
+      queries.forEach((q, i) => {
+        const { result, ms } = time(() => m.search(q));
+        times.push(ms);
+        found += result.filter(r => exact[i].includes(r)).length;
+      });
+      console.log(`  ${m.name.padEnd(24)} ${percentile(times, 0.5).toFixed(3).padStart(8)} ${percentile(times, 0.95).toFixed(3).padStart(8)}   ${(found / (queries.length * K)).toFixed(3)}`);
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
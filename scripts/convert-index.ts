@@ -0,0 +1,151 @@
+// Convert a JSON index (embeddings_cache.json plus a v1 or v2 manifest) to the
+// binary format without calling the embedding API.
+//
+//   npm run index:convert                  # float32 vectors, for the default corpus
+//   npm run index:convert -- --corpus=<id> # another corpus
+//   npm run index:convert -- --int8        # int8-quantized vectors
+//   npm run index:convert -- --ivf         # add an IVF structure for approximate search
+//
+// The cache from before the manifest ({text,title,date,embedding}[]) is
+// converted by re-chunking the sources and reusing its vectors by content
+// hash, as ingest does. Chunks the old parser split differently are embedded
+// with text-embedding-004, the cache's model, so that needs GEMINI_API_KEY.
+//
+// To change the encoding of an index that is already binary, re-run ingest
+// with the new flags; unchanged chunks reuse their stored vectors.
+
+import fs from 'fs';
+import path from 'path';
+import { loadEnvConfig } from '@next/env';
+import type { Chunk } from '@/lib/chunking';
+import type { Corpus } from '@/lib/corpus';
+import type { IndexManifest, VectorOptions } from '@/lib/search-index';
+
+loadEnvConfig(process.cwd());
+
+// v1 and v2 indexes already have chunk ids, so only the vectors are rewritten
+async function convertJsonIndex(corpus: Corpus, manifest: IndexManifest, options: VectorOptions) {
+  const { INDEX_FORMAT_VERSION, buildVectors, readJsonIndex, writeIndex } = await import('@/lib/search-index');
+  const { KeywordTopicClassifier, getTaxonomy, taxonomyHash } = await import('@/lib/topics');
+
+  const stored = readJsonIndex(corpus);
+  const { vectors, ivf, manifest: vectorManifest } = buildVectors(stored.map(c => c.embedding), options);
+
+  // v1 indexes predate topics, so they get the keyword tags ingest would give them
+  const untagged = stored.some(c => !c.topics);
+  const taxonomy = getTaxonomy(corpus);
+  const keywords = new KeywordTopicClassifier(taxonomy);
+  const chunks = stored.map(c => ({
+    id: c.id,
+    newsletterId: c.newsletterId,
+    newsletterTitle: c.newsletterTitle,
+    sectionId: c.sectionId,
+    title: c.title,
+    date: c.date,
+    text: c.text,
+    topics: c.topics ?? keywords.tag(c),
+  }));
+
+  // Manifests before v3 name a single source file and no corpus
+  const { sourceFile, ...rest } = manifest as typeof manifest & { sourceFile?: string };
+  writeIndex(corpus, {
+    manifest: {
+      ...rest,
+      formatVersion: INDEX_FORMAT_VERSION,
+      corpus: corpus.id,
+      sourceFiles: sourceFile ? [sourceFile] : corpus.sources,
+      ...vectorManifest,
+      topicClassifier: untagged ? keywords.id : manifest.topicClassifier,
+      taxonomyHash: untagged ? taxonomyHash(taxonomy) : manifest.taxonomyHash,
+    },
+    chunks,
+    vectors,
+    ivf,
+  });
+  return { chunks, vectors, ivf };
+}
+
+async function convertLegacyCache(corpus: Corpus, options: VectorOptions) {
+  const { CHUNKER_VERSION, chunkNewsletters } = await import('@/lib/chunking');
+  const { getEmbeddingProvider } = await import('@/lib/providers');
+  const { loadSources } = await import('@/lib/sources');
+  const { INDEX_FORMAT_VERSION, LEGACY_EMBEDDING_MODEL, buildVectors, hashContent, readLegacyCache, writeIndex } = await import('@/lib/search-index');
+  const { KeywordTopicClassifier, getTaxonomy, taxonomyHash } = await import('@/lib/topics');
+
+  const previous = new Map<string, number[]>();
+  for (const c of readLegacyCache(corpus) ?? []) previous.set(hashContent(c.text), c.embedding);
+
+  const { newsletters, files, hash: sourceHash } = loadSources(corpus.sources);
+  const rawChunks = chunkNewsletters(newsletters);
+  const missing = rawChunks.filter(c => !previous.has(hashContent(c.text)));
+  console.log(`Re-chunked ${newsletters.length} newsletters into ${rawChunks.length} chunks; ${rawChunks.length - missing.length} reuse vectors from the old cache.`);
+
+  if (missing.length > 0) {
+    const provider = getEmbeddingProvider();
+    if (provider.id !== LEGACY_EMBEDDING_MODEL) {
+      throw new Error(`The old cache was embedded with ${LEGACY_EMBEDDING_MODEL}, but the embedding provider is ${provider.id}. Run \`npm run ingest\` to re-embed everything.`);
+    }
+    console.log(`Embedding the other ${missing.length} with ${provider.id}...`);
+    for (const [i, c] of missing.entries()) {
+      previous.set(hashContent(c.text), await provider.embed(c.text));
+      if ((i + 1) % 10 === 0) console.log(`Embedded ${i + 1} chunks...`);
+    }
+  }
+
+  const taxonomy = getTaxonomy(corpus);
+  const keywords = new KeywordTopicClassifier(taxonomy);
+  const chunks: Chunk[] = rawChunks.map(c => ({ ...c, topics: keywords.tag(c) }));
+  const { vectors, ivf, manifest: vectorManifest } = buildVectors(chunks.map(c => previous.get(hashContent(c.text))!), options);
+
+  writeIndex(corpus, {
+    manifest: {
+      formatVersion: INDEX_FORMAT_VERSION,
+      builtAt: new Date().toISOString(),
+      corpus: corpus.id,
+      embeddingModel: LEGACY_EMBEDDING_MODEL,
+      ...vectorManifest,
+      chunkerVersion: CHUNKER_VERSION,
+      sourceFiles: files,
+      sourceHash,
+      chunkCount: chunks.length,
+      topicClassifier: keywords.id,
+      taxonomyHash: taxonomyHash(taxonomy),
+    },
+    chunks,
+    vectors,
+    ivf,
+  });
+  return { chunks, vectors, ivf };
+}
+
+async function main() {
+  const { corpusFromArgs } = await import('@/lib/corpus');
+  const { INDEX_FORMAT_VERSION, indexPaths, parseVectorOptions, readManifest } = await import('@/lib/search-index');
+
+  const corpus = corpusFromArgs(process.argv);
+  const options = parseVectorOptions(process.argv);
+  const manifest = readManifest(corpus);
+  const jsonPath = indexPaths(corpus).json;
+  const jsonFile = path.relative(process.cwd(), jsonPath);
+  if (manifest && manifest.formatVersion >= INDEX_FORMAT_VERSION) {
+    throw new Error('The index is already in the binary format. Re-run `npm run ingest` to change its encoding.');
+  }
+  if (!fs.existsSync(jsonPath)) {
+    throw new Error(`No ${jsonFile} to convert. Run \`npm run ingest\` to build the index.`);
+  }
+
+  const { chunks, vectors, ivf } = manifest ? await convertJsonIndex(corpus, manifest, options) : await convertLegacyCache(corpus, options);
+
+  const before = fs.statSync(jsonPath).size;
+  const after = vectors.toBuffer().byteLength + (ivf?.toBuffer().byteLength ?? 0);
+  console.log(
+    `Converted ${chunks.length} chunks to ${vectors.encoding}${ivf ? ` with ${ivf.centroids.count} IVF lists` : ''}: ` +
+    `${(before / 1e6).toFixed(2)} MB of JSON → ${(after / 1e6).toFixed(2)} MB of vectors plus chunk metadata.`,
+  );
+  console.log(`${jsonFile} is no longer read and can be deleted.`);
+}
+
+main().catch(e => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
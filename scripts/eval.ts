@@ -0,0 +1,164 @@
+// Run the golden question set through retrieval and a stubbed chat provider,
+// report recall@k, MRR and refusal accuracy, and compare with the saved baseline.
+//
+//   npm run eval                        # compare against the default corpus's eval/baseline.json
+//   npm run eval -- --corpus=<id>       # evaluate another corpus with its own golden set
+//   npm run eval -- --update-baseline   # save these results as the new baseline
+//   npm run eval -- --local             # ignore the built index, embed the corpus locally
+//   npm run eval -- --k=6               # evaluate a different topK
+//
+// Fully offline: the built index is used with cached query embeddings, and
+// without an index the corpus is embedded in memory with the local provider.
+
+import fs from 'fs';
+import path from 'path';
+import { loadEnvConfig } from '@next/env';
+import type { EvalCase, EvalReport } from '@/lib/eval';
+
+loadEnvConfig(process.cwd());
+
+type QueryEmbeddings = Record<string, Record<string, number[]>>;
+
+function readJson<T>(file: string, fallback: T): T {
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : fallback;
+}
+
+function writeJson(file: string, value: unknown) {
+  fs.writeFileSync(file, JSON.stringify(value, null, 2) + '\n');
+}
+
+const pct = (n: number) => n.toFixed(3);
+
+async function main() {
+  const updateBaseline = process.argv.includes('--update-baseline');
+  const forceLocal = process.argv.includes('--local');
+
+  // Imported after the env is loaded, since the providers read API keys at import time
+  const { chunkNewsletters } = await import('@/lib/chunking');
+  const { corpusFromArgs, getNewsletters, personaStopwords } = await import('@/lib/corpus');
+  const { compareReports, scoreCase, summarize } = await import('@/lib/eval');
+  const { buildContext, buildSystemPrompt } = await import('@/lib/prompts');
+  const { LocalChatProvider, LocalEmbeddingProvider } = await import('@/lib/providers/local');
+  const { getEmbeddingProvider } = await import('@/lib/providers');
+  const { DEFAULT_TOP_K, Retriever } = await import('@/lib/retrieval');
+  const { loadIndex, readManifest } = await import('@/lib/search-index');
+  const { KeywordTopicClassifier, getTaxonomy } = await import('@/lib/topics');
+  const { VectorMatrix } = await import('@/lib/vectors');
+
+  const kArg = process.argv.find(a => a.startsWith('--k='));
+  const k = kArg ? Number(kArg.slice(4)) : DEFAULT_TOP_K;
+  if (!Number.isInteger(k) || k < 1) throw new Error(`Invalid --k: ${kArg}`);
+
+  const corpus = corpusFromArgs(process.argv);
+  const evalDir = path.join(process.cwd(), corpus.dataDir, 'eval');
+  const goldenPath = path.join(evalDir, 'golden.json');
+  const baselinePath = path.join(evalDir, 'baseline.json');
+  // Query vectors per embedding model, so runs against a real index don't need the network
+  const queryEmbeddingsPath = path.join(evalDir, 'query_embeddings.json');
+
+  const cases: EvalCase[] = readJson(goldenPath, []);
+  if (cases.length === 0) throw new Error(`No golden questions in ${path.relative(process.cwd(), goldenPath)}.`);
+  const manifest = forceLocal ? null : readManifest(corpus);
+
+  let retriever: InstanceType<typeof Retriever>;
+  let embeddingModel: string;
+  let embedQuery: (question: string) => Promise<number[]>;
+
+  if (manifest) {
+    const index = loadIndex(corpus, manifest.embeddingModel);
+    retriever = new Retriever(index.chunks, index.vectors, index.ivf, personaStopwords(corpus));
+    embeddingModel = manifest.embeddingModel;
+
+    const cache = readJson<QueryEmbeddings>(queryEmbeddingsPath, {});
+    const cached = (cache[embeddingModel] ??= {});
+    let added = 0;
+    for (const c of cases) {
+      if (cached[c.question]) continue;
+      // Only reached when a question is new or the model changed
+      const provider = getEmbeddingProvider();
+      if (provider.id !== embeddingModel) {
+        throw new Error(`No cached embedding for "${c.question}" and the configured provider is ${provider.id}, not ${embeddingModel}.`);
+      }
+      cached[c.question] = await provider.embed(c.question);
+      added++;
+    }
+    if (added > 0) {
+      writeJson(queryEmbeddingsPath, cache);
+      console.log(`Cached ${added} new query embeddings for ${embeddingModel}.`);
+    }
+    embedQuery = async question => cached[question];
+  } else {
+    const local = new LocalEmbeddingProvider();
+    const raw = chunkNewsletters(getNewsletters(corpus));
+    const topics = new KeywordTopicClassifier(getTaxonomy(corpus));
+    const embeddings = await Promise.all(raw.map(c => local.embed(c.text)));
+    retriever = new Retriever(raw.map(c => ({ ...c, topics: topics.tag(c) })), VectorMatrix.fromVectors(embeddings), null, personaStopwords(corpus));
+    embeddingModel = local.id;
+    embedQuery = question => local.embed(question);
+    if (!forceLocal) console.log('No built index found; embedding the corpus with the local provider.');
+  }
+
+  const chat = new LocalChatProvider();
+  console.log(`Evaluating ${cases.length} questions against ${retriever.chunks.length} ${corpus.id} chunks (${embeddingModel}, k=${k}).\n`);
+
+  const results = [];
+  for (const c of cases) {
+    const retrieved = await retriever.search(c.question, await embedQuery(c.question), { topK: k });
+    const relevant = retrieved.map(r => r.chunk);
+    const answer = await chat.generate({
+      system: buildSystemPrompt(buildContext(relevant), corpus),
+      messages: [{ role: 'user', content: c.question }],
+    });
+
+    const result = scoreCase(c, relevant.map(r => r.newsletterId), answer, corpus);
+    results.push(result);
+
+    const miss = result.recall !== null && result.recall < 1;
+    if (miss || !result.correctReply) {
+      const problems = [
+        miss && `recall ${pct(result.recall!)}, first relevant rank ${result.firstRelevantRank ?? '-'}`,
+        !result.correctReply && `expected ${c.expect}, got ${result.reply}`,
+      ].filter(Boolean);
+      console.log(`✗ ${c.id}: ${problems.join('; ')}`);
+    }
+  }
+
+  const report: EvalReport = { embeddingModel, k, metrics: summarize(results), cases: results };
+  console.log(`\nrecall@${k}          ${pct(report.metrics.recallAtK)}`);
+  console.log(`MRR               ${pct(report.metrics.mrr)}`);
+  console.log(`refusal accuracy  ${pct(report.metrics.refusalAccuracy)}\n`);
+
+  // Baselines are kept per embedding model, since scores aren't comparable across models
+  const baselines = readJson<Record<string, EvalReport>>(baselinePath, {});
+  if (updateBaseline) {
+    baselines[embeddingModel] = report;
+    writeJson(baselinePath, baselines);
+    console.log(`Baseline for ${embeddingModel} updated.`);
+    return;
+  }
+
+  const baseline = baselines[embeddingModel];
+  if (!baseline) {
+    console.log(`No baseline for ${embeddingModel}; run with --update-baseline to save one.`);
+    return;
+  }
+  if (baseline.k !== k) console.log(`Note: the baseline was recorded with k=${baseline.k}.`);
+
+  const { metrics, cases: changed } = compareReports(baseline, report);
+  console.log('Compared with baseline:');
+  for (const m of metrics) {
+    const delta = m.current - m.baseline;
+    console.log(`  ${m.metric.padEnd(16)} ${pct(m.baseline)} → ${pct(m.current)} (${delta >= 0 ? '+' : ''}${pct(delta)})${m.regressed ? '  REGRESSED' : ''}`);
+  }
+  for (const c of changed) console.log(`  ${c.id}: ${c.change}`);
+
+  if (metrics.some(m => m.regressed)) {
+    console.error('\nEval regressed against the baseline.');
+    process.exit(1);
+  }
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
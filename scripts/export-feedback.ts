@@ -0,0 +1,85 @@
+// Turn thumbs-down feedback into candidate eval cases for review.
+//
+//   npm run feedback:export                   # the default corpus
+//   npm run feedback:export -- --corpus=<id>
+//
+// Writes eval/candidates.json in the corpus's data directory. Each candidate keeps the original
+// answer, comment and retrieved newsletters; fill in `expectedNewsletters` and
+// `expect`, then move the ones worth keeping into golden.json.
+
+import fs from 'fs';
+import path from 'path';
+import { loadEnvConfig } from '@next/env';
+import type { EvalCase } from '@/lib/eval';
+
+loadEnvConfig(process.cwd());
+
+interface CandidateEvalCase extends EvalCase {
+  feedback: {
+    id: string;
+    createdAt: string;
+    comment: string | null;
+    answer: string;
+    retrievedNewsletters: string[];
+    traceId: string | null;
+  };
+}
+
+async function main() {
+  const { chunkNewsletters } = await import('@/lib/chunking');
+  const { corpusFromArgs, getDefaultCorpus, getNewsletters } = await import('@/lib/corpus');
+  const { getFeedbackStore } = await import('@/lib/feedback');
+  const { normalizeQuery } = await import('@/lib/answer-cache');
+  const { slugify } = await import('@/lib/newsletters');
+
+  const corpus = corpusFromArgs(process.argv);
+  const evalDir = path.join(process.cwd(), corpus.dataDir, 'eval');
+  const goldenPath = path.join(evalDir, 'golden.json');
+  const candidatesPath = path.join(evalDir, 'candidates.json');
+
+  // Chunk ids are stable hashes, so re-chunking the corpus maps them back to newsletters
+  const newsletterByChunk = new Map(chunkNewsletters(getNewsletters(corpus)).map(c => [c.id, c.newsletterId]));
+
+  const golden: EvalCase[] = fs.existsSync(goldenPath) ? JSON.parse(fs.readFileSync(goldenPath, 'utf-8')) : [];
+  const seen = new Set(golden.map(c => normalizeQuery(c.question)));
+  const usedIds = new Set(golden.map(c => c.id));
+
+  const defaultId = getDefaultCorpus().id;
+  const negative = (await getFeedbackStore().list()).filter(f => f.rating === 'down' && (f.corpus ?? defaultId) === corpus.id);
+  const candidates: CandidateEvalCase[] = [];
+
+  for (const f of negative) {
+    const key = normalizeQuery(f.query);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const base = `feedback-${slugify(f.query).slice(0, 40).replace(/-+$/, '') || 'question'}`;
+    let id = base;
+    for (let n = 2; usedIds.has(id); n++) id = `${base}-${n}`;
+    usedIds.add(id);
+
+    candidates.push({
+      id,
+      question: f.query,
+      expectedNewsletters: [],
+      expect: 'answer',
+      feedback: {
+        id: f.id,
+        createdAt: f.createdAt,
+        comment: f.comment,
+        answer: f.answer,
+        retrievedNewsletters: [...new Set(f.chunkIds.map(c => newsletterByChunk.get(c)).filter((n): n is string => !!n))],
+        traceId: f.traceId,
+      },
+    });
+  }
+
+  fs.mkdirSync(evalDir, { recursive: true });
+  fs.writeFileSync(candidatesPath, JSON.stringify(candidates, null, 2) + '\n');
+  console.log(`${negative.length} thumbs-down entries for ${corpus.id}, ${candidates.length} new candidate eval cases written to ${path.relative(process.cwd(), candidatesPath)}.`);
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
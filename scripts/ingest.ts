@@ -0,0 +1,161 @@
+// Build a corpus's search index offline: parse its sources, embed new or
+// changed chunks, tag them with topics, and write the index plus its manifest
+// to the corpus's data directory.
+//
+//   npm run ingest                     # the default corpus; reuse embeddings and topics for unchanged chunks
+//   npm run ingest -- --corpus=<id>    # another corpus from src/data/corpora.json
+//   npm run ingest -- --force          # re-embed and re-tag everything
+//   npm run ingest -- --int8           # store int8-quantized vectors (4x smaller)
+//   npm run ingest -- --ivf            # add an IVF structure for approximate search
+//
+// TOPIC_CLASSIFIER=llm tags chunks with the first chat provider instead of the
+// keyword rules in the corpus's topics.json.
+
+import { loadEnvConfig } from '@next/env';
+import type { Chunk } from '@/lib/chunking';
+
+loadEnvConfig(process.cwd());
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 1000;
+const TOPIC_BATCH_SIZE = 10;
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// Exponential backoff with jitter; gives up after MAX_ATTEMPTS
+async function withRetry<T>(label: string, fn: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (attempt >= MAX_ATTEMPTS) throw e;
+      const delay = BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250;
+      console.warn(`${label} failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${Math.round(delay)}ms:`, e instanceof Error ? e.message : e);
+      await sleep(delay);
+    }
+  }
+}
+
+async function main() {
+  const force = process.argv.includes('--force');
+
+  // Imported after the env is loaded, since the providers read API keys at import time
+  const { CHUNKER_VERSION, chunkNewsletters } = await import('@/lib/chunking');
+  const { getEmbeddingProvider } = await import('@/lib/providers');
+  const { corpusFromArgs } = await import('@/lib/corpus');
+  const { loadSources } = await import('@/lib/sources');
+  const { INDEX_FORMAT_VERSION, LEGACY_EMBEDDING_MODEL, buildVectors, hashContent, parseVectorOptions, readLegacyCache, readManifest, readStoredEmbeddings, writeIndex } = await import('@/lib/search-index');
+  const { KeywordTopicClassifier, createTopicClassifier, getTaxonomy, taxonomyHash } = await import('@/lib/topics');
+
+  const corpus = corpusFromArgs(process.argv);
+  const vectorOptions = parseVectorOptions(process.argv);
+  const provider = getEmbeddingProvider();
+  const taxonomy = getTaxonomy(corpus);
+  const classifier = createTopicClassifier(taxonomy);
+  const { newsletters, files, hash: sourceHash } = loadSources(corpus.sources);
+  const rawChunks = chunkNewsletters(newsletters);
+  console.log(`Parsed ${newsletters.length} ${corpus.id} newsletters from ${files.length} ${files.length === 1 ? 'file' : 'files'} into ${rawChunks.length} chunks.`);
+
+  // Reuse vectors from the previous build when the model is unchanged, keyed by
+  // content hash, and topics when the classifier and taxonomy are unchanged too
+  const previous = new Map<string, ArrayLike<number>>();
+  const previousTopics = new Map<string, string[]>();
+  const manifest = readManifest(corpus);
+  if (!force && manifest?.embeddingModel === provider.id) {
+    const cached = readStoredEmbeddings(corpus, manifest);
+    const sameTopics = manifest.topicClassifier === classifier.id && manifest.taxonomyHash === taxonomyHash(taxonomy);
+    for (const c of cached) {
+      previous.set(hashContent(c.text), c.embedding);
+      if (sameTopics && c.topics) previousTopics.set(hashContent(c.text), c.topics);
+    }
+  } else if (!force && !manifest && provider.id === LEGACY_EMBEDDING_MODEL) {
+    for (const c of readLegacyCache(corpus) ?? []) previous.set(hashContent(c.text), c.embedding);
+  }
+
+  const missing = rawChunks.filter(c => !previous.has(hashContent(c.text))).length;
+  console.log(`${rawChunks.length - missing} chunks unchanged, ${missing} to embed with ${provider.id}.`);
+
+  const chunks: Chunk[] = [];
+  const embeddings: ArrayLike<number>[] = [];
+  const failed: string[] = [];
+  let embedded = 0;
+
+  for (const raw of rawChunks) {
+    const reused = previous.get(hashContent(raw.text));
+    if (reused) {
+      chunks.push({ ...raw, topics: [] });
+      embeddings.push(reused);
+      continue;
+    }
+
+    try {
+      const embedding = await withRetry(`Chunk ${raw.id}`, () => provider.embed(raw.text));
+      chunks.push({ ...raw, topics: [] });
+      embeddings.push(embedding);
+      embedded++;
+      if (embedded % 10 === 0) console.log(`Embedded ${embedded} new chunks...`);
+    } catch (e) {
+      console.error(`Giving up on chunk ${raw.id} (${raw.newsletterId}):`, e instanceof Error ? e.message : e);
+      failed.push(raw.id);
+    }
+  }
+
+  // A partial index would silently hide content from search, so don't write one
+  if (failed.length > 0) {
+    console.error(`${failed.length} chunks could not be embedded; index not written. Re-run to retry.`);
+    process.exit(1);
+  }
+
+  // Topics are tagged in batches. A batch the classifier keeps failing on falls
+  // back to the keyword rules rather than leaving its chunks untagged.
+  const untagged = chunks.filter(c => {
+    const topics = previousTopics.get(hashContent(c.text));
+    if (topics) c.topics = topics;
+    return !topics;
+  });
+  console.log(`Tagging ${untagged.length} chunks with ${classifier.id} topics (${chunks.length - untagged.length} reused).`);
+  const keywords = new KeywordTopicClassifier(taxonomy);
+  let fallbacks = 0;
+  for (let i = 0; i < untagged.length; i += TOPIC_BATCH_SIZE) {
+    const batch = untagged.slice(i, i + TOPIC_BATCH_SIZE);
+    let tags: string[][];
+    try {
+      tags = await withRetry(`Topics for chunks ${i + 1}-${i + batch.length}`, () => classifier.classify(batch));
+    } catch (e) {
+      console.error(`Falling back to keyword topics for chunks ${i + 1}-${i + batch.length}:`, e instanceof Error ? e.message : e);
+      tags = await keywords.classify(batch);
+      fallbacks += batch.length;
+    }
+    batch.forEach((c, j) => { c.topics = tags[j]; });
+  }
+
+  const { vectors, ivf, manifest: vectorManifest } = buildVectors(embeddings, vectorOptions);
+
+  writeIndex(corpus, {
+    manifest: {
+      formatVersion: INDEX_FORMAT_VERSION,
+      builtAt: new Date().toISOString(),
+      corpus: corpus.id,
+      embeddingModel: provider.id,
+      ...vectorManifest,
+      chunkerVersion: CHUNKER_VERSION,
+      sourceFiles: files,
+      sourceHash,
+      chunkCount: chunks.length,
+      // Recorded as keyword tags when any batch fell back, so the next run tags everything again
+      topicClassifier: fallbacks > 0 ? keywords.id : classifier.id,
+      taxonomyHash: taxonomyHash(taxonomy),
+    },
+    chunks,
+    vectors,
+    ivf,
+  });
+
+  const tagged = chunks.filter(c => c.topics.length > 0).length;
+  console.log(`Index written: ${chunks.length} chunks (${embedded} newly embedded, ${chunks.length - embedded} reused), ${tagged} with topics.`);
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
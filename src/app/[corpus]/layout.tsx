@@ -0,0 +1,17 @@
+import { prefixedCorpora } from '@/lib/corpus';
+
+// One set of pages per corpus in corpora.json other than the default, built
+// at build time; any other first path segment is a 404
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return prefixedCorpora().map(c => ({ corpus: c.id }));
+}
+
+export default function CorpusLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
@@ -0,0 +1,33 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import NewsletterArticle from '@/components/NewsletterArticle';
+import { findPrefixedCorpus, getNewsletters, toPublicCorpus } from '@/lib/corpus';
+
+type Params = { params: Promise<{ corpus: string; id: string }> };
+
+// Every issue of every corpus is rendered at build time
+export const dynamicParams = false;
+
+export function generateStaticParams({ params }: { params: { corpus: string } }) {
+  const corpus = findPrefixedCorpus(params.corpus);
+  return corpus ? getNewsletters(corpus).map(nl => ({ id: nl.id })) : [];
+}
+
+async function findNewsletter(params: Params['params']) {
+  const { corpus: corpusId, id } = await params;
+  const corpus = findPrefixedCorpus(corpusId);
+  const newsletter = corpus && getNewsletters(corpus).find(nl => nl.id === id);
+  return corpus && newsletter ? { corpus, newsletter } : null;
+}
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const found = await findNewsletter(params);
+  return { title: found ? `${found.newsletter.title} | ${found.corpus.name}` : 'Newsletter not found' };
+}
+
+export default async function CorpusNewsletterPage({ params }: Params) {
+  const found = await findNewsletter(params);
+  if (!found) notFound();
+
+  return <NewsletterArticle corpus={toPublicCorpus(found.corpus)} newsletter={found.newsletter} />;
+}
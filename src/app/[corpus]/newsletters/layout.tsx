@@ -0,0 +1,16 @@
+import { notFound } from 'next/navigation';
+import ArchiveLayout from '@/components/ArchiveLayout';
+import { findPrefixedCorpus, toPublicCorpus } from '@/lib/corpus';
+
+export default async function CorpusNewslettersLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Promise<{ corpus: string }>;
+}>) {
+  const corpus = findPrefixedCorpus((await params).corpus);
+  if (!corpus) notFound();
+
+  return <ArchiveLayout corpus={toPublicCorpus(corpus)}>{children}</ArchiveLayout>;
+}
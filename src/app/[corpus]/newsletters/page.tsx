@@ -0,0 +1,22 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import NewsletterList from '@/components/NewsletterList';
+import { findPrefixedCorpus, getNewsletters, toPublicCorpus } from '@/lib/corpus';
+
+type Params = { params: Promise<{ corpus: string }> };
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const corpus = findPrefixedCorpus((await params).corpus);
+  if (!corpus) return {};
+  return {
+    title: `Newsletter Archive | ${corpus.name}`,
+    description: `Every issue of ${corpus.persona.name}'s newsletter, newest first.`,
+  };
+}
+
+export default async function CorpusNewslettersPage({ params }: Params) {
+  const corpus = findPrefixedCorpus((await params).corpus);
+  if (!corpus) notFound();
+
+  return <NewsletterList corpus={toPublicCorpus(corpus)} newsletters={getNewsletters(corpus)} />;
+}
@@ -0,0 +1,23 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import ChatApp from '@/components/ChatApp';
+import { findPrefixedCorpus, toPublicCorpus } from '@/lib/corpus';
+
+type Params = { params: Promise<{ corpus: string }> };
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const corpus = findPrefixedCorpus((await params).corpus);
+  if (!corpus) return {};
+  return {
+    title: corpus.branding.title,
+    description: corpus.branding.description,
+    openGraph: { title: corpus.name, description: corpus.branding.description, type: 'website' },
+  };
+}
+
+export default async function CorpusHome({ params }: Params) {
+  const corpus = findPrefixedCorpus((await params).corpus);
+  if (!corpus) notFound();
+
+  return <ChatApp corpus={toPublicCorpus(corpus)} />;
+}
@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import AdminDashboard from '@/components/AdminDashboard';
+import { listCorpora, toPublicCorpus } from '@/lib/corpus';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Admin',
+  robots: { index: false, follow: false },
+};
+
+// Like the admin API, only there when ADMIN_TOKEN is set; the dashboard asks for the token
+export default function AdminPage() {
+  if (!process.env.ADMIN_TOKEN?.trim()) notFound();
+  return <AdminDashboard corpora={listCorpora().map(toPublicCorpus)} />;
+}
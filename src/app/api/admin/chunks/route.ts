@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import { errorResponse } from '@/lib/api-error';
+import { corpusFromRequest } from '@/lib/corpus';
+import { getIndexedChunks } from '@/lib/retrieval';
+
+export const dynamic = 'force-dynamic';
+
+// Indexed chunks in index order. ?q= matches a chunk id or any text in the
+// chunk (case-insensitive), ?newsletter= and ?topic= narrow by id, and
+// ?offset= and ?limit= page through the matches.
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+    const corpus = corpusFromRequest(request);
+    const params = request.nextUrl.searchParams;
+    const q = params.get('q')?.trim().toLowerCase();
+    const newsletter = params.get('newsletter');
+    const topic = params.get('topic');
+
+    const matches = getIndexedChunks(corpus).filter(c =>
+      (!newsletter || c.newsletterId === newsletter) &&
+      (!topic || c.topics.includes(topic)) &&
+      (!q || c.id === q || [c.text, c.title, c.newsletterTitle].some(text => text.toLowerCase().includes(q))),
+    );
+    const offset = Math.max(0, Math.floor(Number(params.get('offset'))) || 0);
+    const limit = Math.max(1, Math.min(Number(params.get('limit')) || 20, 100));
+    return NextResponse.json({ total: matches.length, offset, chunks: matches.slice(offset, offset + limit) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import { errorResponse } from '@/lib/api-error';
+import { corpusFromRequest } from '@/lib/corpus';
+import { getIndexHealth } from '@/lib/index-health';
+
+export const dynamic = 'force-dynamic';
+
+// The corpus's index build, its chunk counts per newsletter and how far it has
+// fallen behind the sources
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+    return NextResponse.json({ health: getIndexHealth(corpusFromRequest(request)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
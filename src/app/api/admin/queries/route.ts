@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import { errorResponse } from '@/lib/api-error';
+import { corpusFromRequest } from '@/lib/corpus';
+import { getQueryLog, summarizeQueries } from '@/lib/query-log';
+
+export const dynamic = 'force-dynamic';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Query analytics for a corpus from the local query log: top questions, refusal
+// and error rates, latency and the slowest requests over the last ?days=<n> (default 30)
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+    const corpus = corpusFromRequest(request);
+    const days = Math.max(1, Math.min(Math.floor(Number(request.nextUrl.searchParams.get('days'))) || 30, 365));
+
+    const log = getQueryLog();
+    const entries = (await log?.list(new Date(Date.now() - days * DAY_MS))) ?? [];
+    return NextResponse.json({
+      enabled: log !== null,
+      days,
+      stats: summarizeQueries(entries.filter(e => e.corpus === corpus.id)),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import { ApiError, errorResponse } from '@/lib/api-error';
+import { getRecentTraces } from '@/lib/trace';
+
+export const dynamic = 'force-dynamic';
+
+// Recent request traces from this server instance, newest first.
+// ?id=<trace id> returns one trace, ?limit=<n> caps the list.
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  const params = request.nextUrl.searchParams;
+  const id = params.get('id');
+  if (id) {
+    const trace = getRecentTraces().find(t => t.id === id);
+    return trace ? NextResponse.json({ trace }) : errorResponse(new ApiError('not_found', 404, 'Trace not found.'));
+  }
+
+  const limit = Math.max(1, Math.min(Number(params.get('limit')) || 50, 200));
+  return NextResponse.json({ traces: getRecentTraces(limit) });
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import { getAnswerCache } from '@/lib/answer-cache';
+import { errorResponse } from '@/lib/api-error';
+
+// Counts only, per server instance; nothing about the cached questions themselves.
+// Even counts reveal traffic, so they need the admin token.
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request);
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  return NextResponse.json({ answerCache: getAnswerCache()?.stats() ?? null });
+}
@@ -1,234 +1,193 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import fs from 'fs';
-import path from 'path';
-
-// Initialize clients
-const genAI = process.env.GEMINI_API_KEY ? new GoogleGenerativeAI(process.env.GEMINI_API_KEY) : null;
-
-interface Chunk {
-  text: string;
-  title: string;
-  date: string;
-  embedding: number[];
+import { NextRequest } from 'next/server';
+import { chatSources, errorMessage, rewriteQuery, streamAnswer } from '@/lib/answer';
+import { getAnswerCache, type AnswerCache, type CachedAnswer, type CacheHit } from '@/lib/answer-cache';
+import { ApiError, errorResponse, toApiError } from '@/lib/api-error';
+import { estimateTokens, getBudgetGuard } from '@/lib/budget';
+import { parseChatRequest } from '@/lib/chat-request';
+import { extractCitations } from '@/lib/citations';
+import { corpusFromRequest, type Corpus } from '@/lib/corpus';
+import { encodeChatEvent, type ChatStreamEvent, type RetrievalResult } from '@/lib/chat-stream';
+import type { SearchFilters } from '@/lib/filters';
+import { getEntailmentChecker, shouldRemoveUnsupported, verifyGrounding } from '@/lib/grounding';
+import { buildContext, buildSystemPrompt, UNAVAILABLE_MESSAGE } from '@/lib/prompts';
+import type { ChatRequest } from '@/lib/providers';
+import { DEFAULT_TOP_K, embedQuery, getIndexVersion, searchChunks, type RetrievedChunk } from '@/lib/retrieval';
+import { logQuery, type AskedQuery } from '@/lib/query-log';
+import { clientIp, getRateLimiter } from '@/lib/rate-limit';
+import { Trace } from '@/lib/trace';
+import type { HistoryMessage } from '@/lib/conversation';
+
+const NDJSON_HEADERS = {
+  'Content-Type': 'application/x-ndjson; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+};
+
+// Replay a cached answer as the same event sequence a fresh one would produce
+function cachedResponse(cached: CachedAnswer, hit: CacheHit, traceId: string): Response {
+  const events: ChatStreamEvent[] = [
+    { type: 'query', searchQuery: cached.searchQuery },
+    { type: 'sources', sources: cached.sources },
+    { type: 'retrieval', results: cached.retrieval },
+    { type: 'text', delta: cached.answer },
+    ...(cached.grounding ? [{ type: 'grounding' as const, grounding: cached.grounding }] : []),
+    { type: 'citations', citations: cached.citations },
+    { type: 'done', cached: hit },
+  ];
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) controller.enqueue(encodeChatEvent(event));
+      controller.close();
+    },
+  });
+  return new Response(stream, { headers: { ...NDJSON_HEADERS, 'X-Trace-Id': traceId } });
 }
 
-let chunks: Chunk[] = [];
-let isInitialized = false;
-
-const CACHE_PATH = path.join(process.cwd(), 'src', 'data', 'embeddings_cache.json');
-
-// Improved chunking - splits by logical sections
-function splitIntoChunks(content: string): Omit<Chunk, 'embedding'>[] {
-  const result: Omit<Chunk, 'embedding'>[] = [];
-  
-  const datePattern = /(January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},\s+\d{4}/gi;
-  const rawNewsletters = content.split(/(?=(?:January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},\s+\d{4})/gi)
-    .filter(p => p.trim().length > 200);
-
-  for (const nl of rawNewsletters) {
-    const dateMatch = nl.match(datePattern);
-    const date = dateMatch ? dateMatch[0] : 'Unknown';
-    
-    // Split by double newlines (paragraphs)
-    const paragraphs = nl.split(/\n\s*\n/).filter(p => p.trim().length > 50);
-    
-    let buffer = '';
-    let currentTitle = date;
-    
-    for (let i = 0; i < paragraphs.length; i++) {
-      const para = paragraphs[i].trim();
-      
-      // Detect headers (short lines, often before longer content)
-      if (para.length < 80 && !para.endsWith('.') && para.length > 5) {
-        if (buffer.length > 200) {
-          result.push({ text: buffer.trim(), title: currentTitle, date });
-          buffer = '';
-        }
-        currentTitle = para;
-        continue;
-      }
-      
-      buffer += para + '\n\n';
-      
-      // Chunk when buffer exceeds ~800 chars
-      if (buffer.length > 800) {
-        result.push({ text: buffer.trim(), title: currentTitle, date });
-        buffer = '';
-      }
+export async function POST(request: NextRequest) {
+  const trace = new Trace('/api/chat');
+  let corpus: Corpus;
+  let query: string;
+  let history: HistoryMessage[];
+  let filters: SearchFilters;
+  let indexVersion: string;
+  let searchQuery: string;
+  let queryEmbedding: number[];
+  let retrieved: RetrievedChunk[];
+  let cache: AnswerCache | null;
+  // Requests are only logged once there is a question to log
+  let asked: AskedQuery | null = null;
+  try {
+    // Cheap checks first, before anything reaches a paid API
+    const limit = await getRateLimiter()?.consume(clientIp(request));
+    if (limit && !limit.allowed) {
+      throw new ApiError('rate_limited', 429, "You're asking questions too quickly. Please wait a moment.", Math.ceil(limit.retryAfterMs / 1000));
     }
-    
-    if (buffer.length > 100) {
-      result.push({ text: buffer.trim(), title: currentTitle, date });
+    corpus = corpusFromRequest(request);
+    trace.set('corpus', corpus.id);
+    ({ query, history, filters } = await parseChatRequest(request));
+    trace.set('historyLength', history.length);
+    asked = { corpus, query };
+
+    // Follow-ups depend on the conversation, so only first-turn questions are cached
+    cache = history.length === 0 ? getAnswerCache() : null;
+    indexVersion = getIndexVersion(corpus);
+    const exact = cache?.getExact(corpus.id, query, filters, indexVersion);
+    if (exact) {
+      trace.set('cache', 'exact');
+      trace.setRetrieval(exact.retrieval);
+      logQuery(trace.finish('ok'), { ...asked, answer: exact.answer });
+      return cachedResponse(exact, 'exact', trace.id);
     }
-  }
-  
-  return result;
-}
-
-// Cosine similarity
-function cosineSimilarity(a: number[], b: number[]): number {
-  let dot = 0, normA = 0, normB = 0;
-  for (let i = 0; i < a.length; i++) {
-    dot += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
-}
-
-// Get embeddings via Gemini
-async function getEmbedding(text: string): Promise<number[]> {
-  if (!genAI) throw new Error('Gemini not configured');
-  const model = genAI.getGenerativeModel({ model: 'text-embedding-004' });
-  const result = await model.embedContent(text.slice(0, 2000));
-  return result.embedding.values;
-}
 
-// Load or generate embeddings (WITH CACHING)
-async function initializeChunks() {
-  if (isInitialized) return;
-  
-  // Try loading from cache first
-  if (fs.existsSync(CACHE_PATH)) {
-    try {
-      const cached = JSON.parse(fs.readFileSync(CACHE_PATH, 'utf-8'));
-      if (cached.length > 0 && cached[0].embedding) {
-        chunks = cached;
-        isInitialized = true;
-        console.log(`Loaded ${chunks.length} chunks from cache (instant!)`);
-        return;
-      }
-    } catch (e) {
-      console.log('Cache invalid, regenerating...');
+    await getBudgetGuard()?.check();
+    searchQuery = await trace.stage('rewrite', () => rewriteQuery(corpus, query, history, trace));
+    queryEmbedding = await trace.stage('embed', () => embedQuery(corpus, searchQuery));
+    trace.addTokens(estimateTokens(searchQuery), 0);
+
+    const similar = cache?.getSimilar(corpus.id, queryEmbedding, filters, indexVersion);
+    if (similar) {
+      trace.set('cache', 'semantic');
+      trace.setRetrieval(similar.retrieval);
+      await getBudgetGuard()?.record(trace.totalTokens);
+      logQuery(trace.finish('ok'), { ...asked, searchQuery, answer: similar.answer });
+      return cachedResponse(similar, 'semantic', trace.id);
     }
+    retrieved = await trace.stage('search', () => searchChunks(corpus, searchQuery, queryEmbedding, DEFAULT_TOP_K, filters, trace));
+  } catch (error) {
+    const apiError = toApiError(error);
+    // The trace keeps the real reason; the client only gets the safe message
+    trace.set('errorCode', apiError.code);
+    const record = trace.finish('error', errorMessage(error));
+    if (asked) logQuery(record, asked);
+    return errorResponse(apiError);
   }
 
-  // Generate fresh embeddings
-  console.log('Generating embeddings (one-time operation)...');
-  const contentPath = path.join(process.cwd(), 'src', 'data', 'newsletters.txt');
-  const content = fs.readFileSync(contentPath, 'utf-8');
-  const rawChunks = splitIntoChunks(content);
-  
-  console.log(`Processing ${rawChunks.length} chunks...`);
-  
-  const embeddedChunks: Chunk[] = [];
-  for (let i = 0; i < rawChunks.length; i++) {
-    try {
-      const embedding = await getEmbedding(rawChunks[i].text);
-      embeddedChunks.push({ ...rawChunks[i], embedding });
-      
-      // Rate limit: 60 requests per minute for free tier
-      if (i % 10 === 0) {
-        console.log(`Embedded ${i}/${rawChunks.length}...`);
-        await new Promise(r => setTimeout(r, 1000));
-      }
-    } catch (e) {
-      console.error(`Failed chunk ${i}:`, e);
-    }
-  }
-  
-  chunks = embeddedChunks;
-  
-  // Save to cache
-  fs.writeFileSync(CACHE_PATH, JSON.stringify(chunks));
-  console.log(`Saved ${chunks.length} embeddings to cache.`);
-  
-  isInitialized = true;
-}
-
-// Semantic search
-async function findRelevantChunks(query: string, topK: number = 4): Promise<Chunk[]> {
-  await initializeChunks();
-  
-  const queryEmb = await getEmbedding(query);
-  
-  return chunks
-    .map(c => ({ chunk: c, score: cosineSimilarity(queryEmb, c.embedding) }))
-    .sort((a, b) => b.score - a.score)
-    .slice(0, topK)
-    .map(s => s.chunk);
-}
-
-// Generate answer - OpenRouter PRIMARY (more reliable)
-async function generateAnswer(query: string, context: string): Promise<string> {
-  const systemPrompt = `You are a search tool for Andrew Wilkinson's newsletter archive. Your ONLY job is to find and quote what Andrew has written.
-
-CRITICAL RULES - FOLLOW EXACTLY:
-1. You can ONLY share information that is DIRECTLY STATED in the context below.
-2. When answering, you MUST quote or closely paraphrase Andrew's exact words.
-3. Start each answer with something like "In my [newsletter topic], I wrote..." or "I discussed this in my newsletter about [topic]..."
-4. If the question is about something NOT covered in the context (identity questions, personal questions, topics not mentioned), respond EXACTLY: "That's not something I've covered in the newsletters you're searching. Try asking about entrepreneurship, Tiny, ADHD, relationships, or my experiences with divorce, investing, or building companies."
-5. NEVER make up quotes, facts, experiences, or details.
-6. NEVER generate generic advice that sounds like Andrew but isn't from the context.
-7. The context contains excerpts from real newsletters - only use what's there.
-
-META QUESTIONS:
-- "Who are you?" → "I'm a search tool for Andrew Wilkinson's newsletter archive. I can help you find what Andrew has written about various topics. Try asking about his thoughts on business, investing, or life."
-- "What have you done in life?" → This requires the full newsletter archive. Ask specific questions like "What's your view on divorce?" or "How do you evaluate businesses?"
+  const relevant = retrieved.map(r => r.chunk);
+  const context = buildContext(relevant);
+  const sources = chatSources(relevant);
+  const results: RetrievalResult[] = retrieved.map(r => ({ chunkId: r.chunk.id, newsletterId: r.chunk.newsletterId, scores: r.scores }));
+  trace.setRetrieval(results);
+
+  // Aborted when the client disconnects or presses Stop
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort());
+
+  const chatRequest: ChatRequest = {
+    system: buildSystemPrompt(context, corpus),
+    messages: [...history, { role: 'user', content: query }],
+    maxTokens: 800,
+    signal: abort.signal,
+  };
+
+  let answer = '';
+  let failure: string | undefined;
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!abort.signal.aborted) controller.enqueue(encodeChatEvent(event));
+      };
+
+      try {
+        send({ type: 'query', searchQuery });
+        send({ type: 'sources', sources });
+        send({ type: 'retrieval', results });
+        const generateStart = Date.now();
+        for await (const delta of streamAnswer(chatRequest, trace)) {
+          if (abort.signal.aborted) break;
+          answer += delta;
+          send({ type: 'text', delta });
+        }
+        trace.addStage('generate', Date.now() - generateStart);
+        if (abort.signal.aborted) return;
+
+        // Check the finished answer against its chunks; with GROUNDING_ACTION=remove it may come back shorter
+        const grounding = await trace.stage('grounding', () => verifyGrounding(answer, relevant, {
+          corpus,
+          trace,
+          checker: getEntailmentChecker(),
+          remove: shouldRemoveUnsupported(),
+        }));
+        if (grounding?.revised) answer = grounding.revised;
+        if (grounding) {
+          trace.set('groundingScore', grounding.score);
+          send({ type: 'grounding', grounding });
+        }
 
-NEWSLETTER EXCERPTS TO SEARCH:
-${context}`;
+        // Markers are only linked once the whole answer can be checked against its chunks
+        const citations = extractCitations(answer, relevant);
+        send({ type: 'citations', citations });
+        send({ type: 'done' });
 
-  // PRIMARY: OpenRouter (reliable, auto-routes to best model)
-  if (process.env.OPENROUTER_API_KEY) {
-    try {
-      const res = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://ask-andrew.vercel.app',
-        },
-        body: JSON.stringify({
-          model: 'openrouter/auto', // Auto-routes to best available model
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: query }
-          ],
-          max_tokens: 800,
-        })
-      });
-      
-      const data = await res.json();
-      if (data.choices?.[0]?.message?.content) {
-        return data.choices[0].message.content;
+        // Stopped or failed answers aren't worth repeating
+        if (!abort.signal.aborted && answer !== UNAVAILABLE_MESSAGE) {
+          cache?.set(corpus.id, query, filters, queryEmbedding, indexVersion, { searchQuery, sources, retrieval: results, answer, grounding, citations });
+        }
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          failure = errorMessage(error);
+          send({ type: 'error', error: 'The answer was interrupted. Please try again.' });
+        }
+      } finally {
+        // A client that disconnects aborts the request but never cancels the stream, so end it here too
+        if (!cancelled) {
+          try {
+            controller.close();
+          } catch {
+            // Already errored by the runtime
+          }
+        }
+        const prompt = [chatRequest.system ?? '', ...chatRequest.messages.map(m => m.content)].join('');
+        trace.addTokens(estimateTokens(prompt), estimateTokens(answer));
+        await getBudgetGuard()?.record(trace.totalTokens);
+        const status = failure ? 'error' : abort.signal.aborted ? 'aborted' : 'ok';
+        logQuery(trace.finish(status, failure), { corpus, query, searchQuery, answer: status === 'ok' ? answer : undefined });
       }
-      console.log('OpenRouter response:', JSON.stringify(data).slice(0, 500));
-    } catch (e: any) {
-      console.error('OpenRouter failed:', e.message);
-    }
-  }
-
-  // FALLBACK: Direct Gemini
-  if (genAI) {
-    try {
-      // Use the latest stable model name
-      const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash-latest' });
-      const result = await model.generateContent(`${systemPrompt}\n\nQuestion: ${query}`);
-      return result.response.text();
-    } catch (e: any) {
-      console.error('Gemini direct failed:', e.message);
-    }
-  }
-
-  return "I'm currently unavailable. Please check API configuration.";
-}
-
-export async function POST(request: NextRequest) {
-  try {
-    const { query } = await request.json();
-    if (!query) return NextResponse.json({ error: 'Query required' }, { status: 400 });
-    
-    const relevant = await findRelevantChunks(query, 4);
-    const context = relevant.map(c => `[${c.title}]\n${c.text}`).join('\n\n---\n\n');
-    
-    const answer = await generateAnswer(query, context);
-    const sources = [...new Set(relevant.map(c => c.title))];
-    
-    return NextResponse.json({ answer, sources });
-  } catch (error: any) {
-    console.error('API Error:', error.message);
-    return NextResponse.json({ error: error.message }, { status: 500 });
-  }
+    },
+    cancel() {
+      cancelled = true;
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, { headers: { ...NDJSON_HEADERS, 'X-Trace-Id': trace.id } });
 }
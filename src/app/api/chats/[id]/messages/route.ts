@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-error';
+import { getChatSession, readChatBody } from '@/lib/chat-store';
+import { isChatId, parseMessages } from '@/lib/chats';
+
+// Add the latest question and answer to a saved chat
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { store, userId } = await getChatSession(false);
+    const body = await readChatBody(request);
+    const messages = parseMessages((body as { messages?: unknown } | null)?.messages);
+    if (!userId || !isChatId(id) || !(await store.append(userId, id, messages))) {
+      throw new ApiError('not_found', 404, 'Chat not found.');
+    }
+    return NextResponse.json({ id });
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error('Chats Error:', error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-error';
+import { getChatSession, limitChatWrites, readChatBody } from '@/lib/chat-store';
+import { isChatId, parseChat } from '@/lib/chats';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Replace a chat, e.g. after its filters change or an answer is rated
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    await limitChatWrites(request);
+    const { store, userId } = await getChatSession(true);
+    const chat = parseChat(await readChatBody(request));
+    if (chat.id !== id) throw new ApiError('invalid_request', 400, '`id` must match the chat being saved.');
+    await store.save(userId!, chat);
+    return NextResponse.json({ id });
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error('Chats Error:', error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const { store, userId } = await getChatSession(false);
+    if (!userId || !isChatId(id) || !(await store.delete(userId, id))) {
+      throw new ApiError('not_found', 404, 'Chat not found.');
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error('Chats Error:', error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
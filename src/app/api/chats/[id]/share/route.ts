@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-error';
+import { getChatSession } from '@/lib/chat-store';
+import { isChatId } from '@/lib/chats';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Publish a read-only snapshot of a saved chat at /c/<shareId>
+export async function POST(_request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const { store, userId } = await getChatSession(false);
+    const shareId = userId && isChatId(id) ? await store.share(userId, id) : null;
+    if (!shareId) throw new ApiError('not_found', 404, 'Chat not found.');
+    return NextResponse.json({ shareId, url: `/c/${shareId}` });
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error('Chats Error:', error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
+
+// Take the snapshot down; /c/<shareId> answers 404 from then on
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const { store, userId } = await getChatSession(false);
+    if (!userId || !isChatId(id) || !(await store.unshare(userId, id))) {
+      throw new ApiError('not_found', 404, 'Chat not found.');
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error('Chats Error:', error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
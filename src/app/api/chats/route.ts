@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-error';
+import { getChatSession, limitChatWrites, readChatBody } from '@/lib/chat-store';
+import { parseChat } from '@/lib/chats';
+
+export const dynamic = 'force-dynamic';
+
+// The caller's saved chats, newest first. 404 when the server store is off,
+// which tells the page to stay in local-only mode.
+export async function GET() {
+  try {
+    const { store, userId } = await getChatSession(false);
+    return NextResponse.json({ chats: userId ? await store.list(userId) : [] });
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error('Chats Error:', error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
+
+// Create a chat, or replace one with the same id
+export async function POST(request: NextRequest) {
+  try {
+    await limitChatWrites(request);
+    const { store, userId } = await getChatSession(true);
+    const chat = parseChat(await readChatBody(request));
+    await store.save(userId!, chat);
+    return NextResponse.json({ id: chat.id }, { status: 201 });
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error('Chats Error:', error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
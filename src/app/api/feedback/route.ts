@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-error';
+import { readJsonBody } from '@/lib/chat-request';
+import { corpusFromRequest } from '@/lib/corpus';
+import { getFeedbackStore, parseFeedback } from '@/lib/feedback';
+import { clientIp, getRateLimiter } from '@/lib/rate-limit';
+
+// Record a rating for an answer. Posting again with the returned id updates
+// the rating or adds a comment instead of creating a second entry.
+export async function POST(request: NextRequest) {
+  try {
+    const limit = await getRateLimiter()?.consume(`feedback:${clientIp(request)}`);
+    if (limit && !limit.allowed) {
+      throw new ApiError('rate_limited', 429, 'Too much feedback at once. Please wait a moment.', Math.ceil(limit.retryAfterMs / 1000));
+    }
+
+    const input = parseFeedback(await readJsonBody(request));
+    const corpus = corpusFromRequest(request);
+
+    const store = getFeedbackStore();
+    const now = new Date().toISOString();
+    const existing = input.id ? await store.get(input.id) : null;
+    if (input.id && !existing) throw new ApiError('not_found', 404, 'Feedback not found.');
+
+    const id = existing?.id ?? crypto.randomUUID();
+    await store.save({
+      id,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      rating: input.rating,
+      comment: input.comment ?? existing?.comment ?? null,
+      corpus: existing?.corpus ?? corpus.id,
+      query: existing?.query ?? input.query,
+      answer: existing?.answer ?? input.answer,
+      chunkIds: existing?.chunkIds ?? input.chunkIds,
+      traceId: existing?.traceId ?? input.traceId,
+    });
+    return NextResponse.json({ id });
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error('Feedback Error:', error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-error';
+import { requireApiKey } from '@/lib/api-keys';
+import { readJsonBody } from '@/lib/chat-request';
+import { corpusFromRequest } from '@/lib/corpus';
+import { handleMcpMessage } from '@/lib/mcp';
+
+// MCP over Streamable HTTP. Clients connect to /api/mcp (?corpus=<id> for
+// other corpora) with an API key as the bearer token.
+export async function POST(request: NextRequest) {
+  try {
+    const keyId = requireApiKey(request);
+    const corpus = corpusFromRequest(request);
+    const reply = await handleMcpMessage(await readJsonBody(request), { corpus, origin: request.nextUrl.origin, keyId });
+    return reply ? NextResponse.json(reply) : new Response(null, { status: 202 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// No server-sent event stream: every reply comes back on its POST
+export async function GET() {
+  return new Response(null, { status: 405, headers: { Allow: 'POST' } });
+}
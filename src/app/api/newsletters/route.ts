@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-error';
+import { corpusFromRequest, getNewsletters } from '@/lib/corpus';
+
+// Parsed once per server instance; ?corpus= picks the archive
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const newsletters = getNewsletters(corpusFromRequest(request)).map(({ id, title, date }) => ({ id, title, date }));
+    return NextResponse.json({ newsletters });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-error';
+import { limitApiKey, requireApiKey } from '@/lib/api-keys';
+import { estimateTokens, getBudgetGuard } from '@/lib/budget';
+import { readJsonBody } from '@/lib/chat-request';
+import { corpusFromRequest } from '@/lib/corpus';
+import { findRelevantChunks } from '@/lib/retrieval';
+import { parseSearchRequest, toSearchResults } from '@/lib/search-api';
+import { Trace } from '@/lib/trace';
+
+// Ranked chunks for a query, with their scores and where they came from; the
+// same retrieval /api/chat answers from, without generating anything
+export async function POST(request: NextRequest) {
+  try {
+    await limitApiKey(requireApiKey(request));
+    const corpus = corpusFromRequest(request);
+    const { query, limit, filters } = parseSearchRequest(await readJsonBody(request));
+    // Embedding the query (and reranking, if on) is paid for, so searches count against the daily budget
+    await getBudgetGuard()?.check();
+    const trace = new Trace('/api/search');
+    const retrieved = await findRelevantChunks(corpus, query, limit, filters, trace);
+    trace.addTokens(estimateTokens(query), 0);
+    await getBudgetGuard()?.record(trace.totalTokens);
+    return NextResponse.json({ corpus: corpus.id, query, results: toSearchResults(retrieved, corpus, request.nextUrl.origin) });
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error('Search Error:', error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-error';
+import { estimateTokens, getBudgetGuard } from '@/lib/budget';
+import { MAX_QUERY_CHARS, readJsonBody } from '@/lib/chat-request';
+import { buildTitlePrompt, cleanTitle } from '@/lib/conversation';
+import { corpusFromRequest } from '@/lib/corpus';
+import { getChatProviders } from '@/lib/providers';
+import { clientIp, getRateLimiter } from '@/lib/rate-limit';
+
+const MAX_ANSWER_CHARS = 20_000;
+
+// Suggest a short title for a new chat from its first question and answer.
+// Off unless CHAT_AUTO_TITLE=true; the page then keeps the truncated question.
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.CHAT_AUTO_TITLE?.trim() !== 'true') throw new ApiError('not_found', 404, 'Not found.');
+
+    const limit = await getRateLimiter()?.consume(`title:${clientIp(request)}`);
+    if (limit && !limit.allowed) {
+      throw new ApiError('rate_limited', 429, 'Too many requests. Please wait a moment.', Math.ceil(limit.retryAfterMs / 1000));
+    }
+
+    const { question, answer } = await readJsonBody(request);
+    if (typeof question !== 'string' || !question.trim() || question.length > MAX_QUERY_CHARS) {
+      throw new ApiError('invalid_request', 400, `\`question\` must be a string of at most ${MAX_QUERY_CHARS} characters.`);
+    }
+    if (typeof answer !== 'string' || answer.length > MAX_ANSWER_CHARS) {
+      throw new ApiError('invalid_request', 400, `\`answer\` must be a string of at most ${MAX_ANSWER_CHARS} characters.`);
+    }
+
+    const corpus = corpusFromRequest(request);
+    const budget = getBudgetGuard();
+    await budget?.check();
+
+    const prompt = buildTitlePrompt(question.trim(), answer, corpus.archive);
+    for (const provider of getChatProviders()) {
+      try {
+        const text = await provider.generate({ messages: [{ role: 'user', content: prompt }], maxTokens: 20, temperature: 0.3 });
+        await budget?.record(estimateTokens(prompt) + estimateTokens(text));
+        const title = cleanTitle(text);
+        if (title) return NextResponse.json({ title });
+      } catch (e) {
+        console.error(`Title generation failed with ${provider.id}:`, e instanceof Error ? e.message : e);
+      }
+    }
+    throw new ApiError('provider_unavailable', 503, 'Could not generate a title.');
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error('Title Error:', error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
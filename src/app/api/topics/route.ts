@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api-error';
+import { corpusFromRequest } from '@/lib/corpus';
+import { getIndexedChunks } from '@/lib/retrieval';
+import { getTaxonomy, summarizeTopics } from '@/lib/topics';
+
+// Counts come from the loaded index, so they change only when it is rebuilt
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const corpus = corpusFromRequest(request);
+    return NextResponse.json({ topics: summarizeTopics(getIndexedChunks(corpus), getTaxonomy(corpus), corpus.persona.shortName) });
+  } catch (error) {
+    if (!(error instanceof ApiError)) console.error('Topics Error:', error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
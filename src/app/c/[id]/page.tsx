@@ -0,0 +1,52 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Playfair_Display } from 'next/font/google';
+import SharedConversation from '@/components/SharedConversation';
+import ThemeSync from '@/components/ThemeSync';
+import { getChatStore } from '@/lib/chat-store';
+import { corpusOrDefault, toPublicCorpus } from '@/lib/corpus';
+
+const playfair = Playfair_Display({ subsets: ['latin'], weight: ['400', '600', '700'] });
+
+// Shared links are snapshots kept by the chat store, read on every request
+export const dynamic = 'force-dynamic';
+
+async function findShared(id: string) {
+  return (await getChatStore()?.getShared(id)) ?? null;
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ id: string }> }): Promise<Metadata> {
+  const shared = await findShared((await params).id);
+  return {
+    title: shared ? `${shared.title} | ${corpusOrDefault(shared.corpus).name}` : 'Conversation not found',
+    robots: { index: false },
+  };
+}
+
+export default async function SharedChatPage({ params }: { params: Promise<{ id: string }> }) {
+  const shared = await findShared((await params).id);
+  if (!shared) notFound();
+  const corpus = toPublicCorpus(corpusOrDefault(shared.corpus));
+
+  return (
+    <div className="min-h-screen bg-[var(--bg)] text-[var(--fg)]">
+      <ThemeSync />
+      <nav className="sticky top-0 z-30 glass-panel h-16 flex items-center justify-between px-4 md:px-8">
+        <Link href={corpus.homePath} className={`text-xl tracking-tight font-semibold ${playfair.className}`}>{corpus.name}</Link>
+        <Link href={corpus.homePath} className="text-sm opacity-60 hover:opacity-100 transition-opacity">
+          Ask your own question
+        </Link>
+      </nav>
+      <main className="max-w-3xl mx-auto w-full px-4 md:px-0 py-12 space-y-10 animate-warm-up">
+        <header className="space-y-3">
+          <p className="text-xs uppercase tracking-wider opacity-40">
+            Shared conversation · {new Date(shared.sharedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+          </p>
+          <h1 className={`${playfair.className} text-3xl md:text-4xl font-semibold leading-[1.15] tracking-tight`}>{shared.title}</h1>
+        </header>
+        <SharedConversation corpus={corpus} messages={shared.messages} />
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
+import { getDefaultCorpus } from "@/lib/corpus";
 import "./globals.css";
 
 const inter = Inter({ 
@@ -7,15 +8,19 @@ const inter = Inter({
   variable: "--font-inter"
 });
 
-export const metadata: Metadata = {
-  title: "Ask Andrew | Search Andrew Wilkinson's Wisdom",
-  description: "Semantic search across Andrew Wilkinson's newsletters. Ask anything about building companies, entrepreneurship, and life.",
-  openGraph: {
-    title: "Ask Andrew",
-    description: "Search Andrew Wilkinson's newsletters with AI",
-    type: "website",
-  },
-};
+// Pages for other corpora override these with their own branding
+export function generateMetadata(): Metadata {
+  const { name, branding } = getDefaultCorpus();
+  return {
+    title: branding.title,
+    description: branding.description,
+    openGraph: {
+      title: name,
+      description: branding.description,
+      type: "website",
+    },
+  };
+}
 
 export default function RootLayout({
   children,
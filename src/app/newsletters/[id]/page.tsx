@@ -0,0 +1,27 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import NewsletterArticle from '@/components/NewsletterArticle';
+import { getDefaultCorpus, getNewsletters, toPublicCorpus } from '@/lib/corpus';
+
+// Every issue is rendered at build time from the default corpus's sources
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getNewsletters(getDefaultCorpus()).map(nl => ({ id: nl.id }));
+}
+
+function findNewsletter(id: string) {
+  return getNewsletters(getDefaultCorpus()).find(nl => nl.id === id);
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ id: string }> }): Promise<Metadata> {
+  const newsletter = findNewsletter((await params).id);
+  return { title: newsletter ? `${newsletter.title} | ${getDefaultCorpus().name}` : 'Newsletter not found' };
+}
+
+export default async function NewsletterPage({ params }: { params: Promise<{ id: string }> }) {
+  const newsletter = findNewsletter((await params).id);
+  if (!newsletter) notFound();
+
+  return <NewsletterArticle corpus={toPublicCorpus(getDefaultCorpus())} newsletter={newsletter} />;
+}
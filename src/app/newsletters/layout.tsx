@@ -0,0 +1,10 @@
+import ArchiveLayout from '@/components/ArchiveLayout';
+import { getDefaultCorpus, toPublicCorpus } from '@/lib/corpus';
+
+export default function NewslettersLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <ArchiveLayout corpus={toPublicCorpus(getDefaultCorpus())}>{children}</ArchiveLayout>;
+}
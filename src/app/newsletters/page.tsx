@@ -0,0 +1,16 @@
+import type { Metadata } from 'next';
+import NewsletterList from '@/components/NewsletterList';
+import { getDefaultCorpus, getNewsletters, toPublicCorpus } from '@/lib/corpus';
+
+export function generateMetadata(): Metadata {
+  const corpus = getDefaultCorpus();
+  return {
+    title: `Newsletter Archive | ${corpus.name}`,
+    description: `Every issue of ${corpus.persona.name}'s newsletter, newest first.`,
+  };
+}
+
+export default function NewslettersPage() {
+  const corpus = getDefaultCorpus();
+  return <NewsletterList corpus={toPublicCorpus(corpus)} newsletters={getNewsletters(corpus)} />;
+}
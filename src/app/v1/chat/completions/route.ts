@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorMessage, rewriteQuery, streamAnswer } from '@/lib/answer';
+import { errorResponse, toApiError } from '@/lib/api-error';
+import { limitApiKey, requireApiKey } from '@/lib/api-keys';
+import { estimateTokens, getBudgetGuard } from '@/lib/budget';
+import { readJsonBody } from '@/lib/chat-request';
+import { completionChunk, completionResponse, encodeSse, parseCompletionRequest, type CompletionRequest } from '@/lib/openai-compat';
+import { buildContext, buildSystemPrompt } from '@/lib/prompts';
+import type { ChatRequest } from '@/lib/providers';
+import { logQuery, type AskedQuery } from '@/lib/query-log';
+import { DEFAULT_TOP_K, findRelevantChunks, type RetrievedChunk } from '@/lib/retrieval';
+import { toSearchResults } from '@/lib/search-api';
+import { Trace } from '@/lib/trace';
+
+// OpenAI-compatible chat completions over the same retrieval and providers as
+// /api/chat, streamed or not. Answers aren't cached or grounding-checked.
+export async function POST(request: NextRequest) {
+  const trace = new Trace('/v1/chat/completions');
+  let completion: CompletionRequest;
+  let searchQuery: string;
+  let retrieved: RetrievedChunk[];
+  let asked: AskedQuery | null = null;
+  try {
+    const keyId = requireApiKey(request);
+    trace.set('apiKey', keyId);
+    await limitApiKey(keyId);
+    completion = parseCompletionRequest(await readJsonBody(request));
+    const { corpus, query, history } = completion;
+    trace.set('corpus', corpus.id);
+    trace.set('historyLength', history.length);
+    asked = { corpus, query };
+
+    await getBudgetGuard()?.check();
+    searchQuery = await trace.stage('rewrite', () => rewriteQuery(corpus, query, history, trace));
+    trace.addTokens(estimateTokens(searchQuery), 0);
+    retrieved = await trace.stage('search', () => findRelevantChunks(corpus, searchQuery, DEFAULT_TOP_K, {}, trace));
+  } catch (error) {
+    const apiError = toApiError(error);
+    trace.set('errorCode', apiError.code);
+    const record = trace.finish('error', errorMessage(error));
+    if (asked) logQuery(record, asked);
+    return errorResponse(apiError);
+  }
+
+  const { corpus, query, history } = completion;
+  const relevant = retrieved.map(r => r.chunk);
+  trace.setRetrieval(retrieved.map(r => ({ chunkId: r.chunk.id, newsletterId: r.chunk.newsletterId, scores: r.scores })));
+  // Ranked as they are numbered in the prompt, so a [n] in the answer is sources[n - 1]
+  const sources = toSearchResults(retrieved, corpus, request.nextUrl.origin);
+  const id = `chatcmpl-${trace.id}`;
+
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort());
+  const chatRequest: ChatRequest = {
+    system: buildSystemPrompt(buildContext(relevant), corpus),
+    messages: [...history, { role: 'user', content: query }],
+    maxTokens: completion.maxTokens,
+    signal: abort.signal,
+  };
+  const promptTokens = estimateTokens([chatRequest.system ?? '', ...chatRequest.messages.map(m => m.content)].join(''));
+
+  let answer = '';
+  let failure: string | undefined;
+  const finish = async () => {
+    trace.addTokens(promptTokens, estimateTokens(answer));
+    await getBudgetGuard()?.record(trace.totalTokens);
+    const status = failure ? 'error' : abort.signal.aborted ? 'aborted' : 'ok';
+    logQuery(trace.finish(status, failure), { corpus, query, searchQuery, answer: status === 'ok' ? answer : undefined });
+  };
+
+  if (!completion.stream) {
+    try {
+      for await (const delta of streamAnswer(chatRequest, trace)) answer += delta;
+    } catch (error) {
+      failure = errorMessage(error);
+    }
+    await finish();
+    if (failure) return errorResponse(new Error(failure));
+    const completionTokens = estimateTokens(answer);
+    return NextResponse.json(
+      completionResponse(id, corpus.id, answer, { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }, sources),
+      { headers: { 'X-Trace-Id': trace.id } },
+    );
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: object | '[DONE]') => {
+        if (!abort.signal.aborted) controller.enqueue(encodeSse(data));
+      };
+
+      try {
+        send(completionChunk(id, corpus.id, { role: 'assistant' }, null, sources));
+        for await (const delta of streamAnswer(chatRequest, trace)) {
+          if (abort.signal.aborted) break;
+          answer += delta;
+          send(completionChunk(id, corpus.id, { content: delta }));
+        }
+        send(completionChunk(id, corpus.id, {}, 'stop'));
+        send('[DONE]');
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          failure = errorMessage(error);
+          send({ error: { code: 'internal_error', message: 'The answer was interrupted. Please try again.' } });
+        }
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+        await finish();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: { 'Content-Type': 'text/event-stream; charset=utf-8', 'Cache-Control': 'no-cache, no-transform', 'X-Trace-Id': trace.id },
+  });
+}
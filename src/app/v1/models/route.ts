@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-error';
+import { requireApiKey } from '@/lib/api-keys';
+import { listCorpora } from '@/lib/corpus';
+
+// Each corpus is a model for /v1/chat/completions, so clients can list what they can ask
+export async function GET(request: NextRequest) {
+  try {
+    requireApiKey(request);
+    return NextResponse.json({
+      object: 'list',
+      data: listCorpora().map(c => ({ id: c.id, object: 'model', created: 0, owned_by: c.name })),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
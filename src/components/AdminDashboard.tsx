@@ -0,0 +1,392 @@
+'use client';
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import ThemeSync from '@/components/ThemeSync';
+import type { Chunk } from '@/lib/chunking';
+import type { PublicCorpus } from '@/lib/corpus';
+import type { IndexHealth } from '@/lib/index-health';
+import { formatDate } from '@/lib/newsletters';
+import type { QueryLogEntry, QueryStats } from '@/lib/query-log';
+
+// Kept for the browser tab only, so closing it signs out
+const TOKEN_KEY = 'ask-andrew-admin-token';
+const PAGE_SIZE = 20;
+
+const tokenListeners = new Set<() => void>();
+
+function subscribeToken(listener: () => void) {
+  tokenListeners.add(listener);
+  return () => {
+    tokenListeners.delete(listener);
+  };
+}
+
+function saveToken(token: string | null) {
+  if (token) sessionStorage.setItem(TOKEN_KEY, token);
+  else sessionStorage.removeItem(TOKEN_KEY);
+  tokenListeners.forEach(listener => listener());
+}
+
+class Unauthorized extends Error {}
+
+interface ChunkPage {
+  total: number;
+  offset: number;
+  chunks: Chunk[];
+}
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+function Stat({ label, value, warn = false }: { label: string; value: React.ReactNode; warn?: boolean }) {
+  return (
+    <div className="p-4 border border-[var(--border)] rounded-xl">
+      <p className="text-xs uppercase tracking-wider opacity-40 mb-1">{label}</p>
+      <p className={`text-lg break-words ${warn ? 'text-red-500' : ''}`}>{value}</p>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-4">
+      <h2 className="text-sm uppercase tracking-wider opacity-60">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function QueryList({ entries, empty, detail }: { entries: QueryLogEntry[]; empty: string; detail: (e: QueryLogEntry) => string }) {
+  if (entries.length === 0) return <p className="text-sm opacity-40">{empty}</p>;
+  return (
+    <ul className="divide-y divide-[var(--border)] text-sm">
+      {entries.map(e => (
+        <li key={e.id} className="py-2 flex justify-between gap-4">
+          <span title={e.searchQuery ? `Searched as: ${e.searchQuery}` : undefined}>{e.query}</span>
+          <span className="opacity-40 shrink-0 tabular-nums">{detail(e)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Index health, query analytics and a chunk inspector for each corpus. The
+// admin token is entered here and sent to the /api/admin routes as a bearer
+// token; a rejected token signs out.
+export default function AdminDashboard({ corpora }: { corpora: PublicCorpus[] }) {
+  const token = useSyncExternalStore(subscribeToken, () => sessionStorage.getItem(TOKEN_KEY), () => null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [corpus, setCorpus] = useState(corpora.find(c => c.isDefault)?.id ?? corpora[0].id);
+  const [health, setHealth] = useState<IndexHealth | null>(null);
+  const [onlyGaps, setOnlyGaps] = useState(false);
+  const [days, setDays] = useState(30);
+  const [queries, setQueries] = useState<{ enabled: boolean; stats: QueryStats } | null>(null);
+  const [search, setSearch] = useState('');
+  const [chunkFilter, setChunkFilter] = useState<{ q: string; newsletter: string | null; offset: number }>({ q: '', newsletter: null, offset: 0 });
+  const [chunkPage, setChunkPage] = useState<ChunkPage | null>(null);
+
+  const signOut = useCallback((message: string | null = null) => {
+    saveToken(null);
+    setError(message);
+  }, []);
+
+  const adminFetch = useCallback(async <T,>(path: string, params: Record<string, string | number | null>): Promise<T> => {
+    const query = new URLSearchParams({ corpus });
+    for (const [key, value] of Object.entries(params)) if (value !== null && value !== '') query.set(key, String(value));
+    const res = await fetch(`/api/admin/${path}?${query}`, { headers: { Authorization: `Bearer ${token}` } });
+    if (res.status === 401) throw new Unauthorized();
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error ?? `Request failed (${res.status}).`);
+    return data;
+  }, [corpus, token]);
+
+  const handleError = useCallback((e: unknown) => {
+    if (e instanceof Unauthorized) signOut('That token was not accepted.');
+    else setError(e instanceof Error ? e.message : String(e));
+  }, [signOut]);
+
+  useEffect(() => {
+    if (!token) return;
+    adminFetch<{ health: IndexHealth }>('index', {}).then(data => setHealth(data.health)).catch(handleError);
+  }, [token, adminFetch, handleError]);
+
+  useEffect(() => {
+    if (!token) return;
+    adminFetch<{ enabled: boolean; stats: QueryStats }>('queries', { days }).then(setQueries).catch(handleError);
+  }, [token, days, adminFetch, handleError]);
+
+  useEffect(() => {
+    if (!token) return;
+    adminFetch<ChunkPage>('chunks', { ...chunkFilter, limit: PAGE_SIZE }).then(setChunkPage).catch(handleError);
+  }, [token, chunkFilter, adminFetch, handleError]);
+
+  const signIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tokenInput.trim()) return;
+    saveToken(tokenInput.trim());
+    setTokenInput('');
+    setError(null);
+  };
+
+  const switchCorpus = (id: string) => {
+    setCorpus(id);
+    setHealth(null);
+    setQueries(null);
+    setSearch('');
+    setChunkFilter({ q: '', newsletter: null, offset: 0 });
+  };
+
+  const inspect = (newsletter: string) => {
+    setSearch('');
+    setChunkFilter({ q: '', newsletter, offset: 0 });
+    document.getElementById('chunks')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-[var(--bg)] text-[var(--fg)] flex items-center justify-center px-4">
+        <ThemeSync />
+        <form onSubmit={signIn} className="w-full max-w-sm space-y-4">
+          <h1 className="text-2xl font-semibold tracking-tight">Admin</h1>
+          <input
+            type="password"
+            value={tokenInput}
+            onChange={e => setTokenInput(e.target.value)}
+            placeholder="Admin token"
+            autoFocus
+            className="w-full px-4 py-3 rounded-xl border border-[var(--border)] bg-transparent focus:outline-none"
+          />
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <button type="submit" className="w-full py-3 rounded-xl bg-[var(--fg)] text-[var(--bg)] font-medium">Sign in</button>
+        </form>
+      </div>
+    );
+  }
+
+  const manifest = health?.manifest;
+  const gaps = health?.newsletters.filter(n => n.indexed === 0 || n.indexed !== n.expected) ?? [];
+  const empty = health?.newsletters.filter(n => n.indexed === 0).length ?? 0;
+  const stats = queries?.stats;
+
+  return (
+    <div className="min-h-screen bg-[var(--bg)] text-[var(--fg)]">
+      <ThemeSync />
+      <nav className="sticky top-0 z-30 glass-panel h-16 flex items-center justify-between gap-4 px-4 md:px-8">
+        <h1 className="text-xl tracking-tight font-semibold">Admin</h1>
+        <div className="flex items-center gap-4">
+          {corpora.length > 1 && (
+            <select
+              value={corpus}
+              onChange={e => switchCorpus(e.target.value)}
+              className="bg-transparent border border-[var(--border)] rounded-lg px-2 py-1 text-sm"
+            >
+              {corpora.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          )}
+          <button onClick={() => signOut()} className="text-sm opacity-60 hover:opacity-100 transition-opacity">Sign out</button>
+        </div>
+      </nav>
+
+      <main className="max-w-5xl mx-auto w-full px-4 md:px-8 py-10 space-y-12">
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <Section title="Index">
+          {!health ? (
+            <p className="text-sm opacity-40">Loading…</p>
+          ) : (
+            <>
+              {health.error && <p className="text-sm text-red-500">{health.error}</p>}
+              {health.sourceError && <p className="text-sm text-red-500">Sources can&apos;t be read: {health.sourceError}</p>}
+              {health.stale.length > 0 && (
+                <ul className="text-sm text-amber-600 list-disc pl-5">
+                  {health.stale.map(reason => <li key={reason}>{reason} Re-run <code>npm run ingest</code>.</li>)}
+                </ul>
+              )}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Stat label="Chunks" value={health.chunkCount} />
+                <Stat label="Newsletters without chunks" value={empty} warn={empty > 0} />
+                <Stat label="Not indexed" value={health.missing} warn={health.missing > 0} />
+                <Stat label="No longer in sources" value={health.orphaned} warn={health.orphaned > 0} />
+                <Stat label="Embedding model" value={manifest?.embeddingModel ?? '—'} />
+                <Stat label="Built" value={manifest ? new Date(manifest.builtAt).toLocaleString() : '—'} />
+                <Stat
+                  label="Vectors"
+                  value={manifest ? `${manifest.dimensions}d ${manifest.vectorEncoding}${manifest.ivfLists ? `, IVF ${manifest.ivfLists}` : ''}` : '—'}
+                />
+                <Stat label="Untagged chunks" value={`${health.untagged}${manifest ? ` (${manifest.topicClassifier})` : ''}`} />
+              </div>
+
+              <div className="flex items-center justify-between text-sm">
+                <p className="opacity-60">{health.newsletters.length} newsletters</p>
+                <label className="flex items-center gap-2 opacity-60">
+                  <input type="checkbox" checked={onlyGaps} onChange={e => setOnlyGaps(e.target.checked)} />
+                  Only show gaps ({gaps.length})
+                </label>
+              </div>
+              <div className="max-h-96 overflow-y-auto border border-[var(--border)] rounded-xl">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-[var(--bg)]">
+                    <tr className="text-left text-xs uppercase tracking-wider opacity-40">
+                      <th className="p-3 font-normal">Date</th>
+                      <th className="p-3 font-normal">Newsletter</th>
+                      <th className="p-3 font-normal text-right">Indexed</th>
+                      <th className="p-3 font-normal text-right">Expected</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[var(--border)]">
+                    {(onlyGaps ? gaps : health.newsletters).map(n => (
+                      <tr key={n.id} className={n.indexed === 0 || n.indexed !== n.expected ? 'text-red-500' : ''}>
+                        <td className="p-3 whitespace-nowrap opacity-60">{formatDate(n.date)}</td>
+                        <td className="p-3">
+                          <button onClick={() => inspect(n.id)} className="text-left hover:underline" title={n.file ?? 'Only in the index'}>
+                            {n.title}
+                          </button>
+                        </td>
+                        <td className="p-3 text-right tabular-nums">{n.indexed}</td>
+                        <td className="p-3 text-right tabular-nums">{n.expected}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </Section>
+
+        <Section title="Queries">
+          <div className="flex items-center justify-between text-sm">
+            <p className="opacity-60">
+              {queries && !queries.enabled ? 'The query log is off (QUERY_LOG=off).' : `${stats?.total ?? 0} questions, ${stats?.answered ?? 0} answered`}
+            </p>
+            <select value={days} onChange={e => setDays(Number(e.target.value))} className="bg-transparent border border-[var(--border)] rounded-lg px-2 py-1">
+              {[1, 7, 30, 90, 365].map(d => <option key={d} value={d}>Last {d === 1 ? 'day' : `${d} days`}</option>)}
+            </select>
+          </div>
+          {stats && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Stat label="Refusal rate" value={percent(stats.refusalRate)} />
+                <Stat label="Error rate" value={percent(stats.errorRate)} warn={stats.errorRate > 0.05} />
+                <Stat label="Cache hits" value={percent(stats.cacheHitRate)} />
+                <Stat label="Latency p50 / p95" value={`${seconds(stats.latencyMs.p50)} / ${seconds(stats.latencyMs.p95)}`} />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <div className="space-y-2">
+                  <h3 className="font-medium">Top questions</h3>
+                  {stats.topQueries.length === 0 ? (
+                    <p className="text-sm opacity-40">No questions yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-[var(--border)] text-sm">
+                      {stats.topQueries.map(q => (
+                        <li key={q.query} className="py-2 flex justify-between gap-4">
+                          <span>{q.query}</span>
+                          <span className="opacity-40 shrink-0 tabular-nums">
+                            {q.count}×{q.refusals > 0 ? `, ${q.refusals} refused` : ''}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <h3 className="font-medium">Recently refused</h3>
+                  <QueryList entries={stats.refused} empty="Nothing refused." detail={e => new Date(e.at).toLocaleDateString()} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-medium">Slowest requests</h3>
+                <p className="text-xs opacity-40">
+                  Answers that were generated rather than cached, by total time; first token p50 / p95 is{' '}
+                  {seconds(stats.firstTokenMs.p50)} / {seconds(stats.firstTokenMs.p95)}.
+                </p>
+                <QueryList
+                  entries={stats.slowest}
+                  empty="No generated answers yet."
+                  detail={e => `${seconds(e.durationMs)}${e.firstTokenMs !== null ? ` (first token ${seconds(e.firstTokenMs)})` : ''} · ${e.provider ?? 'no provider'}`}
+                />
+              </div>
+            </>
+          )}
+        </Section>
+
+        <div id="chunks" className="scroll-mt-20">
+          <Section title="Chunks">
+            <form
+              onSubmit={e => {
+                e.preventDefault();
+                setChunkFilter(f => ({ ...f, q: search.trim(), offset: 0 }));
+              }}
+              className="flex gap-2"
+            >
+              <input
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="Search chunk text, titles or an id"
+                className="flex-1 px-4 py-2 rounded-xl border border-[var(--border)] bg-transparent focus:outline-none text-sm"
+              />
+              <button type="submit" className="px-4 py-2 rounded-xl bg-[var(--fg)] text-[var(--bg)] text-sm">Search</button>
+            </form>
+            {chunkFilter.newsletter && (
+              <button
+                onClick={() => setChunkFilter(f => ({ ...f, newsletter: null, offset: 0 }))}
+                className="text-xs px-3 py-1.5 rounded-full border border-[var(--border)] hover:bg-[var(--border)]"
+              >
+                {health?.newsletters.find(n => n.id === chunkFilter.newsletter)?.title ?? chunkFilter.newsletter} ✕
+              </button>
+            )}
+
+            {chunkPage && (
+              <>
+                <p className="text-sm opacity-60">
+                  {chunkPage.total === 0
+                    ? 'No matching chunks.'
+                    : `${chunkPage.offset + 1}–${chunkPage.offset + chunkPage.chunks.length} of ${chunkPage.total}`}
+                </p>
+                <ul className="space-y-3">
+                  {chunkPage.chunks.map(c => (
+                    <li key={c.id} className="p-4 border border-[var(--border)] rounded-xl space-y-2 text-sm">
+                      <div className="flex flex-wrap items-baseline justify-between gap-2">
+                        <p className="font-medium">
+                          {c.newsletterTitle}
+                          {c.title !== c.newsletterTitle && <span className="opacity-60"> · {c.title}</span>}
+                        </p>
+                        <code className="text-xs opacity-40">{c.id}</code>
+                      </div>
+                      <p className="opacity-80 leading-relaxed whitespace-pre-wrap">{c.text}</p>
+                      <p className="text-xs opacity-40">
+                        {formatDate(c.date)} · §{c.sectionId}
+                        {c.topics.length > 0 && ` · ${c.topics.join(', ')}`}
+                        {c.source && ` · ${c.source.file}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+                {chunkPage.total > PAGE_SIZE && (
+                  <div className="flex gap-4 text-sm">
+                    <button
+                      disabled={chunkPage.offset === 0}
+                      onClick={() => setChunkFilter(f => ({ ...f, offset: Math.max(0, f.offset - PAGE_SIZE) }))}
+                      className="opacity-60 hover:opacity-100 disabled:opacity-20"
+                    >
+                      ← Previous
+                    </button>
+                    <button
+                      disabled={chunkPage.offset + PAGE_SIZE >= chunkPage.total}
+                      onClick={() => setChunkFilter(f => ({ ...f, offset: f.offset + PAGE_SIZE }))}
+                      className="opacity-60 hover:opacity-100 disabled:opacity-20"
+                    >
+                      Next →
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </Section>
+        </div>
+      </main>
+    </div>
+  );
+}
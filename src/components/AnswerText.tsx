@@ -0,0 +1,159 @@
+import { Fragment, useMemo, type ReactNode } from 'react';
+import CopyButton from '@/components/CopyButton';
+import { findAnswerQuotes, type AnswerQuote, type Citation } from '@/lib/citations';
+import { blockText, parseMarkdown, type Block, type Inline } from '@/lib/markdown';
+import { formatDate } from '@/lib/newsletters';
+
+interface AnswerTextProps {
+  content: string;
+  citations?: Citation[];
+  // Sentences the grounding check couldn't find in the newsletters
+  unsupported?: { start: number; end: number }[];
+  onCite: (citation: Citation) => void;
+}
+
+interface Piece {
+  text: string;
+  unsupported: boolean;
+  quote: AnswerQuote | null;
+  quoteEnds: boolean; // the last piece of its quote, where the copy button goes
+}
+
+// Split a text node at the edges of unsupported sentences and quotes. Offsets
+// are into the raw answer, so markup between pieces doesn't matter.
+function pieces(text: string, start: number, unsupported: { start: number; end: number }[], quotes: AnswerQuote[]): Piece[] {
+  const end = start + text.length;
+  const cuts = new Set([start, end]);
+  for (const r of [...unsupported, ...quotes]) {
+    if (r.start > start && r.start < end) cuts.add(r.start);
+    if (r.end > start && r.end < end) cuts.add(r.end);
+  }
+  const points = [...cuts].sort((a, b) => a - b);
+  return points.slice(0, -1).map((from, i) => {
+    const to = points[i + 1];
+    const quote = quotes.find(q => q.start <= from && q.end >= to) ?? null;
+    return {
+      text: text.slice(from - start, to - start),
+      unsupported: unsupported.some(u => u.start <= from && u.end >= to),
+      quote,
+      quoteEnds: !!quote && quote.end === to,
+    };
+  });
+}
+
+function quoteAttribution(quote: AnswerQuote): string {
+  const c = quote.citation;
+  return c ? `“${quote.text}” — ${c.title}, ${formatDate(c.date)}` : `“${quote.text}”`;
+}
+
+// The answer rendered as Markdown. Everything becomes React elements, so HTML
+// in an answer is shown as text and links are limited to safe URLs. [n] markers
+// link to their verified citation, direct quotes are set apart from paraphrase,
+// and sentences the grounding check couldn't support are underlined.
+export default function AnswerText({ content, citations = [], unsupported = [], onCite }: AnswerTextProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  const quotes = useMemo(() => findAnswerQuotes(content, citations), [content, citations]);
+
+  const renderMarker = (marker: number, key: string) => {
+    const citation = citations.find(c => c.marker === marker);
+    // Unverified markers stay visible but aren't presented as evidence
+    if (!citation) return <span key={key} className="opacity-30">[{marker}]</span>;
+
+    return (
+      <button
+        key={key}
+        onClick={() => onCite(citation)}
+        title={citation.title}
+        className="align-super text-[0.7em] font-medium px-1 mx-0.5 rounded bg-[var(--border)] hover:bg-[var(--fg)] hover:text-[var(--bg)] transition-colors not-prose"
+      >
+        {citation.marker}
+      </button>
+    );
+  };
+
+  const renderText = (text: string, start: number, key: string) =>
+    pieces(text, start, unsupported, quotes).map((piece, i) => {
+      let node: ReactNode = piece.text;
+      if (piece.quote) {
+        node = (
+          <span
+            className={`font-serif italic ${piece.quote.citation ? 'bg-[var(--border)] rounded-sm px-0.5' : ''}`}
+            title={piece.quote.citation ? `Quoted from ${piece.quote.citation.title}` : 'Quote not found in the cited newsletter'}
+          >
+            {node}
+          </span>
+        );
+      }
+      if (piece.unsupported) {
+        node = (
+          <span title="Couldn't find this in the newsletters" className="underline decoration-dotted decoration-red-400 underline-offset-4">
+            {node}
+          </span>
+        );
+      }
+      return (
+        <Fragment key={`${key}-${i}`}>
+          {node}
+          {piece.quoteEnds && piece.quote?.citation && (
+            <CopyButton text={quoteAttribution(piece.quote)} label="Copy quote" className="align-middle opacity-30 hover:opacity-100 mx-0.5" />
+          )}
+        </Fragment>
+      );
+    });
+
+  const renderInline = (nodes: Inline[], key: string): ReactNode[] =>
+    nodes.map((n, i) => {
+      const k = `${key}-${i}`;
+      switch (n.type) {
+        case 'text':
+          return <Fragment key={k}>{renderText(n.text, n.start, k)}</Fragment>;
+        case 'code':
+          return <code key={k}>{n.text}</code>;
+        case 'strong':
+          return <strong key={k}>{renderInline(n.children, k)}</strong>;
+        case 'em':
+          return <em key={k}>{renderInline(n.children, k)}</em>;
+        case 'link':
+          return (
+            <a key={k} href={n.href} target={n.href.startsWith('/') || n.href.startsWith('#') ? undefined : '_blank'} rel="noopener noreferrer nofollow">
+              {renderInline(n.children, k)}
+            </a>
+          );
+        case 'marker':
+          return renderMarker(n.marker, k);
+        case 'break':
+          return <br key={k} />;
+      }
+    });
+
+  const renderBlocks = (list: Block[], key: string): ReactNode[] =>
+    list.map((b, i) => {
+      const k = `${key}-${i}`;
+      switch (b.type) {
+        case 'paragraph':
+          return <p key={k}>{renderInline(b.children, k)}</p>;
+        case 'heading':
+          // Answers sit under the question, so their headings stay small
+          return b.level <= 2 ? <h3 key={k}>{renderInline(b.children, k)}</h3> : <h4 key={k}>{renderInline(b.children, k)}</h4>;
+        case 'list':
+          return b.ordered ? (
+            <ol key={k} start={b.start}>{b.items.map((item, j) => <li key={j}>{renderBlocks(item, `${k}-${j}`)}</li>)}</ol>
+          ) : (
+            <ul key={k}>{b.items.map((item, j) => <li key={j}>{renderBlocks(item, `${k}-${j}`)}</li>)}</ul>
+          );
+        case 'blockquote':
+          return (
+            <blockquote key={k} className="relative group/quote font-serif pr-8">
+              {renderBlocks(b.children, k)}
+              <CopyButton text={blockText(b.children)} label="Copy quote" className="absolute top-0 right-0 opacity-0 group-hover/quote:opacity-50 hover:!opacity-100 not-italic" />
+            </blockquote>
+          );
+        case 'code':
+          return <pre key={k}><code>{b.text}</code></pre>;
+        case 'rule':
+          return <hr key={k} />;
+      }
+    });
+
+  return <div className="prose answer-prose max-w-none leading-relaxed">{renderBlocks(blocks, 'b')}</div>;
+}
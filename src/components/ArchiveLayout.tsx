@@ -0,0 +1,24 @@
+import Link from 'next/link';
+import { Playfair_Display } from 'next/font/google';
+import ThemeSync from '@/components/ThemeSync';
+import type { PublicCorpus } from '@/lib/corpus';
+
+const playfair = Playfair_Display({ subsets: ['latin'], weight: ['400', '600', '700'] });
+
+// The newsletter reader's frame, shared by every corpus's archive
+export default function ArchiveLayout({ corpus, children }: { corpus: PublicCorpus; children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-[var(--bg)] text-[var(--fg)]">
+      <ThemeSync />
+      <nav className="sticky top-0 z-30 glass-panel h-16 flex items-center justify-between px-4 md:px-8">
+        <Link href={corpus.homePath} className={`text-xl tracking-tight font-semibold ${playfair.className}`}>{corpus.name}</Link>
+        <Link href={corpus.archivePath} className="text-sm opacity-60 hover:opacity-100 transition-opacity">
+          Archive
+        </Link>
+      </nav>
+      <main className="max-w-3xl mx-auto w-full px-4 md:px-0 py-12">
+        {children}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,757 @@
+'use client';
+
+import { Fragment, useState, useRef, useEffect, useMemo } from 'react';
+import { Playfair_Display, Inter } from 'next/font/google';
+import AnswerText from '@/components/AnswerText';
+import ChatMenu, { downloadFile } from '@/components/ChatMenu';
+import CitationPanel from '@/components/CitationPanel';
+import CopyButton from '@/components/CopyButton';
+import FeedbackButtons from '@/components/FeedbackButtons';
+import FilterBar from '@/components/FilterBar';
+import GroundingNote from '@/components/GroundingNote';
+import PersonaAvatar from '@/components/PersonaAvatar';
+import SourceList from '@/components/SourceList';
+import TopicExplorer from '@/components/TopicExplorer';
+import Link from 'next/link';
+import { readChatStream, readErrorMessage } from '@/lib/chat-stream';
+import { exportFilename, mergeChats, parseChatExport, toJson } from '@/lib/chat-export';
+import { chatFolders, groupChats, searchChats } from '@/lib/chat-organize';
+import { InvalidChatError, MAX_TITLE_CHARS, migrateChat, newId, STORAGE_KEY, type Chat, type ChatMessage as Message, type MessageFeedback } from '@/lib/chats';
+import {
+  deleteServerChat,
+  fetchServerChats,
+  migrateLocalChats,
+  pushServerMessages,
+  saveServerChat,
+  shareChat,
+  SYNCED_KEY,
+  unshareChat,
+} from '@/lib/chat-sync';
+import type { Citation } from '@/lib/citations';
+import type { PublicCorpus } from '@/lib/corpus';
+import type { SearchFilters } from '@/lib/filters';
+
+const playfair = Playfair_Display({ subsets: ['latin'], weight: ['400', '600', '700'] });
+const inter = Inter({ subsets: ['latin'], weight: ['400', '500'] });
+
+// A short title from the model, when the server has CHAT_AUTO_TITLE on
+async function suggestTitle(corpus: string, question: string, answer: string): Promise<string | null> {
+  try {
+    const res = await fetch(`/api/title?corpus=${corpus}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question, answer }),
+    });
+    return res.ok ? (await res.json()).title : null;
+  } catch {
+    return null;
+  }
+}
+
+// Chats saved before there were several corpora belong to the default one
+function inCorpus(chat: Chat, corpus: PublicCorpus): boolean {
+  return chat.corpus ? chat.corpus === corpus.id : corpus.isDefault;
+}
+
+export default function ChatApp({ corpus }: { corpus: PublicCorpus }) {
+  const [query, setQuery] = useState('');
+  const [currentChat, setCurrentChat] = useState<Chat | null>(null);
+  const [chats, setChats] = useState<Chat[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [theme, setTheme] = useState<'light' | 'dark'>('dark');
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null);
+  const [filters, setFilters] = useState<SearchFilters>({});
+  // null until we know whether the server keeps chats; false means local-only
+  const [serverSync, setServerSync] = useState<boolean | null>(null);
+  const [syncFailed, setSyncFailed] = useState(false);
+  const [shareState, setShareState] = useState<'idle' | 'sharing' | 'copied' | 'failed'>('idle');
+  const [importNote, setImportNote] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+  const [chatSearch, setChatSearch] = useState('');
+  const [folderFilter, setFolderFilter] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Theme effect
+  useEffect(() => {
+    const savedTheme = localStorage.getItem('ask-andrew-theme') as 'light' | 'dark' | null;
+    if (savedTheme) {
+      setTheme(savedTheme);
+      document.documentElement.setAttribute('data-theme', savedTheme);
+    } else if (window.matchMedia('(prefers-color-scheme: dark)').matches) {
+      setTheme('dark');
+      document.documentElement.setAttribute('data-theme', 'dark');
+    }
+  }, []);
+
+  const toggleTheme = () => {
+    const newTheme = theme === 'light' ? 'dark' : 'light';
+    setTheme(newTheme);
+    localStorage.setItem('ask-andrew-theme', newTheme);
+    document.documentElement.setAttribute('data-theme', newTheme);
+  };
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Load chats from localStorage on mount, then from the server when it keeps them
+  useEffect(() => {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const local = saved ? (JSON.parse(saved) as Chat[]).map(migrateChat) : [];
+    const show = (list: Chat[]) => {
+      setChats(list);
+      // Load most recent chat if exists
+      const latest = list.find(c => inCorpus(c, corpus));
+      if (latest) {
+        setCurrentChat(latest);
+        setFilters(latest.filters ?? {});
+      }
+    };
+    show(local);
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const server = await fetchServerChats();
+        if (cancelled) return;
+        if (!server) {
+          setServerSync(false);
+          return;
+        }
+        // First sync from this browser uploads what was saved locally
+        const merged = localStorage.getItem(SYNCED_KEY) ? server : await migrateLocalChats(local, server);
+        localStorage.setItem(SYNCED_KEY, '1');
+        if (cancelled) return;
+        setServerSync(true);
+        show(merged.map(migrateChat));
+      } catch {
+        if (!cancelled) {
+          setServerSync(false);
+          setSyncFailed(true);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [corpus]);
+
+  // Server writes are best-effort; localStorage still has everything
+  const sync = (write: () => Promise<void>) => {
+    if (!serverSync) return;
+    write().then(() => setSyncFailed(false), () => setSyncFailed(true));
+  };
+
+  // Save chats to localStorage
+  useEffect(() => {
+    if (chats.length > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(chats));
+    }
+  }, [chats]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [currentChat?.messages, loading]);
+
+  const startNewChat = () => {
+    setSidebarOpen(false);
+    setCurrentChat(null);
+    setActiveCitation(null);
+    setFilters({});
+    setShareState('idle');
+  };
+
+  const selectChat = (chat: Chat) => {
+    setCurrentChat(chat);
+    setSidebarOpen(false);
+    setActiveCitation(null);
+    setFilters(chat.filters ?? {});
+    setShareState('idle');
+  };
+
+  // Filters belong to the chat, so switching chats brings its filters back
+  const updateFilters = (next: SearchFilters) => {
+    setFilters(next);
+    if (currentChat) {
+      const updated = { ...currentChat, filters: next };
+      setCurrentChat(updated);
+      setChats(prev => prev.map(c => c.id === updated.id ? updated : c));
+      if (chats.some(c => c.id === updated.id)) sync(() => saveServerChat(updated));
+    }
+  };
+
+  const updateFeedback = (messageId: string, feedback: MessageFeedback) => {
+    if (!currentChat) return;
+    const updated = {
+      ...currentChat,
+      messages: currentChat.messages.map(m => m.id === messageId ? { ...m, feedback } : m),
+    };
+    setCurrentChat(updated);
+    setChats(prev => prev.map(c => c.id === updated.id ? updated : c));
+    sync(() => saveServerChat(updated));
+  };
+
+  // Sidebar edits: title, pin and folder
+  const updateChat = (chatId: string, update: Partial<Chat>) => {
+    const chat = chats.find(c => c.id === chatId);
+    if (!chat) return;
+    const updated = { ...chat, ...update };
+    setChats(prev => prev.map(c => c.id === chatId ? updated : c));
+    // The open chat may have an answer streaming in, so only the edited fields are copied
+    setCurrentChat(prev => prev?.id === chatId ? { ...prev, ...update } : prev);
+    sync(() => saveServerChat(updated));
+  };
+
+  const finishRename = (chat: Chat, value: string) => {
+    const title = value.trim().slice(0, MAX_TITLE_CHARS);
+    if (title && title !== chat.title) updateChat(chat.id, { title });
+    setRenamingId(null);
+  };
+
+  const deleteChat = (chatId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setChats(prev => prev.filter(c => c.id !== chatId));
+    sync(() => deleteServerChat(chatId));
+    if (currentChat?.id === chatId) {
+      setCurrentChat(null);
+    }
+  };
+
+  // Copy a read-only link to the current chat, as it is now
+  const share = async () => {
+    if (!currentChat) return;
+    setShareState('sharing');
+    try {
+      const { shareId, url } = await shareChat(currentChat.id);
+      await navigator.clipboard.writeText(new URL(url, window.location.origin).toString());
+      const updated = { ...currentChat, shareId };
+      setCurrentChat(updated);
+      setChats(prev => prev.map(c => c.id === updated.id ? updated : c));
+      setShareState('copied');
+    } catch {
+      setShareState('failed');
+    }
+    setTimeout(() => setShareState('idle'), 2000);
+  };
+
+  // Take the read-only link down; sharing again issues a new one
+  const unshare = async () => {
+    if (!currentChat?.shareId) return;
+    setShareState('sharing');
+    try {
+      await unshareChat(currentChat.id);
+      const updated = { ...currentChat, shareId: undefined };
+      setCurrentChat(updated);
+      setChats(prev => prev.map(c => c.id === updated.id ? updated : c));
+      setShareState('idle');
+    } catch {
+      setShareState('failed');
+      setTimeout(() => setShareState('idle'), 2000);
+    }
+  };
+
+  // Merge chats from an exported JSON file; ids already in use get new ones
+  const importChats = async (file: File) => {
+    try {
+      const { chats: merged, added, skipped } = mergeChats(chats, parseChatExport(await file.text()));
+      setChats(merged);
+      for (const chat of added) sync(() => saveServerChat(chat));
+      setImportNote(`Imported ${added.length} ${added.length === 1 ? 'chat' : 'chats'}${skipped ? `, ${skipped} already here` : ''}`);
+    } catch (e) {
+      setImportNote(e instanceof InvalidChatError ? `Import failed: ${e.message}` : 'Import failed');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim() || loading) return;
+
+    const userQ = query.trim();
+    setQuery('');
+    setLoading(true);
+
+    const userMessage: Message = { role: 'user', content: userQ, id: newId() };
+    // Earlier turns let the server resolve follow-ups; failed answers are left out
+    const history = (currentChat?.messages || [])
+      .filter(m => !m.error)
+      .map(({ role, content }) => ({ role, content }));
+    
+    // Create new chat or update existing
+    const isNew = !currentChat;
+    const previousCount = currentChat?.messages.length ?? 0;
+    let chat = currentChat;
+    if (!chat) {
+      chat = {
+        id: newId(),
+        title: userQ.slice(0, 50) + (userQ.length > 50 ? '...' : ''),
+        messages: [],
+        createdAt: Date.now(),
+        corpus: corpus.id,
+      };
+    }
+    
+    chat = { ...chat, messages: [...chat.messages, userMessage], filters, updatedAt: Date.now() };
+    setCurrentChat(chat);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const base = chat;
+    const assistantMessage: Message = { role: 'assistant', content: '', id: newId() };
+    const render = (update: Partial<Message>) => {
+      Object.assign(assistantMessage, update);
+      chat = { ...base, messages: [...base.messages, { ...assistantMessage }] };
+      setCurrentChat(chat);
+    };
+
+    let failure: string | undefined;
+    try {
+      const res = await fetch(`/api/chat?corpus=${corpus.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: userQ, history, filters }),
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) {
+        // Rate limits, over-long questions etc. come back with a message worth showing
+        failure = (await readErrorMessage(res)) ?? undefined;
+        throw new Error(`Request failed: ${res.status}`);
+      }
+
+      render({ traceId: res.headers.get('X-Trace-Id') ?? undefined });
+      for await (const event of readChatStream(res.body)) {
+        if (event.type === 'query') {
+          render({ searchQuery: event.searchQuery });
+        } else if (event.type === 'sources') {
+          render({ sources: event.sources });
+        } else if (event.type === 'retrieval') {
+          render({ chunkIds: event.results.map(r => r.chunkId) });
+        } else if (event.type === 'text') {
+          render({ content: assistantMessage.content + event.delta });
+        } else if (event.type === 'grounding') {
+          render({ grounding: event.grounding, ...(event.grounding.revised ? { content: event.grounding.revised } : {}) });
+        } else if (event.type === 'citations') {
+          render({ citations: event.citations });
+        } else if (event.type === 'error') {
+          render({ content: assistantMessage.content ? `${assistantMessage.content}\n\n${event.error}` : event.error });
+        }
+      }
+    } catch {
+      if (!controller.signal.aborted) {
+        const errorMessage: Message = { role: 'assistant', content: failure ?? `Something went wrong. ${corpus.persona.shortName} is offline.`, id: newId(), error: true };
+        chat = { ...base, messages: [...base.messages, errorMessage] };
+        setCurrentChat(chat);
+      } else if (!assistantMessage.content) {
+        render({ content: 'Stopped.' });
+      }
+    } finally {
+      abortRef.current = null;
+      setLoading(false);
+    }
+
+    // Update chats list (keeps partial answers when stopped, and sidebar edits made meanwhile)
+    setChats(prev => {
+      const existing = prev.find(c => c.id === chat!.id);
+      if (existing) {
+        return prev.map(c => c.id === chat!.id ? { ...chat!, title: c.title, pinned: c.pinned, folder: c.folder } : c);
+      }
+      return [chat!, ...prev];
+    });
+    const finished = chat;
+    sync(() => isNew ? saveServerChat(finished) : pushServerMessages(finished, finished.messages.slice(previousCount)));
+
+    // New chats can get a better title than the truncated question once answered
+    const answer = finished.messages[finished.messages.length - 1];
+    if (isNew && answer.role === 'assistant' && !answer.error && answer.content) {
+      const title = await suggestTitle(corpus.id, userQ, answer.content);
+      if (title) {
+        const placeholder = finished.title;
+        setChats(prev => prev.map(c => c.id === finished.id && c.title === placeholder ? { ...c, title } : c));
+        setCurrentChat(prev => prev?.id === finished.id && prev.title === placeholder ? { ...prev, title } : prev);
+        sync(() => saveServerChat({ ...finished, title }));
+      }
+    }
+  };
+
+  const stopGenerating = () => {
+    abortRef.current?.abort();
+  };
+
+  // The sidebar lists this corpus's chats; the others stay saved for their own pages
+  const corpusChats = useMemo(() => chats.filter(c => inCorpus(c, corpus)), [chats, corpus]);
+  const folders = useMemo(() => chatFolders(corpusChats), [corpusChats]);
+  // A folder disappears once its last chat leaves it
+  const activeFolder = folderFilter && folders.includes(folderFilter) ? folderFilter : null;
+  const visibleChats = useMemo(
+    () => (activeFolder ? corpusChats.filter(c => c.folder === activeFolder) : corpusChats),
+    [corpusChats, activeFolder],
+  );
+  const searching = chatSearch.trim().length > 0;
+  const matches = useMemo(() => searchChats(visibleChats, chatSearch), [visibleChats, chatSearch]);
+  const groups = useMemo(() => groupChats(visibleChats), [visibleChats]);
+
+  const renderChatRow = (chat: Chat, snippet?: string | null) => (
+    <div
+      key={chat.id}
+      onClick={() => renamingId !== chat.id && selectChat(chat)}
+      onDoubleClick={() => setRenamingId(chat.id)}
+      className={`w-full text-left p-3 rounded-lg hover:bg-[var(--border)] transition-colors group flex items-center justify-between gap-1 cursor-pointer ${currentChat?.id === chat.id ? 'bg-[var(--border)]' : ''}`}
+    >
+      {renamingId === chat.id ? (
+        <input
+          autoFocus
+          className="text-sm flex-1 min-w-0 bg-transparent border-b border-[var(--fg)] outline-none"
+          defaultValue={chat.title}
+          maxLength={MAX_TITLE_CHARS}
+          onClick={e => e.stopPropagation()}
+          onBlur={e => finishRename(chat, e.currentTarget.value)}
+          onKeyDown={e => {
+            // Escape puts the old title back, so the blur that follows saves nothing
+            if (e.key === 'Escape') e.currentTarget.value = chat.title;
+            if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+          }}
+        />
+      ) : (
+        <div className="flex-1 min-w-0">
+          <p className="text-sm truncate">
+            {chat.pinned && <span className="opacity-40 mr-1" title="Pinned">•</span>}
+            {chat.title}
+          </p>
+          {snippet && <p className="text-xs opacity-40 truncate mt-0.5">{snippet}</p>}
+          {chat.folder && !activeFolder && <p className="text-[10px] opacity-30 truncate mt-0.5">{chat.folder}</p>}
+        </div>
+      )}
+      <ChatMenu
+        chat={chat}
+        corpus={corpus}
+        folders={folders}
+        onRename={() => setRenamingId(chat.id)}
+        onChange={update => updateChat(chat.id, update)}
+      />
+      <button
+        onClick={(e) => deleteChat(chat.id, e)}
+        className="opacity-0 group-hover:opacity-50 hover:opacity-100 p-1 transition-opacity"
+      >
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M18 6L6 18M6 6l12 12"/>
+        </svg>
+      </button>
+    </div>
+  );
+
+  const messages = currentChat?.messages || [];
+  const lastMessage = messages[messages.length - 1];
+  const awaitingText = loading && !(lastMessage?.role === 'assistant' && lastMessage.content);
+
+  return (
+    <div className={`min-h-screen flex ${inter.className} bg-[var(--bg)] text-[var(--fg)]`}>
+      
+      {/* Sidebar Overlay */}
+      {sidebarOpen && (
+        <div className="fixed inset-0 bg-black/50 z-40 md:hidden" onClick={() => setSidebarOpen(false)} />
+      )}
+      
+      {/* Sidebar */}
+      <aside className={`fixed md:relative z-50 h-screen w-72 bg-[var(--bg)] border-r border-[var(--border)] flex flex-col transition-transform duration-300 ${sidebarOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}`}>
+        <div className="p-4 border-b border-[var(--border)] space-y-3">
+          <button 
+            onClick={startNewChat}
+            className="w-full p-3 rounded-xl border border-[var(--border)] hover:bg-[var(--fg)] hover:text-[var(--bg)] transition-all flex items-center gap-2 text-sm font-medium"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M12 5v14M5 12h14"/>
+            </svg>
+            New Chat
+          </button>
+          {corpusChats.length > 0 && (
+            <input
+              className="w-full text-sm bg-transparent border border-[var(--border)] rounded-lg px-3 py-2 outline-none placeholder:opacity-30"
+              placeholder="Search chats..."
+              value={chatSearch}
+              onChange={e => setChatSearch(e.target.value)}
+              onKeyDown={e => e.key === 'Escape' && setChatSearch('')}
+            />
+          )}
+          {folders.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {[null, ...folders].map(folder => (
+                <button
+                  key={folder ?? ''}
+                  onClick={() => setFolderFilter(folder)}
+                  className={`text-xs px-2 py-1 rounded-md transition-opacity ${activeFolder === folder ? 'bg-[var(--fg)] text-[var(--bg)]' : 'bg-[var(--border)] opacity-60 hover:opacity-100'}`}
+                >
+                  {folder ?? 'All'}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        
+        <div className="flex-1 overflow-y-auto p-2">
+          {corpusChats.length === 0 ? (
+            <p className="text-center text-sm opacity-40 py-8">No conversations yet</p>
+          ) : searching ? (
+            matches.length === 0 ? (
+              <p className="text-center text-sm opacity-40 py-8">No matching chats</p>
+            ) : (
+              <div className="space-y-1">
+                {matches.map(({ chat, snippet }) => renderChatRow(chat, snippet))}
+              </div>
+            )
+          ) : (
+            <div className="space-y-4">
+              {groups.map(group => (
+                <div key={group.label} className="space-y-1">
+                  <p className="px-3 pt-1 text-[10px] uppercase tracking-wider opacity-40">{group.label}</p>
+                  {group.chats.map(chat => renderChatRow(chat))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        
+        <div className="p-4 border-t border-[var(--border)] text-xs space-y-2">
+          <div className="flex items-center gap-3 opacity-60">
+            <button onClick={() => importRef.current?.click()} className="hover:opacity-100 hover:underline">
+              Import
+            </button>
+            {corpusChats.length > 0 && (
+              <button
+                onClick={() => downloadFile(exportFilename(null, 'json'), 'application/json', toJson(corpusChats))}
+                className="hover:opacity-100 hover:underline"
+              >
+                Export all
+              </button>
+            )}
+            <input
+              ref={importRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) importChats(file);
+              }}
+            />
+          </div>
+          {importNote && <p className="opacity-60">{importNote}</p>}
+          <p className="opacity-40">
+            {syncFailed
+              ? "Couldn't reach the server. Chats are saved on this device"
+              : serverSync
+                ? 'Chats synced to this site'
+                : 'Chats saved locally on your device'}
+          </p>
+        </div>
+      </aside>
+
+      {/* Main Content */}
+      <main className="flex-1 flex flex-col min-w-0">
+        
+        {/* Navigation */}
+        <nav className="sticky top-0 z-30 glass-panel h-16 flex items-center justify-between px-4 md:px-8">
+          <div className="flex items-center gap-3">
+            <button 
+              onClick={() => setSidebarOpen(!sidebarOpen)}
+              className="md:hidden p-2 hover:bg-[var(--border)] rounded-lg transition-colors"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M3 12h18M3 6h18M3 18h18"/>
+              </svg>
+            </button>
+            <div className={`text-xl tracking-tight font-semibold ${playfair.className}`}>{corpus.name}</div>
+          </div>
+          <div className="flex items-center gap-4">
+            {serverSync && currentChat && !loading && (
+              <button
+                onClick={share}
+                disabled={shareState === 'sharing'}
+                title="Copy a read-only link to this conversation"
+                className="text-sm opacity-60 hover:opacity-100 transition-opacity"
+              >
+                {shareState === 'copied' ? 'Link copied' : shareState === 'failed' ? "Couldn't share" : 'Share'}
+              </button>
+            )}
+            {serverSync && currentChat?.shareId && !loading && (
+              <button
+                onClick={unshare}
+                disabled={shareState === 'sharing'}
+                title="Turn off the read-only link to this conversation"
+                className="text-sm opacity-60 hover:opacity-100 transition-opacity"
+              >
+                Stop sharing
+              </button>
+            )}
+            <button
+              onClick={toggleTheme}
+              className="p-2 rounded-full hover:bg-[var(--border)] transition-colors opacity-60 hover:opacity-100"
+              title={`Switch to ${theme === 'light' ? 'Dark' : 'Light'} Mode`}
+            >
+              {theme === 'light' ? (
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 3a6 6 0 0 0 9 9 9 9 0 1 1-9-9Z"/></svg>
+              ) : (
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="4"/><path d="M12 2v2"/><path d="M12 20v2"/><path d="m4.93 4.93 1.41 1.41"/><path d="m17.66 17.66 1.41 1.41"/><path d="M2 12h2"/><path d="M20 12h2"/><path d="m6.34 17.66-1.41 1.41"/><path d="m19.07 4.93-1.41 1.41"/></svg>
+              )}
+            </button>
+            <Link href={corpus.archivePath} className="text-sm opacity-60 hover:opacity-100 transition-opacity">
+              Archive
+            </Link>
+            {corpus.branding.link && (
+              <a href={corpus.branding.link.url} target="_blank" className="text-sm opacity-60 hover:opacity-100 transition-opacity">
+                {corpus.branding.link.label} ↗
+              </a>
+            )}
+          </div>
+        </nav>
+
+        {/* Messages Area */}
+        <div className="flex-1 overflow-y-auto">
+          <div className="max-w-3xl mx-auto w-full px-4 md:px-0 py-8 pb-48">
+            
+            {/* Empty State */}
+            {messages.length === 0 && (
+              <div className="mt-12 space-y-10 animate-warm-up">
+                <h1 className={`${playfair.className} text-4xl md:text-6xl font-semibold leading-[1.1] tracking-tight`}>
+                  {corpus.branding.headline.split('\n').map((line, i) => (
+                    <Fragment key={i}>{i > 0 && <br/>}{line}</Fragment>
+                  ))}
+                </h1>
+                <p className="text-lg opacity-60 max-w-lg leading-relaxed">
+                  {corpus.branding.tagline}
+                </p>
+
+                <TopicExplorer
+                  corpus={corpus.id}
+                  fallbackQuestions={corpus.questions}
+                  questionClassName={playfair.className}
+                  onAsk={(q) => { setQuery(q); inputRef.current?.focus(); }}
+                  onFilter={(topicId) => updateFilters({ ...filters, topics: [topicId] })}
+                />
+              </div>
+            )}
+
+            {/* Conversation Stream */}
+            <div className="space-y-12">
+              {messages.map((msg, i) => (
+                <div key={msg.id} className="animate-warm-up space-y-4">
+                  
+                  {/* Question */}
+                  {msg.role === 'user' && (
+                    <div className="flex items-start gap-3 opacity-70">
+                      <div className="w-7 h-7 rounded-full bg-[var(--fg)] flex items-center justify-center flex-shrink-0">
+                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="var(--bg)" strokeWidth="2">
+                          <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"/>
+                          <circle cx="12" cy="7" r="4"/>
+                        </svg>
+                      </div>
+                      <h3 className={`text-xl ${playfair.className} pt-0.5`}>{msg.content}</h3>
+                    </div>
+                  )}
+
+                  {/* Answer */}
+                  {msg.role === 'assistant' && (
+                    <div className="flex items-start gap-3">
+                      <PersonaAvatar persona={corpus.persona} />
+                      <div className="flex-1 space-y-4">
+                        {/* Rewritten follow-up, so users can see what was actually searched */}
+                        {msg.searchQuery && msg.searchQuery !== messages[i - 1]?.content && (
+                          <p className="text-xs opacity-40">Searched for: “{msg.searchQuery}”</p>
+                        )}
+                        <AnswerText
+                          content={msg.content}
+                          citations={msg.citations}
+                          unsupported={msg.grounding && !msg.grounding.revised ? msg.grounding.claims.filter(c => !c.supported) : []}
+                          onCite={setActiveCitation}
+                        />
+                        {msg.grounding && <GroundingNote grounding={msg.grounding} />}
+                        {!msg.error && msg.content && !(loading && i === messages.length - 1) && (
+                          <div className="flex items-start gap-1">
+                            <CopyButton text={msg.content} label="Copy answer" className="opacity-30 hover:opacity-70" />
+                            <div className="flex-1">
+                              <FeedbackButtons
+                                corpus={corpus.id}
+                                query={messages[i - 1]?.content ?? ''}
+                                answer={msg.content}
+                                chunkIds={msg.chunkIds}
+                                traceId={msg.traceId}
+                                feedback={msg.feedback}
+                                onChange={feedback => updateFeedback(msg.id, feedback)}
+                              />
+                            </div>
+                          </div>
+                        )}
+                        
+                        {/* Sources */}
+                        {msg.sources && msg.sources.length > 0 && <SourceList sources={msg.sources} archivePath={corpus.archivePath} />}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {/* Loading */}
+              {awaitingText && (
+                <div className="pl-10 ml-3 border-l-2 border-[var(--border)]">
+                  <div className="flex items-center gap-3">
+                    <div className="flex items-center gap-1 px-3 py-2 bg-[var(--border)] rounded-full">
+                      <span className="w-1.5 h-1.5 bg-[var(--fg)] rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></span>
+                      <span className="w-1.5 h-1.5 bg-[var(--fg)] rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></span>
+                      <span className="w-1.5 h-1.5 bg-[var(--fg)] rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></span>
+                    </div>
+                    <span className="text-sm opacity-30">Searching newsletters...</span>
+                  </div>
+                </div>
+              )}
+              <div ref={scrollRef} />
+            </div>
+          </div>
+        </div>
+
+        {/* Input Area */}
+        <div className="sticky bottom-0 bg-gradient-to-t from-[var(--bg)] via-[var(--bg)] to-transparent pt-8 pb-6 px-4">
+          <div className="max-w-3xl mx-auto relative">
+            <FilterBar corpus={corpus.id} filters={filters} onChange={updateFilters} />
+            <div className="rounded-2xl bg-[var(--bg)] shadow-2xl border border-[var(--border)] p-2 flex items-center gap-2 input-ring transition-shadow duration-300">
+              <input
+                ref={inputRef}
+                className="w-full bg-transparent p-3 text-base outline-none placeholder:opacity-30"
+                placeholder="Ask a question..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSubmit(e)}
+                disabled={loading}
+              />
+              {loading ? (
+                <button
+                  onClick={stopGenerating}
+                  title="Stop generating"
+                  className="p-2.5 bg-[var(--fg)] text-[var(--bg)] rounded-xl hover:opacity-90 transition-all duration-300"
+                >
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor">
+                    <rect x="6" y="6" width="12" height="12" rx="2"/>
+                  </svg>
+                </button>
+              ) : (
+                <button 
+                  onClick={handleSubmit}
+                  disabled={!query.trim()}
+                  className="p-2.5 bg-[var(--fg)] text-[var(--bg)] rounded-xl hover:opacity-90 disabled:opacity-20 transition-all duration-300"
+                >
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M5 12h14M12 5l7 7-7 7"/>
+                  </svg>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+
+      {/* Citation side panel */}
+      {activeCitation && (
+        <CitationPanel citation={activeCitation} archivePath={corpus.archivePath} onClose={() => setActiveCitation(null)} />
+      )}
+    </div>
+  );
+}
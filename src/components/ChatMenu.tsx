@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { exportFilename, toHtml, toJson, toMarkdown } from '@/lib/chat-export';
+import { MAX_FOLDER_CHARS, type Chat } from '@/lib/chats';
+import type { PublicCorpus } from '@/lib/corpus';
+
+export function downloadFile(filename: string, type: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+interface ChatMenuProps {
+  chat: Chat;
+  corpus: PublicCorpus;
+  folders: string[];
+  onRename: () => void;
+  onChange: (update: Partial<Pick<Chat, 'pinned' | 'folder'>>) => void;
+}
+
+// Per-chat actions in the sidebar: rename, pin, folder and downloads
+export default function ChatMenu({ chat, corpus, folders, onRename, onChange }: ChatMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [newFolder, setNewFolder] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const run = (action: () => void) => {
+    action();
+    setOpen(false);
+    setNewFolder(null);
+  };
+
+  const createFolder = () => {
+    const name = newFolder?.trim();
+    if (name) run(() => onChange({ folder: name }));
+  };
+
+  const item = (label: string, action: () => void, active = false) => (
+    <button
+      key={label}
+      onClick={() => run(action)}
+      className={`w-full text-left text-sm px-3 py-1.5 hover:bg-[var(--border)] transition-colors truncate ${active ? 'font-medium' : ''}`}
+    >
+      {label}
+    </button>
+  );
+
+  const site = () => ({ origin: window.location.origin, name: corpus.name, archivePath: corpus.archivePath });
+
+  const heading = (label: string) => (
+    <p className="px-3 pt-2 pb-1 text-[10px] uppercase tracking-wider opacity-40">{label}</p>
+  );
+
+  return (
+    <div ref={menuRef} className="relative" onClick={e => e.stopPropagation()}>
+      <button
+        onClick={() => setOpen(!open)}
+        title="More"
+        className={`p-1 transition-opacity ${open ? 'opacity-100' : 'opacity-0 group-hover:opacity-50 hover:opacity-100'}`}
+      >
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+          <circle cx="5" cy="12" r="1.8"/><circle cx="12" cy="12" r="1.8"/><circle cx="19" cy="12" r="1.8"/>
+        </svg>
+      </button>
+      {open && (
+        <div className="absolute right-0 top-7 z-10 w-48 py-1 rounded-lg border border-[var(--border)] bg-[var(--bg)] shadow-xl max-h-96 overflow-y-auto">
+          {item('Rename', onRename)}
+          {item(chat.pinned ? 'Unpin' : 'Pin', () => onChange({ pinned: !chat.pinned }))}
+
+          {heading('Folder')}
+          {folders.map(f => item(f, () => onChange({ folder: f }), chat.folder === f))}
+          {chat.folder && item('Remove from folder', () => onChange({ folder: undefined }))}
+          {newFolder === null ? (
+            <button
+              onClick={() => setNewFolder('')}
+              className="w-full text-left text-sm px-3 py-1.5 hover:bg-[var(--border)] transition-colors opacity-60"
+            >
+              New folder…
+            </button>
+          ) : (
+            <input
+              autoFocus
+              className="mx-3 my-1 w-[calc(100%-1.5rem)] text-sm bg-transparent border border-[var(--border)] rounded px-2 py-1 outline-none"
+              placeholder="Folder name"
+              value={newFolder}
+              maxLength={MAX_FOLDER_CHARS}
+              onChange={e => setNewFolder(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') createFolder();
+                if (e.key === 'Escape') setNewFolder(null);
+              }}
+            />
+          )}
+
+          {heading('Download')}
+          {item('Markdown', () => downloadFile(exportFilename(chat, 'md'), 'text/markdown', toMarkdown(chat, site())))}
+          {item('HTML (print to PDF)', () => downloadFile(exportFilename(chat, 'html'), 'text/html', toHtml(chat, site())))}
+          {item('JSON', () => downloadFile(exportFilename(chat, 'json'), 'application/json', toJson([chat])))}
+        </div>
+      )}
+    </div>
+  );
+}
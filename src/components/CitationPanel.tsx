@@ -0,0 +1,78 @@
+import Link from 'next/link';
+import type { Citation, CitationSpan } from '@/lib/citations';
+import { formatDate } from '@/lib/newsletters';
+
+interface CitationPanelProps {
+  citation: Citation;
+  archivePath: string;
+  onClose: () => void;
+}
+
+// Split the passage into plain and highlighted pieces, merging overlapping spans
+function highlight(passage: string, spans: CitationSpan[]) {
+  const pieces: { text: string; span?: CitationSpan }[] = [];
+  let cursor = 0;
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const start = Math.max(span.start, cursor);
+    if (span.end <= start) continue;
+    if (start > cursor) pieces.push({ text: passage.slice(cursor, start) });
+    pieces.push({ text: passage.slice(start, span.end), span });
+    cursor = span.end;
+  }
+  if (cursor < passage.length) pieces.push({ text: passage.slice(cursor) });
+  return pieces;
+}
+
+export default function CitationPanel({ citation, archivePath, onClose }: CitationPanelProps) {
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/50 z-40 md:hidden" onClick={onClose} />
+      <aside className="fixed right-0 top-0 z-50 h-screen w-full md:w-96 bg-[var(--bg)] border-l border-[var(--border)] flex flex-col animate-warm-up">
+        <div className="p-4 border-b border-[var(--border)] flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-xs uppercase tracking-wider opacity-30 mb-1">Source [{citation.marker}]</p>
+            <p className="text-sm font-medium">{citation.title}</p>
+            {citation.section && <p className="text-xs opacity-60">{citation.section}</p>}
+            <p className="text-xs opacity-40">{formatDate(citation.date)}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 opacity-50 hover:opacity-100 transition-opacity"
+            title="Close"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          <p className="text-sm whitespace-pre-wrap leading-relaxed">
+            {highlight(citation.passage, citation.spans).map((piece, i) =>
+              piece.span ? (
+                <mark
+                  key={i}
+                  className={`rounded px-0.5 text-[var(--fg)] ${piece.span.quoted ? 'bg-yellow-300/40' : 'bg-[var(--border)]'}`}
+                >
+                  {piece.text}
+                </mark>
+              ) : (
+                <span key={i} className="opacity-70">{piece.text}</span>
+              )
+            )}
+          </p>
+        </div>
+
+        <div className="p-4 border-t border-[var(--border)] text-xs space-y-2">
+          <p className="opacity-40">Highlighted: quoted text verified in this passage. Grey: closest matching sentence.</p>
+          <Link
+            href={`${archivePath}/${citation.newsletterId}#${citation.sectionId}`}
+            className="inline-block opacity-60 hover:opacity-100 transition-opacity"
+          >
+            Read the full newsletter →
+          </Link>
+        </div>
+      </aside>
+    </>
+  );
+}
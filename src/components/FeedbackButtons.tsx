@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import type { MessageFeedback } from '@/lib/chats';
+import type { FeedbackRating } from '@/lib/feedback';
+
+interface FeedbackButtonsProps {
+  corpus: string;
+  query: string;
+  answer: string;
+  chunkIds?: string[];
+  traceId?: string;
+  feedback?: MessageFeedback;
+  onChange: (feedback: MessageFeedback) => void;
+}
+
+// Thumbs up/down under an answer. The rating is sent right away; a comment can follow.
+export default function FeedbackButtons({ corpus, query, answer, chunkIds, traceId, feedback, onChange }: FeedbackButtonsProps) {
+  const [commenting, setCommenting] = useState(false);
+  const [comment, setComment] = useState('');
+  const [sending, setSending] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const send = async (rating: FeedbackRating, text?: string) => {
+    setSending(true);
+    setFailed(false);
+    try {
+      const res = await fetch(`/api/feedback?corpus=${corpus}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: feedback?.id, rating, comment: text, query, answer, chunkIds, traceId }),
+      });
+      if (!res.ok) throw new Error(`Feedback failed: ${res.status}`);
+      const { id } = await res.json();
+      onChange({ id, rating, comment: text ?? feedback?.comment });
+      return true;
+    } catch {
+      setFailed(true);
+      return false;
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const rate = async (rating: FeedbackRating) => {
+    if (sending || feedback?.rating === rating) return;
+    if (await send(rating)) setCommenting(!feedback?.comment);
+  };
+
+  const submitComment = async () => {
+    if (!feedback || !comment.trim()) return;
+    if (await send(feedback.rating, comment.trim())) {
+      setCommenting(false);
+      setComment('');
+    }
+  };
+
+  const thumb = (rating: FeedbackRating, label: string, path: string) => (
+    <button
+      onClick={() => rate(rating)}
+      disabled={sending}
+      title={label}
+      className={`p-1 rounded transition-opacity ${feedback?.rating === rating ? 'opacity-100' : 'opacity-30 hover:opacity-70'}`}
+    >
+      <svg width="14" height="14" viewBox="0 0 24 24" fill={feedback?.rating === rating ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth="2">
+        <path d={path} />
+      </svg>
+    </button>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        {thumb('up', 'Good answer', 'M7 10v12M15 5.88 14 10h5.83a2 2 0 0 1 1.92 2.56l-2.33 8A2 2 0 0 1 17.5 22H4a2 2 0 0 1-2-2v-8a2 2 0 0 1 2-2h2.76a2 2 0 0 0 1.79-1.11L12 2a3.13 3.13 0 0 1 3 3.88Z')}
+        {thumb('down', 'Bad answer', 'M17 14V2M9 18.12 10 14H4.17a2 2 0 0 1-1.92-2.56l2.33-8A2 2 0 0 1 6.5 2H20a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2h-2.76a2 2 0 0 0-1.79 1.11L12 22a3.13 3.13 0 0 1-3-3.88Z')}
+        {feedback && !commenting && (
+          <span className="text-xs opacity-30 ml-1">{feedback.comment ? 'Thanks for the comment' : 'Thanks for the feedback'}</span>
+        )}
+        {failed && <span className="text-xs text-red-400 ml-1">Couldn&apos;t send feedback</span>}
+      </div>
+      {commenting && feedback && (
+        <div className="flex items-center gap-2">
+          <input
+            autoFocus
+            className="flex-1 text-sm bg-transparent border border-[var(--border)] rounded-lg px-3 py-1.5 outline-none placeholder:opacity-30"
+            placeholder={feedback.rating === 'down' ? 'What was wrong? (optional)' : 'Anything to add? (optional)'}
+            value={comment}
+            maxLength={2000}
+            onChange={e => setComment(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && submitComment()}
+          />
+          <button
+            onClick={submitComment}
+            disabled={sending || !comment.trim()}
+            className="text-xs px-3 py-1.5 rounded-lg bg-[var(--fg)] text-[var(--bg)] disabled:opacity-20"
+          >
+            Send
+          </button>
+          <button onClick={() => setCommenting(false)} className="text-xs opacity-40 hover:opacity-100">
+            Skip
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
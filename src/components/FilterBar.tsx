@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import type { SearchFilters } from '@/lib/filters';
+import { formatDate } from '@/lib/newsletters';
+import type { TopicSummary } from '@/lib/topics';
+
+interface NewsletterOption {
+  id: string;
+  title: string;
+  date: string;
+}
+
+interface FilterBarProps {
+  corpus: string;
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+}
+
+// Date range, topic and newsletter picker shown above the input; values are saved per chat
+export default function FilterBar({ corpus, filters, onChange }: FilterBarProps) {
+  const [open, setOpen] = useState(false);
+  const [newsletters, setNewsletters] = useState<NewsletterOption[]>([]);
+  const [topics, setTopics] = useState<TopicSummary[]>([]);
+
+  useEffect(() => {
+    if (!open || newsletters.length > 0) return;
+    fetch(`/api/newsletters?corpus=${corpus}`)
+      .then(res => res.json())
+      .then(data => setNewsletters(data.newsletters ?? []))
+      .catch(() => setNewsletters([]));
+  }, [open, newsletters.length, corpus]);
+
+  useEffect(() => {
+    if (!open || topics.length > 0) return;
+    fetch(`/api/topics?corpus=${corpus}`)
+      .then(res => (res.ok ? res.json() : { topics: [] }))
+      .then(data => setTopics(data.topics ?? []))
+      .catch(() => setTopics([]));
+  }, [open, topics.length, corpus]);
+
+  const selected = filters.newsletterIds ?? [];
+  const selectedTopics = filters.topics ?? [];
+  const activeCount = (filters.dateFrom ? 1 : 0) + (filters.dateTo ? 1 : 0) + selected.length + selectedTopics.length;
+
+  const update = (patch: Partial<SearchFilters>) => {
+    const next = { ...filters, ...patch };
+    (Object.keys(next) as (keyof SearchFilters)[]).forEach(key => {
+      const value = next[key];
+      if (!value || (Array.isArray(value) && value.length === 0)) delete next[key];
+    });
+    onChange(next);
+  };
+
+  const toggleNewsletter = (id: string) => {
+    update({ newsletterIds: selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id] });
+  };
+
+  const toggleTopic = (id: string) => {
+    update({ topics: selectedTopics.includes(id) ? selectedTopics.filter(t => t !== id) : [...selectedTopics, id] });
+  };
+
+  return (
+    <div className="mb-2">
+      <div className="flex items-center gap-2 text-xs">
+        <button
+          onClick={() => setOpen(!open)}
+          className={`px-3 py-1.5 rounded-full border border-[var(--border)] hover:bg-[var(--border)] transition-colors flex items-center gap-1.5 ${activeCount > 0 ? 'opacity-100' : 'opacity-50'}`}
+        >
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M22 3H2l8 9.46V19l4 2v-8.54L22 3z"/>
+          </svg>
+          Filters{activeCount > 0 && ` (${activeCount})`}
+        </button>
+        {activeCount > 0 && (
+          <button onClick={() => onChange({})} className="opacity-40 hover:opacity-100 transition-opacity">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-2 p-3 rounded-xl border border-[var(--border)] bg-[var(--bg)] space-y-3 text-sm animate-warm-up">
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="opacity-50 text-xs" htmlFor="filter-from">From</label>
+            <input
+              id="filter-from"
+              type="date"
+              value={filters.dateFrom ?? ''}
+              max={filters.dateTo}
+              onChange={(e) => update({ dateFrom: e.target.value })}
+              className="bg-transparent border border-[var(--border)] rounded-lg px-2 py-1 text-xs"
+            />
+            <label className="opacity-50 text-xs" htmlFor="filter-to">To</label>
+            <input
+              id="filter-to"
+              type="date"
+              value={filters.dateTo ?? ''}
+              min={filters.dateFrom}
+              onChange={(e) => update({ dateTo: e.target.value })}
+              className="bg-transparent border border-[var(--border)] rounded-lg px-2 py-1 text-xs"
+            />
+          </div>
+
+          {topics.length > 0 && (
+            <div>
+              <p className="text-xs uppercase tracking-wider opacity-30 mb-1">Topics</p>
+              <div className="flex flex-wrap gap-1.5">
+                {topics.map(t => (
+                  <button
+                    key={t.id}
+                    onClick={() => toggleTopic(t.id)}
+                    className={`text-xs px-2.5 py-1 rounded-full border border-[var(--border)] transition-colors ${selectedTopics.includes(t.id) ? 'bg-[var(--fg)] text-[var(--bg)]' : 'hover:bg-[var(--border)]'}`}
+                  >
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <p className="text-xs uppercase tracking-wider opacity-30 mb-1">Newsletters</p>
+            <div className="max-h-40 overflow-y-auto space-y-0.5">
+              {newsletters.length === 0 && <p className="text-xs opacity-40">Loading…</p>}
+              {newsletters.map(nl => (
+                <label key={nl.id} className="flex items-center gap-2 px-1 py-0.5 rounded hover:bg-[var(--border)] cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(nl.id)}
+                    onChange={() => toggleNewsletter(nl.id)}
+                  />
+                  <span className="truncate flex-1">{nl.title}</span>
+                  <span className="text-xs opacity-40 flex-shrink-0">{formatDate(nl.date)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
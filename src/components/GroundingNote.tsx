@@ -0,0 +1,17 @@
+import type { GroundingReport } from '@/lib/grounding';
+
+// One line under the answer saying how much of it the newsletters back up
+export default function GroundingNote({ grounding }: { grounding: GroundingReport }) {
+  const unsupported = grounding.claims.filter(c => !c.supported).length;
+  const percent = Math.round(grounding.score * 100);
+
+  let detail = 'every sentence was found in the newsletters';
+  if (grounding.revised) detail = `${unsupported} unsupported ${unsupported === 1 ? 'sentence' : 'sentences'} removed`;
+  else if (unsupported > 0) detail = `${unsupported} ${unsupported === 1 ? 'sentence' : 'sentences'} underlined couldn't be found in the newsletters`;
+
+  return (
+    <p className={`text-xs ${percent < 50 ? 'text-red-400' : 'opacity-40'}`}>
+      Grounding {percent}% · {detail}
+    </p>
+  );
+}
@@ -0,0 +1,42 @@
+import Link from 'next/link';
+import { Playfair_Display } from 'next/font/google';
+import type { PublicCorpus } from '@/lib/corpus';
+import { formatDate, type Newsletter } from '@/lib/newsletters';
+
+const playfair = Playfair_Display({ subsets: ['latin'], weight: ['400', '600', '700'] });
+
+export default function NewsletterArticle({ corpus, newsletter }: { corpus: PublicCorpus; newsletter: Newsletter }) {
+  return (
+    <article className="space-y-10 animate-warm-up">
+      <header className="space-y-3">
+        <Link href={corpus.archivePath} className="text-sm opacity-40 hover:opacity-100 transition-opacity">← All newsletters</Link>
+        <p className="text-xs uppercase tracking-wider opacity-40">
+          {formatDate(newsletter.date)}
+          {newsletter.source?.url && (
+            <>
+              {' · '}
+              <a href={newsletter.source.url} target="_blank" rel="noopener noreferrer" className="hover:opacity-100 hover:underline">
+                Original ↗
+              </a>
+            </>
+          )}
+        </p>
+        <h1 className={`${playfair.className} text-4xl md:text-5xl font-semibold leading-[1.1] tracking-tight`}>
+          {newsletter.title}
+        </h1>
+      </header>
+
+      {newsletter.sections.map(section => (
+        // scroll-mt keeps deep-linked headings clear of the sticky nav
+        <section key={section.id} id={section.id} className="space-y-4 scroll-mt-24 target:bg-[var(--border)]/40 rounded-lg">
+          {section.heading && (
+            <h2 className={`${playfair.className} text-2xl font-semibold pt-4`}>{section.heading}</h2>
+          )}
+          {section.paragraphs.map((para, i) => (
+            <p key={i} className="leading-relaxed">{para}</p>
+          ))}
+        </section>
+      ))}
+    </article>
+  );
+}
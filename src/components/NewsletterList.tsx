@@ -0,0 +1,36 @@
+import Link from 'next/link';
+import { Playfair_Display } from 'next/font/google';
+import type { PublicCorpus } from '@/lib/corpus';
+import { formatDate, type Newsletter } from '@/lib/newsletters';
+
+const playfair = Playfair_Display({ subsets: ['latin'], weight: ['400', '600', '700'] });
+
+const EXCERPT_CHARS = 220;
+
+function excerpt(newsletter: Newsletter): string {
+  const text = newsletter.sections[0]?.paragraphs.join(' ') ?? '';
+  return text.length > EXCERPT_CHARS ? text.slice(0, EXCERPT_CHARS).replace(/\s+\S*$/, '') + '…' : text;
+}
+
+export default function NewsletterList({ corpus, newsletters }: { corpus: PublicCorpus; newsletters: Newsletter[] }) {
+  return (
+    <div className="space-y-10 animate-warm-up">
+      <div className="space-y-3">
+        <h1 className={`${playfair.className} text-4xl md:text-5xl font-semibold tracking-tight`}>The archive</h1>
+        <p className="opacity-60">{newsletters.length} newsletters, newest first.</p>
+      </div>
+
+      <ul className="divide-y divide-[var(--border)]">
+        {newsletters.map(nl => (
+          <li key={nl.id}>
+            <Link href={`${corpus.archivePath}/${nl.id}`} className="block py-6 group">
+              <p className="text-xs uppercase tracking-wider opacity-40 mb-1">{formatDate(nl.date)}</p>
+              <h2 className={`${playfair.className} text-2xl group-hover:underline`}>{nl.title}</h2>
+              <p className="mt-2 text-sm opacity-60 leading-relaxed">{excerpt(nl)}</p>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
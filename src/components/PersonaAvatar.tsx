@@ -0,0 +1,17 @@
+import Image from 'next/image';
+import { Playfair_Display } from 'next/font/google';
+import type { PublicCorpus } from '@/lib/corpus';
+
+const playfair = Playfair_Display({ subsets: ['latin'], weight: ['400', '600', '700'] });
+
+// The author's photo next to an answer, or their initial. Photos are served
+// as configured, since corpora.json may point at any host.
+export default function PersonaAvatar({ persona }: { persona: PublicCorpus['persona'] }) {
+  return persona.photo ? (
+    <Image src={persona.photo} alt={persona.name} width={32} height={32} unoptimized className="w-8 h-8 rounded-full object-cover flex-shrink-0" />
+  ) : (
+    <div className={`w-8 h-8 rounded-full bg-[var(--border)] flex items-center justify-center flex-shrink-0 text-sm ${playfair.className}`}>
+      {persona.name[0]}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useState } from 'react';
+import { Playfair_Display } from 'next/font/google';
+import AnswerText from '@/components/AnswerText';
+import CopyButton from '@/components/CopyButton';
+import CitationPanel from '@/components/CitationPanel';
+import GroundingNote from '@/components/GroundingNote';
+import PersonaAvatar from '@/components/PersonaAvatar';
+import SourceList from '@/components/SourceList';
+import type { ChatMessage } from '@/lib/chats';
+import type { Citation } from '@/lib/citations';
+import type { PublicCorpus } from '@/lib/corpus';
+
+const playfair = Playfair_Display({ subsets: ['latin'], weight: ['400', '600', '700'] });
+
+// A shared chat, laid out like the chat page but without any way to reply
+export default function SharedConversation({ corpus, messages }: { corpus: PublicCorpus; messages: ChatMessage[] }) {
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null);
+
+  return (
+    <>
+      <div className="space-y-12">
+        {messages.map((msg, i) => (
+          <div key={`${msg.id}-${i}`} className="space-y-4">
+            {msg.role === 'user' ? (
+              <h3 className={`text-xl ${playfair.className} opacity-70`}>{msg.content}</h3>
+            ) : (
+              <div className="flex items-start gap-3">
+                <PersonaAvatar persona={corpus.persona} />
+                <div className="flex-1 space-y-4">
+                  {msg.searchQuery && msg.searchQuery !== messages[i - 1]?.content && (
+                    <p className="text-xs opacity-40">Searched for: “{msg.searchQuery}”</p>
+                  )}
+                  <AnswerText
+                    content={msg.content}
+                    citations={msg.citations}
+                    unsupported={msg.grounding && !msg.grounding.revised ? msg.grounding.claims.filter(c => !c.supported) : []}
+                    onCite={setActiveCitation}
+                  />
+                  {msg.grounding && <GroundingNote grounding={msg.grounding} />}
+                  {!msg.error && msg.content && (
+                    <CopyButton text={msg.content} label="Copy answer" className="opacity-30 hover:opacity-70" />
+                  )}
+                  {msg.sources && msg.sources.length > 0 && <SourceList sources={msg.sources} archivePath={corpus.archivePath} />}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      {activeCitation && <CitationPanel citation={activeCitation} archivePath={corpus.archivePath} onClose={() => setActiveCitation(null)} />}
+    </>
+  );
+}
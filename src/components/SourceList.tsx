@@ -0,0 +1,30 @@
+import Link from 'next/link';
+import { sourceHref, type ChatSource } from '@/lib/chat-stream';
+
+// The newsletters an answer drew on, linked to their place in the reader
+export default function SourceList({ sources, archivePath }: { sources: ChatSource[]; archivePath: string }) {
+  return (
+    <div className="pt-3 mt-4 border-t border-dashed border-[var(--border)]">
+      <p className="text-xs uppercase tracking-wider opacity-30 mb-2">Sources</p>
+      <div className="flex flex-wrap gap-1.5">
+        {sources.map((src, j) => {
+          const href = sourceHref(src, archivePath);
+          const label = src.section ? `${src.title} — ${src.section}` : src.title;
+          return href ? (
+            <Link
+              key={j}
+              href={href}
+              className="text-xs px-2 py-1 bg-[var(--border)] rounded-md opacity-60 hover:opacity-100 transition-opacity"
+            >
+              {label}
+            </Link>
+          ) : (
+            <span key={j} className="text-xs px-2 py-1 bg-[var(--border)] rounded-md opacity-60">
+              {label}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Applies the theme chosen on the chat page to pages that have no toggle of their own
+export default function ThemeSync() {
+  useEffect(() => {
+    const savedTheme = localStorage.getItem('ask-andrew-theme');
+    if (savedTheme) {
+      document.documentElement.setAttribute('data-theme', savedTheme);
+    } else if (window.matchMedia('(prefers-color-scheme: dark)').matches) {
+      document.documentElement.setAttribute('data-theme', 'dark');
+    }
+  }, []);
+
+  return null;
+}
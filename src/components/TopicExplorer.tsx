@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { TopicSummary } from '@/lib/topics';
+
+interface TopicExplorerProps {
+  corpus: string;
+  fallbackQuestions: string[]; // shown when the index has no topics
+  questionClassName?: string;
+  onAsk: (question: string) => void;
+  onFilter: (topicId: string) => void;
+}
+
+// Topics from the index with example questions for each, shown before the
+// first question. Renders nothing until /api/topics answers, then falls back
+// to the corpus's suggested questions if there are no topics.
+export default function TopicExplorer({ corpus, fallbackQuestions, questionClassName = '', onAsk, onFilter }: TopicExplorerProps) {
+  const [topics, setTopics] = useState<TopicSummary[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/topics?corpus=${corpus}`)
+      .then(res => (res.ok ? res.json() : { topics: [] }))
+      .then(data => setTopics(data.topics ?? []))
+      .catch(() => setTopics([]));
+  }, [corpus]);
+
+  const questionButton = (q: string) => (
+    <button
+      key={q}
+      onClick={() => onAsk(q)}
+      className="text-left p-5 border border-[var(--border)] rounded-xl hover:bg-[var(--fg)] hover:text-[var(--bg)] transition-all duration-300"
+    >
+      <span className={`${questionClassName} text-lg`}>{q}</span>
+    </button>
+  );
+
+  if (!topics) return null;
+  if (topics.length === 0) {
+    if (fallbackQuestions.length === 0) return null;
+    return <div className="grid grid-cols-1 md:grid-cols-2 gap-3">{fallbackQuestions.map(questionButton)}</div>;
+  }
+  const selected = topics.find(t => t.id === selectedId) ?? topics[0];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {topics.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setSelectedId(t.id)}
+            title={t.description ?? undefined}
+            className={`text-sm px-3 py-1.5 rounded-full border border-[var(--border)] transition-colors ${t.id === selected.id ? 'bg-[var(--fg)] text-[var(--bg)]' : 'hover:bg-[var(--border)]'}`}
+          >
+            {t.label} <span className="opacity-50 text-xs">{t.count}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {selected.questions.map(questionButton)}
+      </div>
+
+      <button onClick={() => onFilter(selected.id)} className="text-xs opacity-40 hover:opacity-100 transition-opacity">
+        Only search {selected.label} ({selected.count} {selected.count === 1 ? 'passage' : 'passages'}) →
+      </button>
+    </div>
+  );
+}
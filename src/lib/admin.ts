@@ -0,0 +1,15 @@
+import crypto from 'crypto';
+import { ApiError } from './api-error';
+
+// Admin endpoints only exist when ADMIN_TOKEN is set, and expect it as a bearer token
+export function requireAdmin(request: Request) {
+  const token = process.env.ADMIN_TOKEN?.trim();
+  if (!token) throw new ApiError('not_found', 404, 'Not found.');
+
+  const given = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() ?? '';
+  // Compare digests so the check takes the same time whatever was sent
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  if (!crypto.timingSafeEqual(digest(given), digest(token))) {
+    throw new ApiError('unauthorized', 401, 'A valid admin token is required.');
+  }
+}
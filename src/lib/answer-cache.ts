@@ -0,0 +1,153 @@
+import type { ChatSource, RetrievalResult } from './chat-stream';
+import type { Citation } from './citations';
+import type { SearchFilters } from './filters';
+import type { GroundingReport } from './grounding';
+
+// Answers to first-turn questions, reused two ways: an exact match on the
+// normalized question plus filters, or a semantic match when a new question's
+// embedding is close enough to a cached one (with the same filters). Entries
+// expire after a TTL and are ignored once the index they were built from changes.
+//
+//   ANSWER_CACHE_TTL_SECONDS  how long answers are reused, default 3600 (0 disables)
+//   SEMANTIC_CACHE_THRESHOLD  cosine similarity needed for a semantic hit, default 0.95
+
+export interface CachedAnswer {
+  searchQuery: string;
+  sources: ChatSource[];
+  retrieval: RetrievalResult[];
+  answer: string;
+  grounding: GroundingReport | null;
+  citations: Citation[];
+}
+
+export type CacheHit = 'exact' | 'semantic';
+
+export interface CacheStats {
+  entries: number;
+  exact: { hits: number; misses: number };
+  semantic: { hits: number; misses: number };
+}
+
+interface Entry {
+  corpus: string;
+  filtersKey: string;
+  embedding: number[];
+  indexVersion: string;
+  expiresAt: number;
+  value: CachedAnswer;
+}
+
+const MAX_ENTRIES = 500;
+
+export function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/[?!.]+$/, '').replace(/\s+/g, ' ').trim();
+}
+
+// Same filters in any order give the same key
+function filtersKey(filters: SearchFilters): string {
+  return JSON.stringify([
+    filters.dateFrom ?? null,
+    filters.dateTo ?? null,
+    [...(filters.newsletterIds ?? [])].sort(),
+    [...(filters.topics ?? [])].sort(),
+  ]);
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(na) * Math.sqrt(nb) || 1);
+}
+
+export class AnswerCache {
+  // Insertion order doubles as recency: hits are moved to the end, evictions come from the front
+  private entries = new Map<string, Entry>();
+  private counts = { exact: { hits: 0, misses: 0 }, semantic: { hits: 0, misses: 0 } };
+
+  constructor(
+    private ttlMs: number,
+    private threshold: number,
+  ) {}
+
+  // Each corpus has its own answers, even to the same question
+  private key(corpus: string, query: string, filters: SearchFilters): string {
+    return `${corpus}\n${normalizeQuery(query)}\n${filtersKey(filters)}`;
+  }
+
+  private live(key: string, entry: Entry, indexVersion: string): boolean {
+    if (entry.expiresAt > Date.now() && entry.indexVersion === indexVersion) return true;
+    this.entries.delete(key);
+    return false;
+  }
+
+  private touch(key: string, entry: Entry): CachedAnswer {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  getExact(corpus: string, query: string, filters: SearchFilters, indexVersion: string): CachedAnswer | null {
+    const key = this.key(corpus, query, filters);
+    const entry = this.entries.get(key);
+    if (entry && this.live(key, entry, indexVersion)) {
+      this.counts.exact.hits++;
+      return this.touch(key, entry);
+    }
+    this.counts.exact.misses++;
+    return null;
+  }
+
+  getSimilar(corpus: string, embedding: number[], filters: SearchFilters, indexVersion: string): CachedAnswer | null {
+    const wanted = filtersKey(filters);
+    let best: { key: string; entry: Entry; score: number } | null = null;
+    for (const [key, entry] of this.entries) {
+      if (entry.corpus !== corpus || entry.filtersKey !== wanted || !this.live(key, entry, indexVersion)) continue;
+      const score = cosine(embedding, entry.embedding);
+      if (score >= this.threshold && score > (best?.score ?? -1)) best = { key, entry, score };
+    }
+    if (best) {
+      this.counts.semantic.hits++;
+      return this.touch(best.key, best.entry);
+    }
+    this.counts.semantic.misses++;
+    return null;
+  }
+
+  set(corpus: string, query: string, filters: SearchFilters, embedding: number[], indexVersion: string, value: CachedAnswer) {
+    const key = this.key(corpus, query, filters);
+    this.entries.delete(key);
+    this.entries.set(key, {
+      corpus,
+      filtersKey: filtersKey(filters),
+      embedding,
+      indexVersion,
+      expiresAt: Date.now() + this.ttlMs,
+      value,
+    });
+    while (this.entries.size > MAX_ENTRIES) this.entries.delete(this.entries.keys().next().value!);
+  }
+
+  stats(): CacheStats {
+    return {
+      entries: this.entries.size,
+      exact: { ...this.counts.exact },
+      semantic: { ...this.counts.semantic },
+    };
+  }
+}
+
+let cache: AnswerCache | null | undefined;
+
+export function getAnswerCache(): AnswerCache | null {
+  if (cache !== undefined) return cache;
+  const ttl = Number(process.env.ANSWER_CACHE_TTL_SECONDS?.trim() || 3600);
+  const threshold = Number(process.env.SEMANTIC_CACHE_THRESHOLD?.trim() || 0.95);
+  cache = Number.isFinite(ttl) && ttl > 0 ? new AnswerCache(ttl * 1000, threshold) : null;
+  return cache;
+}
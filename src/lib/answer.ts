@@ -0,0 +1,80 @@
+import { estimateTokens } from './budget';
+import type { ChatSource } from './chat-stream';
+import type { Chunk } from './chunking';
+import { buildRewritePrompt, cleanRewrittenQuery, type HistoryMessage } from './conversation';
+import type { Corpus } from './corpus';
+import { UNAVAILABLE_MESSAGE } from './prompts';
+import { getChatProviders, type ChatRequest } from './providers';
+import type { Trace } from './trace';
+
+// Answer generation shared by /api/chat and the OpenAI-compatible
+// /v1/chat/completions: follow-up rewriting and streaming with provider fallback.
+
+export function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+// Turn a follow-up like "what did he say after that?" into a standalone search query
+export async function rewriteQuery(corpus: Corpus, query: string, history: HistoryMessage[], trace: Trace): Promise<string> {
+  if (history.length === 0) return query;
+  const prompt = buildRewritePrompt(query, history, corpus.archive);
+
+  for (const provider of getChatProviders()) {
+    try {
+      const text = await provider.generate({
+        messages: [{ role: 'user', content: prompt }],
+        maxTokens: 100,
+        temperature: 0,
+      });
+      trace.addTokens(estimateTokens(prompt), estimateTokens(text));
+      if (text.trim()) return cleanRewrittenQuery(text, query);
+      trace.fallback('rewrite', provider.id, 'empty response');
+    } catch (e) {
+      trace.fallback('rewrite', provider.id, errorMessage(e));
+    }
+  }
+
+  return query;
+}
+
+// Generate answer with the configured providers in fallback order, streamed as text deltas
+export async function* streamAnswer(request: ChatRequest, trace: Trace): AsyncGenerator<string> {
+  const started = Date.now();
+
+  for (const provider of getChatProviders()) {
+    let emitted = false;
+    try {
+      for await (const text of provider.stream(request)) {
+        if (!emitted) {
+          trace.setProvider(provider.id);
+          trace.addStage('first_token', Date.now() - started);
+        }
+        emitted = true;
+        yield text;
+      }
+      if (emitted) return;
+      trace.fallback('generate', provider.id, 'returned no text');
+    } catch (e) {
+      // Once text has reached the client we can't switch providers mid-answer
+      if (emitted || request.signal?.aborted) throw e;
+      trace.fallback('generate', provider.id, errorMessage(e));
+    }
+  }
+
+  yield UNAVAILABLE_MESSAGE;
+}
+
+// One source per section, in retrieval order
+export function chatSources(chunks: Chunk[]): ChatSource[] {
+  const sources: ChatSource[] = [];
+  for (const c of chunks) {
+    if (sources.some(s => s.newsletterId === c.newsletterId && s.sectionId === c.sectionId)) continue;
+    sources.push({
+      title: c.newsletterTitle,
+      section: c.title !== c.newsletterTitle ? c.title : null,
+      newsletterId: c.newsletterId,
+      sectionId: c.sectionId,
+    });
+  }
+  return sources;
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { InvalidChatError } from './chats';
+import { UnknownCorpusError } from './corpus';
+import { ProviderConfigError } from './providers';
+import { IndexUnavailableError } from './search-index';
+
+// Error responses from the API routes: a stable code the client can switch on
+// and a message that is safe to show. Provider and internal errors are logged
+// on the server and never passed through.
+
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'invalid_request'
+  | 'query_too_long'
+  | 'payload_too_large'
+  | 'unauthorized'
+  | 'not_found'
+  | 'rate_limited'
+  | 'budget_exceeded'
+  | 'index_unavailable'
+  | 'provider_unavailable'
+  | 'internal_error';
+
+export interface ApiErrorBody {
+  error: { code: ApiErrorCode; message: string };
+}
+
+export class ApiError extends Error {
+  constructor(
+    readonly code: ApiErrorCode,
+    readonly status: number,
+    message: string,
+    readonly retryAfterSeconds?: number,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof InvalidChatError) return new ApiError('invalid_request', 400, error.message);
+  if (error instanceof UnknownCorpusError) return new ApiError('not_found', 404, error.message);
+  if (error instanceof IndexUnavailableError) {
+    return new ApiError('index_unavailable', 503, 'The search index is not available right now. Please try again later.');
+  }
+  if (error instanceof ProviderConfigError) {
+    return new ApiError('provider_unavailable', 503, 'The AI service is not configured. Please try again later.');
+  }
+  return new ApiError('internal_error', 500, 'Something went wrong. Please try again.');
+}
+
+export function errorResponse(error: unknown): NextResponse<ApiErrorBody> {
+  const { code, status, message, retryAfterSeconds } = toApiError(error);
+  const headers: Record<string, string> = {};
+  if (retryAfterSeconds !== undefined) headers['Retry-After'] = String(retryAfterSeconds);
+  return NextResponse.json({ error: { code, message } }, { status, headers });
+}
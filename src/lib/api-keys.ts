@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import { ApiError } from './api-error';
+import { getRateLimiter } from './rate-limit';
+
+// The programmatic APIs (/api/search, /v1/chat/completions, /api/mcp) only
+// exist when API_KEYS is set: a comma-separated list of keys, each sent as a
+// bearer token. Rotating a key means adding the new one, then removing the old.
+
+function configuredKeys(): string[] {
+  return (process.env.API_KEYS ?? '').split(',').map(k => k.trim()).filter(Boolean);
+}
+
+const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+
+// Returns a short id for the key (a hash prefix, never the key itself) for traces
+export function requireApiKey(request: Request): string {
+  const keys = configuredKeys();
+  if (keys.length === 0) throw new ApiError('not_found', 404, 'Not found.');
+
+  const given = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() ?? '';
+  const givenDigest = digest(given);
+  // Compare digests of every key so the check takes the same time whichever matched
+  const matched = keys.filter(key => crypto.timingSafeEqual(givenDigest, digest(key)));
+  if (matched.length === 0) throw new ApiError('unauthorized', 401, 'A valid API key is required.');
+  return givenDigest.toString('hex').slice(0, 8);
+}
+
+// Keys share the chat limiter, each with its own bucket
+export async function limitApiKey(keyId: string): Promise<void> {
+  const limit = await getRateLimiter()?.consume(`key:${keyId}`);
+  if (limit && !limit.allowed) {
+    throw new ApiError('rate_limited', 429, 'Too many requests for this API key. Please wait a moment.', Math.ceil(limit.retryAfterMs / 1000));
+  }
+}
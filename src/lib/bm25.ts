@@ -0,0 +1,63 @@
+import { tokenize } from './tokenize';
+
+// Okapi BM25 over an inverted index. Catches exact names ("MetaLab", "Dribbble",
+// book titles) that embeddings tend to blur.
+
+const K1 = 1.2;
+const B = 0.75;
+
+interface Posting {
+  doc: number;
+  tf: number;
+}
+
+export interface KeywordHit {
+  id: string;
+  score: number;
+}
+
+export class Bm25Index {
+  private ids: string[] = [];
+  private lengths: number[] = [];
+  private postings = new Map<string, Posting[]>();
+  private avgLength = 0;
+
+  constructor(docs: { id: string; text: string }[], private stopwords?: ReadonlySet<string>) {
+    docs.forEach((doc, i) => {
+      const tokens = tokenize(doc.text, stopwords);
+      this.ids.push(doc.id);
+      this.lengths.push(tokens.length);
+
+      const counts = new Map<string, number>();
+      for (const t of tokens) counts.set(t, (counts.get(t) ?? 0) + 1);
+      for (const [term, tf] of counts) {
+        const list = this.postings.get(term) ?? [];
+        list.push({ doc: i, tf });
+        this.postings.set(term, list);
+      }
+    });
+    this.avgLength = this.lengths.reduce((a, b) => a + b, 0) / Math.max(docs.length, 1);
+  }
+
+  // `allowed` restricts scoring to a subset of document ids (metadata filters)
+  search(query: string, limit: number, allowed?: Set<string>): KeywordHit[] {
+    const n = this.ids.length;
+    const scores = new Map<number, number>();
+
+    for (const term of new Set(tokenize(query, this.stopwords))) {
+      const list = this.postings.get(term);
+      if (!list) continue;
+      const idf = Math.log(1 + (n - list.length + 0.5) / (list.length + 0.5));
+      for (const { doc, tf } of list) {
+        if (allowed && !allowed.has(this.ids[doc])) continue;
+        const norm = tf + K1 * (1 - B + B * this.lengths[doc] / this.avgLength);
+        scores.set(doc, (scores.get(doc) ?? 0) + idf * (tf * (K1 + 1)) / norm);
+      }
+    }
+
+    return [...scores]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([doc, score]) => ({ id: this.ids[doc], score }));
+  }
+}
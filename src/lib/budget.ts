@@ -0,0 +1,68 @@
+import { ApiError } from './api-error';
+
+// Daily spending cap for the paid embedding and chat APIs. Cost is estimated
+// from the text sent to and received from the models (~4 characters per token),
+// which is close enough to stop a runaway bill.
+//
+//   DAILY_BUDGET_USD        stop answering once this much is spent in a UTC day (unset disables)
+//   COST_PER_1K_TOKENS_USD  blended price used for the estimate, default 0.002
+
+export interface BudgetStore {
+  spent(day: string): Promise<number>;
+  add(day: string, usd: number): Promise<void>;
+}
+
+export class MemoryBudgetStore implements BudgetStore {
+  private days = new Map<string, number>();
+
+  async spent(day: string): Promise<number> {
+    return this.days.get(day) ?? 0;
+  }
+
+  async add(day: string, usd: number): Promise<void> {
+    // Only today matters, so drop older days as we go
+    for (const d of this.days.keys()) if (d < day) this.days.delete(d);
+    this.days.set(day, (this.days.get(day) ?? 0) + usd);
+  }
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const today = (now: Date) => now.toISOString().slice(0, 10);
+
+export class BudgetGuard {
+  constructor(
+    private store: BudgetStore,
+    private dailyLimitUsd: number,
+    private costPer1kTokensUsd: number,
+  ) {}
+
+  // Throws once today's estimated spend has reached the limit
+  async check(now = new Date()): Promise<void> {
+    if ((await this.store.spent(today(now))) >= this.dailyLimitUsd) {
+      const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+      throw new ApiError(
+        'budget_exceeded',
+        503,
+        "Today's usage limit has been reached. Please come back tomorrow.",
+        Math.ceil((midnight - now.getTime()) / 1000),
+      );
+    }
+  }
+
+  async record(tokens: number, now = new Date()): Promise<void> {
+    await this.store.add(today(now), (tokens / 1000) * this.costPer1kTokensUsd);
+  }
+}
+
+let guard: BudgetGuard | null | undefined;
+
+export function getBudgetGuard(): BudgetGuard | null {
+  if (guard !== undefined) return guard;
+  const limit = Number(process.env.DAILY_BUDGET_USD?.trim());
+  const price = Number(process.env.COST_PER_1K_TOKENS_USD?.trim() || 0.002);
+  guard = Number.isFinite(limit) && limit > 0 ? new BudgetGuard(new MemoryBudgetStore(), limit, price) : null;
+  return guard;
+}
@@ -0,0 +1,265 @@
+import { sourceHref } from './chat-stream';
+import { InvalidChatError, migrateChat, newId, parseChat, type Chat, type ChatMessage } from './chats';
+import { formatDate, slugify } from './newsletters';
+
+// Conversations as files: Markdown and print-ready HTML for reading, and a
+// versioned JSON format (documented in the README) that imports back into the app.
+
+export const EXPORT_FORMAT = 'ask-andrew-chats';
+export const EXPORT_VERSION = 1;
+const MAX_IMPORT_CHATS = 500;
+
+export interface ChatExport {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exportedAt: string; // ISO timestamp
+  chats: Chat[];
+}
+
+export function exportFilename(chat: Chat | null, extension: string): string {
+  return `${(chat && slugify(chat.title)) || 'ask-andrew-chats'}.${extension}`;
+}
+
+// Share links belong to the server store the chat came from
+export function toJson(chats: Chat[]): string {
+  const file: ChatExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    chats: chats.map(chat => ({ ...chat, shareId: undefined })),
+  };
+  return JSON.stringify(file, null, 2) + '\n';
+}
+
+// Where a chat came from: links in exports point at the corpus's archive on this site
+export interface ExportSite {
+  origin: string;
+  name: string; // e.g. "Ask Andrew"
+  archivePath: string;
+}
+
+// Footnotes are numbered across the whole chat, one per newsletter section, so
+// the same passage cited in two answers gets one note.
+interface Footnote {
+  n: number;
+  title: string;
+  section: string | null;
+  date: string | null;
+  href: string | null;
+  passage: string | null;
+}
+
+interface ExportedAnswer {
+  question: string;
+  // Answer text split into runs; numbers are footnote references
+  parts: (string | number)[];
+  // Retrieved sections the answer didn't cite inline
+  uncited: number[];
+}
+
+function collect(chat: Chat, site: ExportSite) {
+  const footnotes: Footnote[] = [];
+  const byKey = new Map<string, Footnote>();
+  const note = (key: string, info: Omit<Footnote, 'n'>) => {
+    let found = byKey.get(key);
+    if (!found) {
+      found = { n: footnotes.length + 1, ...info };
+      footnotes.push(found);
+      byKey.set(key, found);
+    }
+    if (!found.passage && info.passage) found.passage = info.passage;
+    return found.n;
+  };
+  const absolute = (href: string | null) => (href ? new URL(href, site.origin).toString() : null);
+
+  const answers: ExportedAnswer[] = [];
+  chat.messages.forEach((m: ChatMessage, i) => {
+    // Failed requests have nothing worth keeping
+    if (m.role !== 'assistant' || m.error) return;
+    const cited = new Set<number>();
+    const parts: (string | number)[] = [];
+    // Markers take the space before them along, so notes sit right after the word
+    for (const piece of m.content.split(/(\s*\[\d{1,2}\])/)) {
+      const marker = piece.match(/^\s*\[(\d{1,2})\]$/);
+      if (!marker) {
+        if (piece) parts.push(piece);
+        continue;
+      }
+      // Markers the citation check couldn't verify are dropped, as they aren't evidence
+      const c = m.citations?.find(c => c.marker === Number(marker[1]));
+      if (!c) continue;
+      const n = note(`${c.newsletterId}#${c.sectionId}`, {
+        title: c.title,
+        section: c.section,
+        date: c.date,
+        href: absolute(sourceHref(c, site.archivePath)),
+        passage: c.passage,
+      });
+      cited.add(n);
+      parts.push(n);
+    }
+    const uncited = (m.sources ?? [])
+      .map(s => note(s.newsletterId ? `${s.newsletterId}#${s.sectionId ?? ''}` : s.title, {
+        title: s.title,
+        section: s.section ?? null,
+        date: null,
+        href: absolute(sourceHref(s, site.archivePath)),
+        passage: null,
+      }))
+      .filter((n, j, all) => !cited.has(n) && all.indexOf(n) === j);
+    const question = chat.messages[i - 1]?.role === 'user' ? chat.messages[i - 1].content : '';
+    answers.push({ question, parts, uncited });
+  });
+  return { answers, footnotes };
+}
+
+function askedOn(chat: Chat): string {
+  return new Date(chat.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function noteLabel(f: Footnote): string {
+  return [f.section ? `${f.title} — ${f.section}` : f.title, f.date && formatDate(f.date)].filter(Boolean).join(', ');
+}
+
+export function toMarkdown(chat: Chat, site: ExportSite): string {
+  const { answers, footnotes } = collect(chat, site);
+  const lines = [`# ${chat.title}`, '', `*Asked on ${askedOn(chat)} · ${site.name}*`, ''];
+
+  for (const a of answers) {
+    if (a.question) lines.push(`## ${a.question.replace(/\s+/g, ' ')}`, '');
+    lines.push(a.parts.map(p => (typeof p === 'number' ? `[^${p}]` : p)).join('').trim(), '');
+    if (a.uncited.length > 0) lines.push(`Sources: ${a.uncited.map(n => `[^${n}]`).join(' ')}`, '');
+  }
+
+  if (footnotes.length > 0) {
+    lines.push('---', '');
+    for (const f of footnotes) {
+      const label = f.href ? `[${noteLabel(f)}](${f.href})` : noteLabel(f);
+      const quote = f.passage ? ` “${f.passage.replace(/\s+/g, ' ').trim()}”` : '';
+      lines.push(`[^${f.n}]: ${label}.${quote}`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch]!);
+}
+
+function paragraphs(html: string): string {
+  return html
+    .split(/\n{2,}/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .map(p => `<p>${p.replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+}
+
+const PRINT_STYLES = `
+  @page { margin: 2cm; }
+  body { font: 11.5pt/1.6 Georgia, 'Times New Roman', serif; color: #111; max-width: 42rem; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.9em; line-height: 1.2; margin-bottom: 0.2em; }
+  h2 { font-size: 1.2em; margin: 2em 0 0.6em; break-after: avoid; }
+  .meta, .sources { color: #666; font-size: 0.9em; }
+  sup a { text-decoration: none; }
+  a { color: inherit; }
+  .notes { border-top: 1px solid #ccc; margin-top: 3em; padding-top: 1em; font-size: 0.9em; }
+  .notes li { margin-bottom: 0.6em; break-inside: avoid; }
+  .notes blockquote { margin: 0.3em 0 0; color: #555; font-style: italic; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+// A standalone page meant for the browser's "Save as PDF"
+export function toHtml(chat: Chat, site: ExportSite): string {
+  const { answers, footnotes } = collect(chat, site);
+  const ref = (n: number) => `<sup><a href="#note-${n}">${n}</a></sup>`;
+
+  const body = answers.map(a => [
+    a.question ? `<h2>${escapeHtml(a.question)}</h2>` : '',
+    paragraphs(a.parts.map(p => (typeof p === 'number' ? ref(p) : escapeHtml(p))).join('')),
+    a.uncited.length > 0 ? `<p class="sources">Sources: ${a.uncited.map(ref).join(' ')}</p>` : '',
+  ].filter(Boolean).join('\n'));
+
+  const notes = footnotes.map(f => {
+    const label = f.href ? `<a href="${escapeHtml(f.href)}">${escapeHtml(noteLabel(f))}</a>` : escapeHtml(noteLabel(f));
+    const quote = f.passage ? `<blockquote>${escapeHtml(f.passage.replace(/\s+/g, ' ').trim())}</blockquote>` : '';
+    return `<li id="note-${f.n}">${label}${quote}</li>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(chat.title)} | ${escapeHtml(site.name)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(chat.title)}</h1>
+<p class="meta">Asked on ${askedOn(chat)} · ${escapeHtml(site.name)}</p>
+${body.join('\n')}
+${notes.length > 0 ? `<ol class="notes">\n${notes.join('\n')}\n</ol>` : ''}
+</body>
+</html>
+`;
+}
+
+// Read an exported file. Throws InvalidChatError naming the first problem.
+export function parseChatExport(text: string): Chat[] {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new InvalidChatError('The file is not valid JSON.');
+  }
+  const raw = file as Partial<ChatExport> | null;
+  if (!raw || typeof raw !== 'object' || raw.format !== EXPORT_FORMAT) {
+    throw new InvalidChatError('This is not an Ask Andrew chat export.');
+  }
+  if (raw.version !== EXPORT_VERSION) throw new InvalidChatError(`Unsupported export version: ${String(raw.version)}.`);
+  if (!Array.isArray(raw.chats) || raw.chats.length > MAX_IMPORT_CHATS) {
+    throw new InvalidChatError(`\`chats\` must be an array of at most ${MAX_IMPORT_CHATS} chats.`);
+  }
+
+  return raw.chats.map((chat, i) => {
+    try {
+      return migrateChat(parseChat(chat));
+    } catch (e) {
+      if (e instanceof InvalidChatError) throw new InvalidChatError(`Chat ${i + 1}: ${e.message}`);
+      throw e;
+    }
+  });
+}
+
+export interface MergeResult {
+  chats: Chat[];
+  added: Chat[];
+  skipped: number;
+}
+
+// Add imported chats to the list. A chat that is already there unchanged is
+// skipped; one whose id is taken by a different chat gets a fresh id.
+const fingerprint = (chat: Chat) => JSON.stringify(chat.messages.map(m => [m.role, m.id, m.content]));
+
+export function mergeChats(existing: Chat[], imported: Chat[]): MergeResult {
+  const byId = new Map(existing.map(c => [c.id, c]));
+  const added: Chat[] = [];
+  let skipped = 0;
+
+  for (const chat of imported) {
+    const current = byId.get(chat.id);
+    if (current && fingerprint(current) === fingerprint(chat)) {
+      skipped++;
+      continue;
+    }
+    const fresh = current ? { ...chat, id: newId() } : chat;
+    byId.set(fresh.id, fresh);
+    added.push(fresh);
+  }
+
+  return {
+    chats: [...existing, ...added].sort((a, b) => b.createdAt - a.createdAt),
+    added,
+    skipped,
+  };
+}
@@ -0,0 +1,89 @@
+import type { Chat } from './chats';
+
+// Sidebar helpers: full-text search over stored chats, folders and grouping by
+// how recently each chat was used.
+
+export function lastActive(chat: Chat): number {
+  return chat.updatedAt ?? chat.createdAt;
+}
+
+export function chatFolders(chats: Chat[]): string[] {
+  return [...new Set(chats.map(c => c.folder).filter((f): f is string => !!f))].sort((a, b) => a.localeCompare(b));
+}
+
+export interface ChatGroup {
+  label: string;
+  chats: Chat[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Pinned chats first, then by last activity: Today, Yesterday, Last 7 days,
+// Last 30 days, then one group per month
+export function groupChats(chats: Chat[], now = Date.now()): ChatGroup[] {
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+  const today = midnight.getTime();
+
+  const label = (time: number) => {
+    if (time >= today) return 'Today';
+    if (time >= today - DAY_MS) return 'Yesterday';
+    if (time >= today - 7 * DAY_MS) return 'Last 7 days';
+    if (time >= today - 30 * DAY_MS) return 'Last 30 days';
+    return new Date(time).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  };
+
+  const groups: ChatGroup[] = [];
+  const sorted = [...chats].sort((a, b) => lastActive(b) - lastActive(a));
+  const pinned = sorted.filter(c => c.pinned);
+  if (pinned.length > 0) groups.push({ label: 'Pinned', chats: pinned });
+
+  for (const chat of sorted.filter(c => !c.pinned)) {
+    const name = label(lastActive(chat));
+    const last = groups[groups.length - 1];
+    if (last?.label === name) last.chats.push(chat);
+    else groups.push({ label: name, chats: [chat] });
+  }
+  return groups;
+}
+
+export interface ChatMatch {
+  chat: Chat;
+  snippet: string | null; // text around the first match in a message, when the title alone doesn't match
+}
+
+const SNIPPET_CHARS = 80;
+
+function snippetAround(text: string, index: number, length: number): string {
+  // Cut at word boundaries where there is one between the edge and the match
+  let start = Math.max(0, index - SNIPPET_CHARS / 2);
+  let end = Math.min(text.length, index + length + SNIPPET_CHARS / 2);
+  const space = text.indexOf(' ', start);
+  if (start > 0 && space >= 0 && space < index) start = space + 1;
+  const lastSpace = text.lastIndexOf(' ', end);
+  if (end < text.length && lastSpace > index + length) end = lastSpace;
+  const flat = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${flat}${end < text.length ? '…' : ''}`;
+}
+
+// Chats containing every word of the query, in the title or any message, most recent first
+export function searchChats(chats: Chat[], query: string): ChatMatch[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const matches: ChatMatch[] = [];
+  for (const chat of chats) {
+    const title = chat.title.toLowerCase();
+    const texts = chat.messages.map(m => m.content.toLowerCase());
+    if (!terms.every(t => title.includes(t) || texts.some(text => text.includes(t)))) continue;
+
+    let snippet: string | null = null;
+    if (!terms.every(t => title.includes(t))) {
+      const term = terms.find(t => !title.includes(t))!;
+      const i = texts.findIndex(text => text.includes(term));
+      snippet = snippetAround(chat.messages[i].content, texts[i].indexOf(term), term.length);
+    }
+    matches.push({ chat, snippet });
+  }
+  return matches.sort((a, b) => lastActive(b.chat) - lastActive(a.chat));
+}
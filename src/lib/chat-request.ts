@@ -0,0 +1,68 @@
+import { ApiError } from './api-error';
+import { parseHistory, trimHistory, type HistoryMessage } from './conversation';
+import { parseFilters, type SearchFilters } from './filters';
+
+// Validation for the /api/chat request body. Shape errors are rejected outright;
+// within a valid shape, malformed history messages and filters are dropped as before.
+// The body limit applies to the other JSON APIs too, and the question limit
+// to search and completions.
+
+export const MAX_QUERY_CHARS = 1000;
+const MAX_BODY_BYTES = 64 * 1024;
+export const MAX_HISTORY_ITEMS = 100;
+
+export interface ChatRequestBody {
+  query: string;
+  history: HistoryMessage[];
+  filters: SearchFilters;
+}
+
+const invalid = (message: string) => new ApiError('invalid_request', 400, message);
+
+// The body as a JSON object, within the size limit
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+  const length = Number(request.headers.get('content-length'));
+  if (length > MAX_BODY_BYTES) throw new ApiError('payload_too_large', 413, 'Request body is too large.');
+
+  const raw = await request.text();
+  if (new TextEncoder().encode(raw).length > MAX_BODY_BYTES) {
+    throw new ApiError('payload_too_large', 413, 'Request body is too large.');
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new ApiError('invalid_json', 400, 'Request body must be valid JSON.');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw invalid('Request body must be a JSON object.');
+  return body as Record<string, unknown>;
+}
+
+export function parseQuery(query: unknown, field = 'query'): string {
+  if (typeof query !== 'string') throw invalid(`\`${field}\` must be a string.`);
+  const trimmed = query.trim();
+  if (!trimmed) throw invalid(`\`${field}\` must not be empty.`);
+  if (trimmed.length > MAX_QUERY_CHARS) {
+    throw new ApiError('query_too_long', 400, `Questions are limited to ${MAX_QUERY_CHARS} characters.`);
+  }
+  return trimmed;
+}
+
+export async function parseChatRequest(request: Request): Promise<ChatRequestBody> {
+  const { query, history, filters } = await readJsonBody(request);
+  const trimmed = parseQuery(query);
+
+  if (history !== undefined && (!Array.isArray(history) || history.length > MAX_HISTORY_ITEMS)) {
+    throw invalid(`\`history\` must be an array of at most ${MAX_HISTORY_ITEMS} messages.`);
+  }
+  if (filters !== undefined && filters !== null && (typeof filters !== 'object' || Array.isArray(filters))) {
+    throw invalid('`filters` must be an object.');
+  }
+
+  return {
+    query: trimmed,
+    history: trimHistory(parseHistory(history)),
+    filters: parseFilters(filters),
+  };
+}
@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ApiError } from './api-error';
+import type { Chat, ChatMessage, SharedChat } from './chats';
+import { clientIp, getRateLimiter } from './rate-limit';
+import { getUserId } from './session';
+
+// Optional server-side chat history. Off unless CHAT_STORE=file and
+// SESSION_SECRET are set; the page then keeps chats in localStorage only.
+// The file store keeps one JSON file per anonymous user under CHAT_STORE_DIR
+// (default .data), plus one file per shared snapshot.
+
+export interface ChatStore {
+  list(userId: string): Promise<Chat[]>;
+  get(userId: string, chatId: string): Promise<Chat | null>;
+  save(userId: string, chat: Chat): Promise<void>;
+  append(userId: string, chatId: string, messages: ChatMessage[]): Promise<boolean>;
+  delete(userId: string, chatId: string): Promise<boolean>;
+  share(userId: string, chatId: string): Promise<string | null>;
+  unshare(userId: string, chatId: string): Promise<boolean>;
+  getShared(shareId: string): Promise<SharedChat | null>;
+}
+
+const MAX_CHATS_PER_USER = 200;
+
+type Update<T> = { chats: Chat[]; result: T };
+
+export class FileChatStore implements ChatStore {
+  // Writes to the same file are queued so concurrent appends don't drop each other
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(private dir: string) {}
+
+  private userFile(userId: string) {
+    return path.join(this.dir, 'chats', `${userId}.json`);
+  }
+
+  private shareFile(shareId: string) {
+    return path.join(this.dir, 'shares', `${shareId}.json`);
+  }
+
+  private async read<T>(file: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+
+  private async remove(file: string) {
+    await fs.promises.rm(file, { force: true });
+  }
+
+  private async write(file: string, value: unknown) {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(value));
+    await fs.promises.rename(tmp, file);
+  }
+
+  private update<T>(userId: string, fn: (chats: Chat[]) => Update<T> | Promise<Update<T>>): Promise<T> {
+    const file = this.userFile(userId);
+    const run = (this.queues.get(file) ?? Promise.resolve()).then(async () => {
+      const { chats, result } = await fn(await this.list(userId));
+      await this.write(file, chats);
+      return result;
+    });
+    const settled = run.catch(() => {});
+    this.queues.set(file, settled);
+    settled.then(() => {
+      if (this.queues.get(file) === settled) this.queues.delete(file);
+    });
+    return run;
+  }
+
+  // Most recently created first, like the sidebar
+  async list(userId: string): Promise<Chat[]> {
+    return (await this.read<Chat[]>(this.userFile(userId))) ?? [];
+  }
+
+  async get(userId: string, chatId: string): Promise<Chat | null> {
+    return (await this.list(userId)).find(c => c.id === chatId) ?? null;
+  }
+
+  // The share link stays with the chat; clients can't set it
+  async save(userId: string, chat: Chat): Promise<void> {
+    await this.update(userId, chats => {
+      const shareId = chats.find(c => c.id === chat.id)?.shareId;
+      const rest = chats.filter(c => c.id !== chat.id);
+      const next = [...rest, { ...chat, shareId }].sort((a, b) => b.createdAt - a.createdAt).slice(0, MAX_CHATS_PER_USER);
+      return { chats: next, result: undefined };
+    });
+  }
+
+  async append(userId: string, chatId: string, messages: ChatMessage[]): Promise<boolean> {
+    return this.update(userId, chats => {
+      const chat = chats.find(c => c.id === chatId);
+      if (!chat) return { chats, result: false };
+      const updated = { ...chat, messages: [...chat.messages, ...messages], updatedAt: Date.now() };
+      checkChatSize(updated);
+      return { chats: chats.map(c => (c.id === chatId ? updated : c)), result: true };
+    });
+  }
+
+  // A deleted chat's share link stops working too
+  async delete(userId: string, chatId: string): Promise<boolean> {
+    return this.update(userId, async chats => {
+      const chat = chats.find(c => c.id === chatId);
+      if (!chat) return { chats, result: false };
+      if (chat.shareId) await this.remove(this.shareFile(chat.shareId));
+      return { chats: chats.filter(c => c.id !== chatId), result: true };
+    });
+  }
+
+  // Snapshots the chat as it is now; sharing again refreshes the same link
+  async share(userId: string, chatId: string): Promise<string | null> {
+    return this.update(userId, async chats => {
+      const chat = chats.find(c => c.id === chatId);
+      if (!chat) return { chats, result: null };
+
+      const shareId = chat.shareId ?? crypto.randomBytes(12).toString('base64url');
+      const snapshot: SharedChat = {
+        id: shareId,
+        title: chat.title,
+        // Feedback and trace ids stay private to the owner
+        messages: chat.messages.map(m => ({ ...m, feedback: undefined, traceId: undefined })),
+        createdAt: chat.createdAt,
+        sharedAt: Date.now(),
+        corpus: chat.corpus,
+      };
+      await this.write(this.shareFile(shareId), snapshot);
+      return { chats: chats.map(c => (c.id === chatId ? { ...c, shareId } : c)), result: shareId };
+    });
+  }
+
+  // Removes the snapshot; sharing again later issues a new link
+  async unshare(userId: string, chatId: string): Promise<boolean> {
+    return this.update(userId, async chats => {
+      const chat = chats.find(c => c.id === chatId);
+      if (!chat) return { chats, result: false };
+      if (chat.shareId) await this.remove(this.shareFile(chat.shareId));
+      return { chats: chats.map(c => (c.id === chatId ? { ...c, shareId: undefined } : c)), result: true };
+    });
+  }
+
+  async getShared(shareId: string): Promise<SharedChat | null> {
+    if (!SHARE_ID.test(shareId)) return null;
+    return this.read<SharedChat>(this.shareFile(shareId));
+  }
+}
+
+const SHARE_ID = /^[A-Za-z0-9_-]{16}$/;
+const MAX_CHAT_BYTES = 2_000_000;
+
+export async function readChatBody(request: Request): Promise<unknown> {
+  const length = Number(request.headers.get('content-length'));
+  if (length > MAX_CHAT_BYTES) throw new ApiError('payload_too_large', 413, 'Request body is too large.');
+
+  const raw = await request.text();
+  if (Buffer.byteLength(raw) > MAX_CHAT_BYTES) throw new ApiError('payload_too_large', 413, 'Request body is too large.');
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new ApiError('invalid_json', 400, 'Request body must be valid JSON.');
+  }
+}
+
+// Appends can grow a stored chat past what a single request may carry
+export function checkChatSize(chat: Chat) {
+  if (Buffer.byteLength(JSON.stringify(chat)) > MAX_CHAT_BYTES) {
+    throw new ApiError('payload_too_large', 413, 'This conversation is too long to save.');
+  }
+}
+
+let store: ChatStore | null | undefined;
+
+export function getChatStore(): ChatStore | null {
+  if (store !== undefined) return store;
+  const kind = process.env.CHAT_STORE?.trim();
+  if (kind !== 'file' || !process.env.SESSION_SECRET?.trim()) return (store = null);
+  return (store = new FileChatStore(process.env.CHAT_STORE_DIR?.trim() || path.join(process.cwd(), '.data')));
+}
+
+// The store and the caller's anonymous user id. Reading never creates an
+// identity; writing issues the cookie on first use.
+export async function getChatSession(create: boolean): Promise<{ store: ChatStore; userId: string | null }> {
+  const chatStore = getChatStore();
+  if (!chatStore) throw new ApiError('not_found', 404, 'Server chat history is not enabled.');
+  const userId = await getUserId(process.env.SESSION_SECRET!.trim(), create);
+  return { store: chatStore, userId };
+}
+
+// Saves that may issue a cookie and start a user's file are limited per client
+// IP, so a script can't fill the disk with identities
+export async function limitChatWrites(request: Request) {
+  const limit = await getRateLimiter()?.consume(`chats:${clientIp(request)}`);
+  if (limit && !limit.allowed) {
+    throw new ApiError('rate_limited', 429, 'Too many chats saved at once. Please wait a moment.', Math.ceil(limit.retryAfterMs / 1000));
+  }
+}
@@ -0,0 +1,82 @@
+// Wire format for /api/chat: newline-delimited JSON events.
+// The search query, sources and retrieval scores (for debugging) are sent first,
+// then answer text as it is generated, then the grounding check, the verified
+// citations and a final event.
+
+import type { ApiErrorBody } from './api-error';
+import type { Citation } from './citations';
+import type { GroundingReport } from './grounding';
+import type { RetrievalScores } from './retrieval';
+
+// A retrieved section, linked to its place in the newsletter reader.
+// Chats saved before sources were structured only have a title.
+export interface ChatSource {
+  title: string;
+  section?: string | null;
+  newsletterId?: string;
+  sectionId?: string;
+}
+
+export function sourceHref(source: ChatSource, archivePath = '/newsletters'): string | null {
+  if (!source.newsletterId) return null;
+  return `${archivePath}/${source.newsletterId}${source.sectionId ? `#${source.sectionId}` : ''}`;
+}
+
+export interface RetrievalResult {
+  chunkId: string;
+  newsletterId: string;
+  scores: RetrievalScores;
+}
+
+export type ChatStreamEvent =
+  | { type: 'query'; searchQuery: string }
+  | { type: 'sources'; sources: ChatSource[] }
+  | { type: 'retrieval'; results: RetrievalResult[] }
+  | { type: 'text'; delta: string }
+  | { type: 'grounding'; grounding: GroundingReport }
+  | { type: 'citations'; citations: Citation[] }
+  | { type: 'done'; cached?: 'exact' | 'semantic' }
+  | { type: 'error'; error: string };
+
+const encoder = new TextEncoder();
+
+export function encodeChatEvent(event: ChatStreamEvent): Uint8Array {
+  return encoder.encode(JSON.stringify(event) + '\n');
+}
+
+// Parse an NDJSON response body into events (used by the page)
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) yield JSON.parse(line) as ChatStreamEvent;
+      }
+    }
+
+    const rest = (buffer + decoder.decode()).trim();
+    if (rest) yield JSON.parse(rest) as ChatStreamEvent;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// The safe message from a non-streaming error response, if it has one
+export async function readErrorMessage(res: Response): Promise<string | null> {
+  try {
+    const body = (await res.json()) as Partial<ApiErrorBody>;
+    return body.error?.message ?? null;
+  } catch {
+    return null;
+  }
+}
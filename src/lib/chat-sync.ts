@@ -0,0 +1,62 @@
+import type { Chat, ChatMessage } from './chats';
+
+// Browser side of the optional server chat store (/api/chats). Every call
+// degrades to local-only: the page keeps its localStorage copy either way.
+
+// Set once this browser's localStorage chats have been uploaded
+export const SYNCED_KEY = 'ask-andrew-chats-synced';
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+async function expectOk(res: Response) {
+  if (!res.ok) throw new Error(`Chat sync failed: ${res.status}`);
+  return res;
+}
+
+// The caller's saved chats, or null when the server store is turned off
+export async function fetchServerChats(): Promise<Chat[] | null> {
+  const res = await fetch('/api/chats', { cache: 'no-store' });
+  if (res.status === 404) return null;
+  return (await (await expectOk(res)).json()).chats;
+}
+
+export async function saveServerChat(chat: Chat): Promise<void> {
+  await expectOk(await fetch(`/api/chats/${encodeURIComponent(chat.id)}`, {
+    method: 'PUT',
+    headers: JSON_HEADERS,
+    body: JSON.stringify(chat),
+  }));
+}
+
+// Append the newest messages; chats the server hasn't seen yet are saved whole
+export async function pushServerMessages(chat: Chat, messages: ChatMessage[]): Promise<void> {
+  const res = await fetch(`/api/chats/${encodeURIComponent(chat.id)}/messages`, {
+    method: 'POST',
+    headers: JSON_HEADERS,
+    body: JSON.stringify({ messages }),
+  });
+  if (res.status === 404) return saveServerChat(chat);
+  await expectOk(res);
+}
+
+export async function deleteServerChat(chatId: string): Promise<void> {
+  const res = await fetch(`/api/chats/${encodeURIComponent(chatId)}`, { method: 'DELETE' });
+  if (res.status !== 404) await expectOk(res);
+}
+
+// Upload local chats the server doesn't have yet, then return the merged list
+export async function migrateLocalChats(local: Chat[], server: Chat[]): Promise<Chat[]> {
+  const known = new Set(server.map(c => c.id));
+  const missing = local.filter(c => !known.has(c.id));
+  for (const chat of missing) await saveServerChat(chat);
+  return [...server, ...missing].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function shareChat(chatId: string): Promise<{ shareId: string; url: string }> {
+  const res = await fetch(`/api/chats/${encodeURIComponent(chatId)}/share`, { method: 'POST' });
+  return (await expectOk(res)).json();
+}
+
+export async function unshareChat(chatId: string): Promise<void> {
+  await expectOk(await fetch(`/api/chats/${encodeURIComponent(chatId)}/share`, { method: 'DELETE' }));
+}
@@ -0,0 +1,207 @@
+import type { ChatSource } from './chat-stream';
+import type { Citation } from './citations';
+import type { FeedbackRating } from './feedback';
+import { parseFilters, type SearchFilters } from './filters';
+import type { GroundingReport } from './grounding';
+
+// Conversations as the chat page keeps them, in localStorage and (optionally) on the server
+
+export interface MessageFeedback {
+  id: string;
+  rating: FeedbackRating;
+  comment?: string;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  sources?: ChatSource[];
+  searchQuery?: string;
+  citations?: Citation[];
+  grounding?: GroundingReport;
+  chunkIds?: string[];
+  traceId?: string;
+  feedback?: MessageFeedback;
+  error?: boolean; // the request failed; left out of follow-up history and feedback
+  id: string;
+}
+
+export interface Chat {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt?: number; // last question asked; older chats only have createdAt
+  filters?: SearchFilters;
+  pinned?: boolean;
+  folder?: string;
+  corpus?: string; // the corpus it was asked of; unset means the default one
+  shareId?: string; // set by the server once the chat has been shared
+}
+
+// A read-only snapshot behind a /c/[id] link
+export interface SharedChat {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  sharedAt: number;
+  corpus?: string;
+}
+
+export const STORAGE_KEY = 'ask-andrew-chats';
+
+// Random ids for chats and messages. Works outside secure contexts, where
+// crypto.randomUUID is missing.
+export function newId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(12)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Older chats stored sources as plain title strings, and gave every failed
+// answer the id 'error'. Message ids are made unique within the chat.
+export function migrateChat(chat: Chat): Chat {
+  const seen = new Set<string>();
+  return {
+    ...chat,
+    messages: chat.messages.map(m => {
+      const legacyError = m.id === 'error';
+      const id = legacyError || seen.has(m.id) ? newId() : m.id;
+      seen.add(id);
+      return {
+        ...m,
+        id,
+        ...(legacyError ? { error: true } : {}),
+        sources: m.sources?.map(src => (typeof src === 'string' ? { title: src } : src)),
+      };
+    }),
+  };
+}
+
+// Chats come from the browser, the server store or an imported file, so
+// everything is checked before it's stored, imported or shown to someone else
+// on a /c/[id] page.
+
+const CHAT_ID = /^[A-Za-z0-9_-]{1,64}$/;
+const SLUG = /^[a-z0-9-]{1,120}$/;
+export const MAX_TITLE_CHARS = 200;
+export const MAX_FOLDER_CHARS = 40;
+const MAX_MESSAGES = 500;
+const MAX_CONTENT_CHARS = 20_000;
+
+export class InvalidChatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidChatError';
+  }
+}
+
+const invalid = (message: string) => new InvalidChatError(message);
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isString(value: unknown, max = MAX_CONTENT_CHARS): value is string {
+  return typeof value === 'string' && value.length <= max;
+}
+
+function optional<T>(value: unknown, check: (v: unknown) => v is T): T | undefined {
+  return value === undefined || value === null ? undefined : check(value) ? value : undefined;
+}
+
+export function isChatId(id: string): boolean {
+  return CHAT_ID.test(id);
+}
+
+function parseSources(value: unknown): ChatMessage['sources'] {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter(isObject).filter(s => isString(s.title, 500)).slice(0, 20).map(s => ({
+    title: s.title as string,
+    section: optional(s.section, (v): v is string => isString(v, 500)) ?? null,
+    newsletterId: optional(s.newsletterId, (v): v is string => typeof v === 'string' && SLUG.test(v)),
+    sectionId: optional(s.sectionId, (v): v is string => typeof v === 'string' && SLUG.test(v)),
+  }));
+}
+
+function isSpan(value: unknown): boolean {
+  return isObject(value) && Number.isInteger(value.start) && Number.isInteger(value.end);
+}
+
+function parseCitations(value: unknown): ChatMessage['citations'] {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter(c =>
+    isObject(c) &&
+    Number.isInteger(c.marker) &&
+    typeof c.newsletterId === 'string' && SLUG.test(c.newsletterId) &&
+    typeof c.sectionId === 'string' && SLUG.test(c.sectionId) &&
+    isString(c.chunkId, 64) && isString(c.title, 500) && isString(c.date, 10) && isString(c.passage) &&
+    (c.section === null || isString(c.section, 500)) &&
+    Array.isArray(c.spans) && c.spans.every(isSpan),
+  ).slice(0, 20) as ChatMessage['citations'];
+}
+
+function parseGrounding(value: unknown): ChatMessage['grounding'] {
+  if (
+    !isObject(value) ||
+    typeof value.score !== 'number' ||
+    !Array.isArray(value.claims) ||
+    !value.claims.every(c => isSpan(c) && typeof (c as Fields).supported === 'boolean') ||
+    (value.revised !== undefined && !isString(value.revised))
+  ) {
+    return undefined;
+  }
+  return value as unknown as ChatMessage['grounding'];
+}
+
+function parseMessage(value: unknown): ChatMessage {
+  if (!isObject(value)) throw invalid('Each message must be an object.');
+  if (value.role !== 'user' && value.role !== 'assistant') throw invalid('Message `role` must be "user" or "assistant".');
+  if (typeof value.id !== 'string' || !CHAT_ID.test(value.id)) throw invalid('Each message needs a valid `id`.');
+  if (!isString(value.content)) throw invalid(`Message \`content\` must be a string of at most ${MAX_CONTENT_CHARS} characters.`);
+
+  const rated = isObject(value.feedback) ? value.feedback : {};
+  const rating = rated.rating === 'up' || rated.rating === 'down' ? rated.rating : null;
+  const feedback: ChatMessage['feedback'] = isString(rated.id, 64) && rating
+    ? { id: rated.id, rating, comment: optional(rated.comment, (v): v is string => isString(v, 2000)) }
+    : undefined;
+
+  return {
+    role: value.role,
+    content: value.content,
+    id: value.id,
+    sources: parseSources(value.sources),
+    searchQuery: optional(value.searchQuery, (v): v is string => isString(v, 1000)),
+    citations: parseCitations(value.citations),
+    grounding: parseGrounding(value.grounding),
+    chunkIds: optional(value.chunkIds, (v): v is string[] => Array.isArray(v) && v.length <= 20 && v.every(id => isString(id, 64))),
+    traceId: optional(value.traceId, (v): v is string => isString(v, 64)),
+    feedback,
+    error: value.error === true || undefined,
+  };
+}
+
+export function parseMessages(value: unknown): ChatMessage[] {
+  if (!Array.isArray(value) || value.length > MAX_MESSAGES) throw invalid(`\`messages\` must be an array of at most ${MAX_MESSAGES} messages.`);
+  return value.map(parseMessage);
+}
+
+export function parseChat(body: unknown): Chat {
+  if (!isObject(body)) throw invalid('A chat must be a JSON object.');
+  if (typeof body.id !== 'string' || !CHAT_ID.test(body.id)) throw invalid('`id` must be 1-64 letters, digits, "-" or "_".');
+  if (!isString(body.title, MAX_TITLE_CHARS)) throw invalid(`\`title\` must be a string of at most ${MAX_TITLE_CHARS} characters.`);
+  if (typeof body.createdAt !== 'number' || !Number.isFinite(body.createdAt)) throw invalid('`createdAt` must be a timestamp in milliseconds.');
+
+  return {
+    id: body.id,
+    title: body.title,
+    messages: parseMessages(body.messages),
+    createdAt: body.createdAt,
+    updatedAt: optional(body.updatedAt, (v): v is number => typeof v === 'number' && Number.isFinite(v)),
+    filters: parseFilters(body.filters),
+    pinned: body.pinned === true || undefined,
+    folder: optional(body.folder, (v): v is string => isString(v, MAX_FOLDER_CHARS) && v.trim().length > 0)?.trim(),
+    corpus: optional(body.corpus, (v): v is string => typeof v === 'string' && SLUG.test(v)),
+  };
+}
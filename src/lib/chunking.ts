@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import { sectionText, type Newsletter, type NewsletterSource } from './newsletters';
+
+export interface Chunk {
+  id: string;
+  newsletterId: string;
+  newsletterTitle: string;
+  sectionId: string;
+  title: string; // section heading, or the newsletter title for untitled sections
+  date: string; // ISO yyyy-mm-dd
+  text: string;
+  topics: string[]; // taxonomy ids assigned at ingest (see topics.ts)
+  source?: NewsletterSource; // missing in indexes built before sources were recorded
+}
+
+export type RawChunk = Omit<Chunk, 'topics'>;
+
+// Bump whenever parsing or chunking changes, so the index manifest shows it is stale
+export const CHUNKER_VERSION = 2;
+
+const MAX_CHUNK_CHARS = 800;
+const MIN_CHUNK_CHARS = 100;
+
+// Stable chunk id derived from where it lives and what it says, so citations survive re-embedding
+export function chunkId(newsletterId: string, sectionId: string, text: string): string {
+  return crypto.createHash('sha1').update(`${newsletterId}\n${sectionId}\n${text}`).digest('hex').slice(0, 12);
+}
+
+// Group each section's paragraphs into ~800 char chunks. Chunks never cross
+// a section boundary, so every chunk belongs to exactly one heading.
+export function chunkNewsletters(newsletters: Newsletter[]): RawChunk[] {
+  const result: RawChunk[] = [];
+
+  for (const nl of newsletters) {
+    for (const section of nl.sections) {
+      const base = {
+        newsletterId: nl.id,
+        newsletterTitle: nl.title,
+        sectionId: section.id,
+        title: section.heading ?? nl.title,
+        date: nl.date,
+        source: nl.source,
+      };
+      const push = (text: string) => result.push({ ...base, id: chunkId(nl.id, section.id, text), text });
+
+      // Short sections (a single link or one-liner) become one chunk if they say anything at all
+      if (sectionText(section).length < MIN_CHUNK_CHARS) {
+        if (sectionText(section).length > 40) push(sectionText(section));
+        continue;
+      }
+
+      let buffer = '';
+      for (const para of section.paragraphs) {
+        if (buffer && buffer.length + para.length > MAX_CHUNK_CHARS) {
+          push(buffer);
+          buffer = '';
+        }
+        buffer += (buffer ? '\n\n' : '') + para;
+      }
+
+      // Fold a short tail into the previous chunk of the same section
+      const prev = result[result.length - 1];
+      if (buffer.length < MIN_CHUNK_CHARS && prev?.newsletterId === nl.id && prev.sectionId === section.id) {
+        prev.text += '\n\n' + buffer;
+        prev.id = chunkId(nl.id, section.id, prev.text);
+      } else if (buffer) {
+        push(buffer);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,193 @@
+// Inline [n] citations: map markers in the answer to the retrieved chunks and
+// verify that anything the model put in quotes really appears in that chunk.
+
+export interface CitableChunk {
+  id: string;
+  newsletterId: string;
+  newsletterTitle: string;
+  sectionId: string;
+  title: string;
+  date: string;
+  text: string;
+}
+
+// Character offsets into `passage`. `quoted` spans are verbatim quotes from the
+// answer; the others are the closest sentence to a paraphrased claim.
+export interface CitationSpan {
+  start: number;
+  end: number;
+  quoted: boolean;
+}
+
+export interface Citation {
+  marker: number;
+  chunkId: string;
+  newsletterId: string;
+  sectionId: string;
+  title: string; // newsletter title
+  section: string | null; // section heading, when the passage has one
+  date: string; // ISO yyyy-mm-dd
+  passage: string;
+  spans: CitationSpan[];
+}
+
+const MARKER_PATTERN = /\[(\d{1,2})\]/g;
+export const QUOTE_PATTERN = /["“]([^"“”]{8,}?)["”]/g;
+const MIN_QUOTE_PART = 8;
+
+// Lowercase, straighten quotes/dashes and collapse whitespace, remembering where
+// each normalized character came from so matches can be mapped back.
+function normalizeWithMap(text: string): { norm: string; map: number[] } {
+  let norm = '';
+  const map: number[] = [];
+  let lastWasSpace = true;
+
+  for (let i = 0; i < text.length; i++) {
+    let ch = text[i];
+    if (/\s/.test(ch)) {
+      if (lastWasSpace) continue;
+      ch = ' ';
+      lastWasSpace = true;
+    } else {
+      lastWasSpace = false;
+      ch = ch
+        .replace(/[‘’‛`]/, "'")
+        .replace(/[“”„]/, '"')
+        .replace(/[–—]/, '-')
+        .toLowerCase();
+    }
+    norm += ch;
+    map.push(i);
+  }
+  return { norm, map };
+}
+
+export function normalizeForMatch(text: string): string {
+  return normalizeWithMap(text).norm.trim();
+}
+
+// Find a quote inside a passage. Ellipses in the quote may skip text, so each
+// part has to appear in order.
+export function findQuote(passage: string, quote: string): CitationSpan[] | null {
+  const { norm, map } = normalizeWithMap(passage);
+  const parts = quote
+    .split(/\.\.\.|…/)
+    .map(p => normalizeForMatch(p).replace(/^[\s.,;:!?'"-]+|[\s.,;:!?'"-]+$/g, ''))
+    .filter(p => p.length > 0);
+  if (parts.length === 0 || parts.every(p => p.length < MIN_QUOTE_PART)) return null;
+
+  const spans: CitationSpan[] = [];
+  let from = 0;
+  for (const part of parts) {
+    const idx = norm.indexOf(part, from);
+    if (idx < 0) return null;
+    spans.push({ start: map[idx], end: map[idx + part.length - 1] + 1, quoted: true });
+    from = idx + part.length;
+  }
+  return spans;
+}
+
+function words(text: string): Set<string> {
+  return new Set(normalizeForMatch(text).split(/[^a-z0-9']+/).filter(w => w.length > 3));
+}
+
+// For a paraphrased claim, highlight the chunk sentence that shares the most words with it
+function bestMatchingSentence(passage: string, claim: string): CitationSpan | null {
+  const claimWords = words(claim);
+  if (claimWords.size === 0) return null;
+
+  let best: CitationSpan | null = null;
+  let bestScore = 0;
+  const sentencePattern = /[^.!?\n]+[.!?]*/g;
+  let m: RegExpExecArray | null;
+  while ((m = sentencePattern.exec(passage)) !== null) {
+    let score = 0;
+    for (const w of words(m[0])) if (claimWords.has(w)) score++;
+    if (score > bestScore) {
+      bestScore = score;
+      const lead = m[0].length - m[0].trimStart().length;
+      best = { start: m.index + lead, end: m.index + m[0].trimEnd().length, quoted: false };
+    }
+  }
+  return bestScore >= 2 ? best : null;
+}
+
+// The text a marker refers to: everything since the previous marker or line break
+function claimBefore(answer: string, markerIndex: number): string {
+  const before = answer.slice(0, markerIndex);
+  const boundary = Math.max(before.lastIndexOf(']'), before.lastIndexOf('\n'));
+  return before.slice(boundary + 1).trim();
+}
+
+// Build verified citations for every [n] marker in the answer. A marker whose
+// quotes cannot be found in its chunk is dropped rather than shown as evidence.
+export function extractCitations(answer: string, chunks: CitableChunk[]): Citation[] {
+  const byMarker = new Map<number, { spans: CitationSpan[]; rejected: boolean }>();
+
+  for (const m of answer.matchAll(MARKER_PATTERN)) {
+    const marker = Number(m[1]);
+    const chunk = chunks[marker - 1];
+    if (!chunk) continue;
+
+    const entry = byMarker.get(marker) ?? { spans: [], rejected: false };
+    byMarker.set(marker, entry);
+
+    const claim = claimBefore(answer, m.index!);
+    const quotes = [...claim.matchAll(QUOTE_PATTERN)].map(q => q[1]);
+
+    if (quotes.length === 0) {
+      const span = bestMatchingSentence(chunk.text, claim);
+      if (span) entry.spans.push(span);
+      continue;
+    }
+
+    for (const quote of quotes) {
+      const spans = findQuote(chunk.text, quote);
+      if (spans) entry.spans.push(...spans);
+      else entry.rejected = true;
+    }
+  }
+
+  const citations: Citation[] = [];
+  for (const [marker, { spans, rejected }] of byMarker) {
+    // Keep a marker with a bad quote only if another use of it was verified
+    if (rejected && !spans.some(s => s.quoted)) continue;
+    const chunk = chunks[marker - 1];
+    citations.push({
+      marker,
+      chunkId: chunk.id,
+      newsletterId: chunk.newsletterId,
+      sectionId: chunk.sectionId,
+      title: chunk.newsletterTitle,
+      section: chunk.title !== chunk.newsletterTitle ? chunk.title : null,
+      date: chunk.date,
+      passage: chunk.text,
+      spans: spans.sort((a, b) => a.start - b.start),
+    });
+  }
+  return citations.sort((a, b) => a.marker - b.marker);
+}
+
+// A "quoted" passage in an answer, with the citation it was verified against
+export interface AnswerQuote {
+  start: number; // offsets into the answer, including the quote marks
+  end: number;
+  text: string;
+  citation: Citation | null; // null when the quote couldn't be found in a cited passage
+}
+
+// Quotes in the answer, so the page can set them apart from paraphrase. A quote
+// is checked against the marker that follows it, or else any cited passage.
+export function findAnswerQuotes(answer: string, citations: Citation[]): AnswerQuote[] {
+  const quotes: AnswerQuote[] = [];
+  for (const m of answer.matchAll(QUOTE_PATTERN)) {
+    if (m[0].includes('\n\n')) continue;
+    const start = m.index!;
+    const end = start + m[0].length;
+    const marker = answer.slice(end).split('\n')[0].match(/\[(\d{1,2})\]/);
+    const candidates = marker ? citations.filter(c => c.marker === Number(marker[1])) : citations;
+    const citation = candidates.find(c => findQuote(c.passage, m[1])) ?? null;
+    quotes.push({ start, end, text: m[1], citation });
+  }
+  return quotes;
+}
@@ -0,0 +1,80 @@
+// Chat history sent alongside a follow-up question
+
+export interface HistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Only the last few turns are useful for resolving "that" / "he" / "after that"
+const MAX_HISTORY_MESSAGES = 6;
+const MAX_MESSAGE_CHARS = 1200;
+
+// Accept whatever the client sent and keep only well-formed messages
+export function parseHistory(value: unknown): HistoryMessage[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((m): m is HistoryMessage =>
+    !!m && typeof m === 'object' &&
+    (m.role === 'user' || m.role === 'assistant') &&
+    typeof m.content === 'string' && m.content.trim().length > 0
+  ).map(m => ({ role: m.role, content: m.content }));
+}
+
+// Keep the most recent turns, truncate long answers, and always start on a user turn
+export function trimHistory(history: HistoryMessage[]): HistoryMessage[] {
+  const recent = history.slice(-MAX_HISTORY_MESSAGES).map(m => ({
+    role: m.role,
+    content: m.content.length > MAX_MESSAGE_CHARS ? m.content.slice(0, MAX_MESSAGE_CHARS) + '…' : m.content,
+  }));
+  while (recent.length > 0 && recent[0].role !== 'user') recent.shift();
+  return recent;
+}
+
+export function formatTranscript(history: HistoryMessage[]): string {
+  return history.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`).join('\n\n');
+}
+
+// `archive` names the corpus, e.g. "Andrew Wilkinson's newsletter archive"
+export function buildRewritePrompt(query: string, history: HistoryMessage[], archive: string): string {
+  return `Rewrite the follow-up question as a single standalone search query for ${archive}.
+Resolve pronouns and references ("he", "that", "after that") using the conversation. Keep names, companies and book titles exactly as written.
+If the question is already standalone, return it unchanged. Reply with the query only - no quotes, no explanation.
+
+CONVERSATION:
+${formatTranscript(history)}
+
+FOLLOW-UP QUESTION: ${query}
+
+STANDALONE QUERY:`;
+}
+
+// Models sometimes wrap the query in quotes or prefix it with a label
+export function cleanRewrittenQuery(text: string, fallback: string): string {
+  const line = text.trim().split('\n')[0]
+    .replace(/^(standalone )?query:\s*/i, '')
+    .replace(/^["'“]+|["'”]+$/g, '')
+    .trim();
+  return line.length > 0 && line.length <= 500 ? line : fallback;
+}
+
+const MAX_TITLE_CHARS = 60;
+
+export function buildTitlePrompt(question: string, answer: string, archive: string): string {
+  return `Write a short title (at most 6 words) for a conversation that starts with this question and answer from ${archive}.
+Reply with the title only - no quotes, no trailing punctuation.
+
+ANSWER:
+${answer.length > MAX_MESSAGE_CHARS ? answer.slice(0, MAX_MESSAGE_CHARS) + '…' : answer}
+
+QUESTION: ${question}
+
+TITLE:`;
+}
+
+export function cleanTitle(text: string): string | null {
+  const line = text.trim().split('\n')[0]
+    .replace(/^title:\s*/i, '')
+    .replace(/^["'“*]+|["'”*.]+$/g, '')
+    .trim();
+  if (!line) return null;
+  return line.length > MAX_TITLE_CHARS ? line.slice(0, MAX_TITLE_CHARS - 1).trimEnd() + '…' : line;
+}
@@ -0,0 +1,246 @@
+import fs from 'fs';
+import path from 'path';
+import type { Newsletter } from './newsletters';
+import { loadSources } from './sources';
+import { tokenize } from './tokenize';
+
+// The archives this deployment serves. Each corpus in src/data/corpora.json
+// (or CORPORA_FILE) has its own sources, persona, prompt and branding, and its
+// own index, topic taxonomy and eval set in its data directory.
+
+export const CORPORA_PATH = path.join(process.cwd(), 'src', 'data', 'corpora.json');
+
+export interface Corpus {
+  id: string; // lowercase slug, used in URLs (/[corpus]) and ?corpus= on the API
+  name: string; // the app's name for this corpus, e.g. "Ask Andrew"
+  persona: {
+    name: string;
+    shortName: string; // how prompts and the UI refer to the author
+    photo: string | null; // shown next to answers
+  };
+  archive: string; // "Andrew Wilkinson's newsletter archive", for prompts
+  sources: string[]; // files or directories in any format sources/ reads, relative to the project root
+  dataDir: string; // index files, topics.json and eval/, relative to the project root
+  topicsFile: string;
+  // System prompt instructions with {{archive}}, {{name}}, {{shortName}},
+  // {{refusal}} and {{identity}} placeholders; null for the built-in one
+  promptTemplate: string | null;
+  refusal: string; // exact reply for questions the archive doesn't cover
+  identity: string; // exact reply to "Who are you?"
+  questions: string[]; // suggested questions when the index has no topics
+  branding: {
+    title: string;
+    description: string;
+    headline: string; // may contain line breaks
+    tagline: string;
+    link: { label: string; url: string } | null;
+  };
+}
+
+export interface CorpusConfig {
+  defaultId: string;
+  corpora: Corpus[];
+}
+
+// What the browser gets: no file paths or prompts
+export type PublicCorpus = Pick<Corpus, 'id' | 'name' | 'persona' | 'questions' | 'branding'> & {
+  isDefault: boolean;
+  homePath: string;
+  archivePath: string;
+};
+
+// Thrown for a ?corpus= or --corpus= naming no configured corpus
+export class UnknownCorpusError extends Error {
+  constructor(id: string) {
+    super(`No corpus named "${id}".`);
+    this.name = 'UnknownCorpusError';
+  }
+}
+
+const CORPUS_ID = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+// Top-level routes a corpus id would collide with
+const RESERVED_IDS = new Set(['admin', 'api', 'c', 'newsletters', 'v1']);
+
+function invalid(file: string, message: string): never {
+  throw new Error(`Invalid corpus config ${file}: ${message}`);
+}
+
+export function parseCorpusConfig(value: unknown, file: string): CorpusConfig {
+  if (!value || typeof value !== 'object') invalid(file, 'expected an object');
+  const raw = value as Record<string, unknown>;
+  if (!Array.isArray(raw.corpora) || raw.corpora.length === 0) invalid(file, '`corpora` must be a non-empty array');
+
+  const text = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+  const strings = (v: unknown): v is string[] => Array.isArray(v) && v.every(text);
+  const root = process.cwd();
+  const seen = new Set<string>();
+  const dataDirs = new Set<string>();
+
+  const corpora = raw.corpora.map((c: Record<string, unknown>, i): Corpus => {
+    if (typeof c?.id !== 'string' || !CORPUS_ID.test(c.id)) invalid(file, `corpus ${i + 1} needs a lowercase slug \`id\``);
+    if (RESERVED_IDS.has(c.id)) invalid(file, `"${c.id}" is a reserved route and can't be a corpus id`);
+    if (seen.has(c.id)) invalid(file, `duplicate corpus id "${c.id}"`);
+    seen.add(c.id);
+    const where = `corpus "${c.id}"`;
+
+    const persona = (c.persona ?? {}) as Record<string, unknown>;
+    if (!text(persona.name)) invalid(file, `${where} needs a \`persona.name\``);
+    const branding = (c.branding ?? {}) as Record<string, unknown>;
+    for (const key of ['title', 'description', 'headline', 'tagline']) {
+      if (!text(branding[key])) invalid(file, `${where} needs \`branding.${key}\``);
+    }
+    const link = branding.link as Record<string, unknown> | undefined;
+    if (link && (!text(link.label) || !text(link.url))) invalid(file, `${where} has an invalid \`branding.link\``);
+
+    for (const key of ['name', 'archive', 'refusal', 'identity', 'dataDir']) {
+      if (!text(c[key])) invalid(file, `${where} needs a \`${key}\``);
+    }
+    if (!strings(c.sources) || c.sources.length === 0) invalid(file, `${where} needs a \`sources\` array of files or directories`);
+    if (c.questions !== undefined && !strings(c.questions)) invalid(file, `${where} has invalid \`questions\``);
+
+    // Each corpus has its own index, so two can't share a data directory
+    const dataDir = c.dataDir as string;
+    if (dataDirs.has(path.normalize(dataDir))) invalid(file, `${where} shares its \`dataDir\` with another corpus`);
+    dataDirs.add(path.normalize(dataDir));
+    const topicsFile = text(c.topicsFile) ? c.topicsFile : path.join(dataDir, 'topics.json');
+    let promptTemplate: string | null = null;
+    if (c.promptFile !== undefined) {
+      if (!text(c.promptFile)) invalid(file, `${where} has an invalid \`promptFile\``);
+      try {
+        promptTemplate = fs.readFileSync(path.join(root, c.promptFile), 'utf-8').trim();
+      } catch (e) {
+        invalid(file, `${where}: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+
+    return {
+      id: c.id,
+      name: c.name as string,
+      persona: {
+        name: persona.name as string,
+        shortName: text(persona.shortName) ? persona.shortName : (persona.name as string).split(' ')[0],
+        photo: text(persona.photo) ? persona.photo : null,
+      },
+      archive: c.archive as string,
+      sources: c.sources,
+      dataDir,
+      topicsFile,
+      promptTemplate,
+      refusal: c.refusal as string,
+      identity: c.identity as string,
+      questions: (c.questions as string[] | undefined) ?? [],
+      branding: {
+        title: branding.title as string,
+        description: branding.description as string,
+        headline: branding.headline as string,
+        tagline: branding.tagline as string,
+        link: link ? { label: link.label as string, url: link.url as string } : null,
+      },
+    };
+  });
+
+  const defaultId = raw.default === undefined ? corpora[0].id : raw.default;
+  if (typeof defaultId !== 'string' || !seen.has(defaultId)) invalid(file, '`default` must be the id of one of the corpora');
+  return { defaultId, corpora };
+}
+
+let config: CorpusConfig | undefined;
+const newsletters = new Map<string, Newsletter[]>();
+
+export function getCorporaFile(): string {
+  return process.env.CORPORA_FILE?.trim() || CORPORA_PATH;
+}
+
+// Read once per process; edits need a server restart
+export function getCorpusConfig(): CorpusConfig {
+  if (config) return config;
+  const file = getCorporaFile();
+  let value: unknown;
+  try {
+    value = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (e) {
+    invalid(file, e instanceof Error ? e.message : String(e));
+  }
+  return (config = parseCorpusConfig(value, file));
+}
+
+export function listCorpora(): Corpus[] {
+  return getCorpusConfig().corpora;
+}
+
+export function getDefaultCorpus(): Corpus {
+  const { defaultId, corpora } = getCorpusConfig();
+  return corpora.find(c => c.id === defaultId)!;
+}
+
+export function getCorpus(id: string): Corpus {
+  const corpus = listCorpora().find(c => c.id === id);
+  if (!corpus) throw new UnknownCorpusError(id);
+  return corpus;
+}
+
+// Corpora served under /[corpus]: all but the default, which keeps the unprefixed URLs
+export function prefixedCorpora(): Corpus[] {
+  const { defaultId, corpora } = getCorpusConfig();
+  return corpora.filter(c => c.id !== defaultId);
+}
+
+export function findPrefixedCorpus(id: string): Corpus | null {
+  return prefixedCorpora().find(c => c.id === id) ?? null;
+}
+
+// A saved chat's corpus, or the default one if it's unset or no longer configured
+export function corpusOrDefault(id: string | undefined): Corpus {
+  return listCorpora().find(c => c.id === id) ?? getDefaultCorpus();
+}
+
+// The corpus named by ?corpus= on an API request, or the default one
+export function corpusFromRequest(request: Request): Corpus {
+  const id = new URL(request.url).searchParams.get('corpus');
+  return id ? getCorpus(id) : getDefaultCorpus();
+}
+
+// `--corpus=<id>` for the offline scripts, or the default one
+export function corpusFromArgs(argv: string[]): Corpus {
+  const id = argv.find(a => a.startsWith('--corpus='))?.slice('--corpus='.length);
+  return id ? getCorpus(id) : getDefaultCorpus();
+}
+
+// The default corpus keeps the unprefixed URLs
+export function homePath(corpus: Corpus): string {
+  return corpus.id === getDefaultCorpus().id ? '/' : `/${corpus.id}`;
+}
+
+export function archivePath(corpus: Corpus): string {
+  return corpus.id === getDefaultCorpus().id ? '/newsletters' : `/${corpus.id}/newsletters`;
+}
+
+export function toPublicCorpus(corpus: Corpus): PublicCorpus {
+  const { id, name, persona, questions, branding } = corpus;
+  return {
+    id,
+    name,
+    persona,
+    questions,
+    branding,
+    isDefault: id === getDefaultCorpus().id,
+    homePath: homePath(corpus),
+    archivePath: archivePath(corpus),
+  };
+}
+
+// The author's name, which questions use to address them ("what does Andrew
+// think of...") and so says nothing about which chunk answers
+export function personaStopwords(corpus: Pick<Corpus, 'persona'>): Set<string> {
+  return new Set(tokenize(`${corpus.persona.name} ${corpus.persona.shortName}`));
+}
+
+// Parsed once per server instance, newest issue first
+export function getNewsletters(corpus: Corpus): Newsletter[] {
+  let parsed = newsletters.get(corpus.id);
+  if (!parsed) {
+    parsed = loadSources(corpus.sources).newsletters;
+    newsletters.set(corpus.id, parsed);
+  }
+  return parsed;
+}
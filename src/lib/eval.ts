@@ -0,0 +1,110 @@
+import type { Corpus } from './corpus';
+
+// Retrieval and answer-quality metrics for the golden question set (see scripts/eval.ts).
+
+export type ExpectedReply = 'answer' | 'refusal' | 'identity';
+
+export interface EvalCase {
+  id: string;
+  question: string;
+  // Newsletters a good answer should draw on; empty for questions that should be refused
+  expectedNewsletters: string[];
+  expect: ExpectedReply;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  // 1-based rank of the first retrieved chunk from an expected newsletter
+  firstRelevantRank: number | null;
+  recall: number | null;
+  reply: ExpectedReply;
+  correctReply: boolean;
+}
+
+export interface EvalMetrics {
+  recallAtK: number;
+  mrr: number;
+  refusalAccuracy: number;
+}
+
+export interface EvalReport {
+  embeddingModel: string;
+  k: number;
+  metrics: EvalMetrics;
+  cases: EvalCaseResult[];
+}
+
+// Metric drops smaller than this are rounding noise, not regressions
+const TOLERANCE = 0.001;
+
+type CannedReplies = Pick<Corpus, 'refusal' | 'identity'>;
+
+export function classifyReply(answer: string, corpus: CannedReplies): ExpectedReply {
+  const text = answer.trim();
+  if (text === corpus.refusal) return 'refusal';
+  if (text === corpus.identity) return 'identity';
+  return 'answer';
+}
+
+export function scoreCase(evalCase: EvalCase, retrievedNewsletters: string[], answer: string, corpus: CannedReplies): EvalCaseResult {
+  const reply = classifyReply(answer, corpus);
+  const expected = new Set(evalCase.expectedNewsletters);
+
+  let firstRelevantRank: number | null = null;
+  let recall: number | null = null;
+  if (expected.size > 0) {
+    const index = retrievedNewsletters.findIndex(id => expected.has(id));
+    firstRelevantRank = index >= 0 ? index + 1 : null;
+    recall = [...expected].filter(id => retrievedNewsletters.includes(id)).length / expected.size;
+  }
+
+  return { id: evalCase.id, firstRelevantRank, recall, reply, correctReply: reply === evalCase.expect };
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+// Recall and MRR only count questions with expected sources; refusal accuracy counts every question
+export function summarize(results: EvalCaseResult[]): EvalMetrics {
+  const answerable = results.filter(r => r.recall !== null);
+  return {
+    recallAtK: mean(answerable.map(r => r.recall!)),
+    mrr: mean(answerable.map(r => (r.firstRelevantRank ? 1 / r.firstRelevantRank : 0))),
+    refusalAccuracy: mean(results.map(r => (r.correctReply ? 1 : 0))),
+  };
+}
+
+export interface MetricChange {
+  metric: keyof EvalMetrics;
+  baseline: number;
+  current: number;
+  regressed: boolean;
+}
+
+export interface CaseChange {
+  id: string;
+  change: string;
+}
+
+export function compareReports(baseline: EvalReport, current: EvalReport): { metrics: MetricChange[]; cases: CaseChange[] } {
+  const metrics = (Object.keys(current.metrics) as (keyof EvalMetrics)[]).map(metric => ({
+    metric,
+    baseline: baseline.metrics[metric],
+    current: current.metrics[metric],
+    regressed: current.metrics[metric] < baseline.metrics[metric] - TOLERANCE,
+  }));
+
+  const before = new Map(baseline.cases.map(c => [c.id, c]));
+  const cases: CaseChange[] = [];
+  for (const c of current.cases) {
+    const b = before.get(c.id);
+    if (!b) {
+      cases.push({ id: c.id, change: 'new question' });
+      continue;
+    }
+    if (b.firstRelevantRank !== c.firstRelevantRank) {
+      cases.push({ id: c.id, change: `first relevant rank ${b.firstRelevantRank ?? '-'} → ${c.firstRelevantRank ?? '-'}` });
+    }
+    if (b.reply !== c.reply) cases.push({ id: c.id, change: `reply ${b.reply} → ${c.reply}` });
+  }
+  return { metrics, cases };
+}
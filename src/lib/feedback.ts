@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import { ApiError } from './api-error';
+import { MAX_QUERY_CHARS } from './chat-request';
+
+// Thumbs up/down on answers, with an optional comment. Entries are kept behind
+// a store interface; the default appends to a JSON Lines file (FEEDBACK_PATH,
+// default .data/feedback.jsonl), where the last line for an id wins.
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface FeedbackEntry {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  rating: FeedbackRating;
+  comment: string | null;
+  corpus?: string; // entries from before multi-corpus support are the default corpus's
+  query: string;
+  answer: string;
+  chunkIds: string[];
+  traceId: string | null;
+}
+
+export interface FeedbackStore {
+  get(id: string): Promise<FeedbackEntry | null>;
+  save(entry: FeedbackEntry): Promise<void>;
+  list(): Promise<FeedbackEntry[]>;
+}
+
+export class JsonlFeedbackStore implements FeedbackStore {
+  constructor(private file: string) {}
+
+  async get(id: string): Promise<FeedbackEntry | null> {
+    return (await this.list()).find(e => e.id === id) ?? null;
+  }
+
+  async save(entry: FeedbackEntry): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.appendFile(this.file, JSON.stringify(entry) + '\n');
+  }
+
+  // Oldest first, one entry per id
+  async list(): Promise<FeedbackEntry[]> {
+    if (!fs.existsSync(this.file)) return [];
+    const byId = new Map<string, FeedbackEntry>();
+    for (const line of (await fs.promises.readFile(this.file, 'utf-8')).split('\n')) {
+      if (!line.trim()) continue;
+      const entry: FeedbackEntry = JSON.parse(line);
+      byId.set(entry.id, { ...byId.get(entry.id), ...entry });
+    }
+    return [...byId.values()];
+  }
+}
+
+export interface FeedbackInput {
+  id: string | null; // set when changing the rating or adding a comment to earlier feedback
+  rating: FeedbackRating;
+  comment: string | null;
+  query: string;
+  answer: string;
+  chunkIds: string[];
+  traceId: string | null;
+}
+
+const MAX_COMMENT_CHARS = 2000;
+const MAX_ANSWER_CHARS = 20_000;
+const MAX_CHUNK_IDS = 20;
+
+const invalid = (message: string) => new ApiError('invalid_request', 400, message);
+
+function optionalString(value: unknown, field: string, max: number): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || value.length > max) throw invalid(`\`${field}\` must be a string of at most ${max} characters.`);
+  return value.trim() || null;
+}
+
+export function parseFeedback(body: unknown): FeedbackInput {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw invalid('Request body must be a JSON object.');
+  const raw = body as Record<string, unknown>;
+
+  if (raw.rating !== 'up' && raw.rating !== 'down') throw invalid('`rating` must be "up" or "down".');
+  const query = optionalString(raw.query, 'query', MAX_QUERY_CHARS);
+  const answer = optionalString(raw.answer, 'answer', MAX_ANSWER_CHARS);
+  if (!query || !answer) throw invalid('`query` and `answer` are required.');
+
+  const chunkIds = raw.chunkIds ?? [];
+  if (
+    !Array.isArray(chunkIds) ||
+    chunkIds.length > MAX_CHUNK_IDS ||
+    !chunkIds.every(id => typeof id === 'string' && /^[a-z0-9-]{1,64}$/i.test(id))
+  ) {
+    throw invalid(`\`chunkIds\` must be an array of at most ${MAX_CHUNK_IDS} chunk ids.`);
+  }
+
+  return {
+    id: optionalString(raw.id, 'id', 64),
+    rating: raw.rating,
+    comment: optionalString(raw.comment, 'comment', MAX_COMMENT_CHARS),
+    query,
+    answer,
+    chunkIds,
+    traceId: optionalString(raw.traceId, 'traceId', 64),
+  };
+}
+
+let store: FeedbackStore | null = null;
+
+export function getFeedbackStore(): FeedbackStore {
+  return (store ??= new JsonlFeedbackStore(
+    process.env.FEEDBACK_PATH?.trim() || path.join(process.cwd(), '.data', 'feedback.jsonl'),
+  ));
+}
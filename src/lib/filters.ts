@@ -0,0 +1,47 @@
+import type { Chunk } from './chunking';
+
+// Metadata filters applied before ranking. Dates are ISO yyyy-mm-dd, so plain
+// string comparison orders them correctly.
+export interface SearchFilters {
+  dateFrom?: string;
+  dateTo?: string;
+  newsletterIds?: string[];
+  topics?: string[];
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.filter((v): v is string => typeof v === 'string' && v.trim().length > 0).map(v => v.trim());
+  return list.length > 0 ? list : undefined;
+}
+
+// Accept whatever the client sent and keep only well-formed filters
+export function parseFilters(value: unknown): SearchFilters {
+  if (!value || typeof value !== 'object') return {};
+  const raw = value as Record<string, unknown>;
+  const filters: SearchFilters = {};
+
+  if (typeof raw.dateFrom === 'string' && ISO_DATE.test(raw.dateFrom)) filters.dateFrom = raw.dateFrom;
+  if (typeof raw.dateTo === 'string' && ISO_DATE.test(raw.dateTo)) filters.dateTo = raw.dateTo;
+  const newsletterIds = stringList(raw.newsletterIds);
+  if (newsletterIds) filters.newsletterIds = newsletterIds;
+  const topics = stringList(raw.topics)?.map(t => t.toLowerCase());
+  if (topics) filters.topics = topics;
+
+  return filters;
+}
+
+export function hasFilters(filters: SearchFilters): boolean {
+  return !!(filters.dateFrom || filters.dateTo || filters.newsletterIds?.length || filters.topics?.length);
+}
+
+// Topics are taxonomy ids, matched against the topics assigned at ingest
+export function matchesFilters(chunk: Pick<Chunk, 'date' | 'newsletterId' | 'topics'>, filters: SearchFilters): boolean {
+  if (filters.dateFrom && chunk.date < filters.dateFrom) return false;
+  if (filters.dateTo && chunk.date > filters.dateTo) return false;
+  if (filters.newsletterIds && !filters.newsletterIds.includes(chunk.newsletterId)) return false;
+  if (filters.topics && !filters.topics.some(t => chunk.topics.includes(t))) return false;
+  return true;
+}
@@ -0,0 +1,205 @@
+import { estimateTokens } from './budget';
+import { findQuote, QUOTE_PATTERN, type CitableChunk } from './citations';
+import { personaStopwords, type Corpus } from './corpus';
+import { UNAVAILABLE_MESSAGE } from './prompts';
+import { getChatProviders, type ChatProvider } from './providers';
+import { tokenize } from './tokenize';
+import type { Trace } from './trace';
+
+// Post-generation check that the answer only says what the retrieved chunks say.
+// Quotes must appear verbatim (ignoring case, quote style and whitespace); other
+// sentences need most of their words in one chunk, or an LLM entailment check to
+// pass when GROUNDING_CHECK=llm. Unsupported sentences are flagged for the UI, or
+// cut from the answer when GROUNDING_ACTION=remove.
+
+export type GroundingMethod = 'quote' | 'fuzzy' | 'entailment';
+
+// Character offsets into the answer the report was made for
+export interface GroundedClaim {
+  start: number;
+  end: number;
+  supported: boolean;
+  method: GroundingMethod;
+}
+
+export interface GroundingReport {
+  score: number; // share of checked sentences that are supported, 0–1
+  claims: GroundedClaim[];
+  // Set when unsupported sentences were removed; replaces the streamed answer
+  revised?: string;
+}
+
+export interface EntailmentChecker {
+  readonly id: string;
+  // One verdict per claim: does any passage state or directly imply it? Model
+  // calls add their tokens to the trace, which the daily budget is charged from.
+  check(claims: string[], chunks: CitableChunk[], trace: Trace): Promise<boolean[]>;
+}
+
+// Below this share of a sentence's words found in a single chunk, it's a paraphrase too far
+const MIN_WORD_OVERLAP = 0.5;
+// Sentences with fewer content words ("Here's what I wrote:") aren't factual claims
+const MIN_CLAIM_WORDS = 3;
+
+const MARKER = /\[(\d{1,2})\]/g;
+// A sentence runs to its end punctuation plus any closing quote and [n] markers after it
+const SENTENCE = /[^.!?\n]+(?:[.!?]+["”’]?)?(?:\s*\[\d{1,2}\])*[.!?]?/g;
+
+interface Sentence {
+  start: number;
+  end: number;
+  text: string;
+  quotes: string[];
+  markers: number[];
+}
+
+// Split into sentences without breaking inside quotes, which often contain full stops
+function sentences(answer: string): Sentence[] {
+  const quotes = [...answer.matchAll(QUOTE_PATTERN)].map(m => ({ start: m.index!, end: m.index! + m[0].length, text: m[1] }));
+  let masked = answer;
+  for (const q of quotes) {
+    // A quote that ends a sentence keeps its final punctuation, so the sentence still ends there
+    const keep = /[.!?]["”]$/.test(answer.slice(q.start, q.end)) ? 2 : 0;
+    masked = masked.slice(0, q.start) + 'x'.repeat(q.end - q.start - keep) + masked.slice(q.end - keep);
+  }
+
+  const result: Sentence[] = [];
+  for (const m of masked.matchAll(SENTENCE)) {
+    const lead = m[0].length - m[0].trimStart().length;
+    const start = m.index! + lead;
+    const end = m.index! + m[0].trimEnd().length;
+    if (end <= start) continue;
+    const text = answer.slice(start, end);
+    result.push({
+      start,
+      end,
+      text,
+      quotes: quotes.filter(q => q.start >= start && q.end <= end).map(q => q.text),
+      markers: [...text.matchAll(MARKER)].map(n => Number(n[1])),
+    });
+  }
+  return result;
+}
+
+function claimWords(text: string, stopwords: ReadonlySet<string>): string[] {
+  return [...new Set(tokenize(text.replace(MARKER, '').replace(QUOTE_PATTERN, ''), stopwords))];
+}
+
+function wordOverlap(words: string[], chunk: CitableChunk, stopwords: ReadonlySet<string>): number {
+  const vocabulary = new Set(tokenize(`${chunk.newsletterTitle} ${chunk.title} ${chunk.text}`, stopwords));
+  return words.filter(w => vocabulary.has(w)).length / words.length;
+}
+
+// Chunks the sentence cites come first, then the rest of the retrieved context
+function candidates(sentence: Sentence, chunks: CitableChunk[]): CitableChunk[] {
+  const cited = sentence.markers.map(n => chunks[n - 1]).filter(Boolean);
+  return [...cited, ...chunks.filter(c => !cited.includes(c))];
+}
+
+// Asks the chat model to judge every unsupported-looking claim in a single call
+export class LlmEntailmentChecker implements EntailmentChecker {
+  readonly id: string;
+
+  constructor(private provider: ChatProvider) {
+    this.id = `llm:${provider.id}`;
+  }
+
+  async check(claims: string[], chunks: CitableChunk[], trace: Trace): Promise<boolean[]> {
+    const passages = chunks.map((c, i) => `[${i + 1}] ${c.text.replace(/\s+/g, ' ')}`).join('\n\n');
+    const numbered = claims.map((c, i) => `${i + 1}. ${c}`).join('\n');
+    const prompt = `For each claim, answer true if the passages state it or directly imply it, and false otherwise.
+Reply with a JSON array of ${claims.length} booleans in claim order and nothing else.
+
+PASSAGES:
+${passages}
+
+CLAIMS:
+${numbered}`;
+    const text = await this.provider.generate({
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: 100,
+      temperature: 0,
+    });
+    trace.addTokens(estimateTokens(prompt), estimateTokens(text));
+
+    const verdicts = JSON.parse(text.slice(text.indexOf('['), text.lastIndexOf(']') + 1));
+    if (!Array.isArray(verdicts) || verdicts.length !== claims.length) {
+      throw new Error(`Entailment check returned ${Array.isArray(verdicts) ? verdicts.length : 'no'} verdicts for ${claims.length} claims`);
+    }
+    return verdicts.map(v => v === true);
+  }
+}
+
+function removeUnsupported(answer: string, claims: GroundedClaim[], refusal: string): string {
+  let revised = answer;
+  for (const c of [...claims].filter(c => !c.supported).sort((a, b) => b.start - a.start)) {
+    revised = revised.slice(0, c.start) + revised.slice(c.end);
+  }
+  revised = revised.replace(/[ \t]{2,}/g, ' ').replace(/ +\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  return revised || refusal;
+}
+
+// Grounding report for an answer, or null for canned replies that make no claims
+export async function verifyGrounding(
+  answer: string,
+  chunks: CitableChunk[],
+  options: { corpus: Pick<Corpus, 'persona' | 'refusal' | 'identity'>; trace: Trace; checker?: EntailmentChecker | null; remove?: boolean },
+): Promise<GroundingReport | null> {
+  const trimmed = answer.trim();
+  if (!trimmed || [options.corpus.refusal, options.corpus.identity, UNAVAILABLE_MESSAGE].includes(trimmed)) return null;
+
+  // "Andrew says..." names the author, not something the chunk has to say
+  const stopwords = personaStopwords(options.corpus);
+  const claims: GroundedClaim[] = [];
+  const undecided: { claim: GroundedClaim; text: string }[] = [];
+
+  for (const sentence of sentences(answer)) {
+    const pool = candidates(sentence, chunks);
+    const claim: GroundedClaim = { start: sentence.start, end: sentence.end, supported: false, method: 'fuzzy' };
+
+    if (sentence.quotes.length > 0) {
+      claim.method = 'quote';
+      claim.supported = sentence.quotes.every(q => pool.some(c => findQuote(c.text, q)));
+    } else {
+      const words = claimWords(sentence.text, stopwords);
+      if (words.length < MIN_CLAIM_WORDS) continue;
+      claim.supported = pool.some(c => wordOverlap(words, c, stopwords) >= MIN_WORD_OVERLAP);
+      if (!claim.supported) undecided.push({ claim, text: sentence.text.replace(MARKER, '').trim() });
+    }
+    claims.push(claim);
+  }
+
+  // Fuzzy matching misses honest paraphrases; let the model rule on those
+  if (options.checker && undecided.length > 0 && chunks.length > 0) {
+    try {
+      const verdicts = await options.checker.check(undecided.map(u => u.text), chunks, options.trace);
+      undecided.forEach((u, i) => {
+        u.claim.method = 'entailment';
+        u.claim.supported = verdicts[i];
+      });
+    } catch (e) {
+      console.error(`${options.checker.id} entailment check failed:`, e instanceof Error ? e.message : e);
+    }
+  }
+
+  const supported = claims.filter(c => c.supported).length;
+  const report: GroundingReport = {
+    score: claims.length ? Math.round((supported / claims.length) * 100) / 100 : 1,
+    claims,
+  };
+  if (options.remove && supported < claims.length) report.revised = removeUnsupported(answer, claims, options.corpus.refusal);
+  return report;
+}
+
+let checker: EntailmentChecker | null | undefined;
+
+export function getEntailmentChecker(): EntailmentChecker | null {
+  if (checker !== undefined) return checker;
+  const provider = process.env.GROUNDING_CHECK === 'llm' ? getChatProviders()[0] : undefined;
+  checker = provider ? new LlmEntailmentChecker(provider) : null;
+  return checker;
+}
+
+export function shouldRemoveUnsupported(): boolean {
+  return process.env.GROUNDING_ACTION === 'remove';
+}
@@ -0,0 +1,92 @@
+import { CHUNKER_VERSION, chunkNewsletters, type Chunk } from './chunking';
+import type { Corpus } from './corpus';
+import { getIndexedChunks } from './retrieval';
+import { IndexUnavailableError, readManifest, type IndexManifest } from './search-index';
+import { loadSources, SourceError, type LoadedSources } from './sources';
+import { getTaxonomy, taxonomyHash } from './topics';
+
+// How well a corpus's index covers its sources, for /admin. Ingest won't write
+// an index with chunks it couldn't embed, so gaps open up when the sources move
+// on without it: issues added or edited since the build, or parsing and
+// chunking changes. The sources are read fresh, not from the server's copy.
+
+export interface NewsletterCoverage {
+  id: string;
+  title: string;
+  date: string;
+  file: string | null; // null for issues that are only in the index
+  indexed: number;
+  expected: number; // chunks the current sources give
+}
+
+export interface IndexHealth {
+  corpus: string;
+  manifest: IndexManifest | null;
+  error: string | null; // why the index can't be served
+  sourceError: string | null; // why the sources can't be read
+  chunkCount: number;
+  untagged: number; // chunks without a topic
+  newsletters: NewsletterCoverage[]; // newest first
+  missing: number; // chunks the sources give that aren't indexed
+  orphaned: number; // indexed chunks the sources no longer give
+  stale: string[]; // reasons to re-run ingest
+}
+
+function readIndexedChunks(corpus: Corpus): { chunks: Chunk[]; error: string | null } {
+  try {
+    return { chunks: getIndexedChunks(corpus), error: null };
+  } catch (e) {
+    if (e instanceof IndexUnavailableError) return { chunks: [], error: e.message };
+    throw e;
+  }
+}
+
+function readSources(corpus: Corpus): { sources: LoadedSources | null; error: string | null } {
+  try {
+    return { sources: loadSources(corpus.sources), error: null };
+  } catch (e) {
+    if (e instanceof SourceError) return { sources: null, error: e.message };
+    throw e;
+  }
+}
+
+export function getIndexHealth(corpus: Corpus): IndexHealth {
+  const manifest = readManifest(corpus);
+  const { chunks, error } = readIndexedChunks(corpus);
+  const { sources, error: sourceError } = readSources(corpus);
+  const expected = sources ? chunkNewsletters(sources.newsletters) : [];
+
+  const coverage = new Map<string, NewsletterCoverage>();
+  for (const nl of sources?.newsletters ?? []) {
+    coverage.set(nl.id, { id: nl.id, title: nl.title, date: nl.date, file: nl.source?.file ?? null, indexed: 0, expected: 0 });
+  }
+  for (const c of expected) coverage.get(c.newsletterId)!.expected++;
+  for (const c of chunks) {
+    const entry = coverage.get(c.newsletterId) ?? { id: c.newsletterId, title: c.newsletterTitle, date: c.date, file: null, indexed: 0, expected: 0 };
+    entry.indexed++;
+    coverage.set(c.newsletterId, entry);
+  }
+
+  const indexedIds = new Set(chunks.map(c => c.id));
+  const expectedIds = new Set(expected.map(c => c.id));
+
+  const stale: string[] = [];
+  if (manifest && sources) {
+    if (manifest.sourceHash !== sources.hash) stale.push('The sources have changed since the index was built.');
+    if (manifest.chunkerVersion !== CHUNKER_VERSION) stale.push(`Parsing and chunking have changed (v${manifest.chunkerVersion} to v${CHUNKER_VERSION}).`);
+    if (manifest.taxonomyHash !== taxonomyHash(getTaxonomy(corpus))) stale.push('The topic taxonomy has changed.');
+  }
+
+  return {
+    corpus: corpus.id,
+    manifest,
+    error,
+    sourceError,
+    chunkCount: chunks.length,
+    untagged: chunks.filter(c => c.topics.length === 0).length,
+    newsletters: [...coverage.values()].sort((a, b) => b.date.localeCompare(a.date)),
+    missing: sources ? expected.filter(c => !indexedIds.has(c.id)).length : 0,
+    orphaned: sources ? chunks.filter(c => !expectedIds.has(c.id)).length : 0,
+    stale,
+  };
+}
@@ -0,0 +1,218 @@
+// A small Markdown parser for answers. It covers what models actually write:
+// paragraphs, headings, lists, blockquotes, fenced code, rules, emphasis,
+// inline code, links and [n] citation markers. The output is a tree that the
+// page renders as React elements, never as an HTML string, so any HTML in an
+// answer is shown as text. Text nodes keep their offset into the source, so
+// grounding results and quote ranges (character offsets) can be laid over them.
+
+export type Inline =
+  | { type: 'text'; text: string; start: number }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: Inline[] }
+  | { type: 'em'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'marker'; marker: number; start: number }
+  | { type: 'break' };
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+  | { type: 'blockquote'; children: Block[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+interface Line {
+  text: string;
+  offset: number; // where `text` starts in the source
+}
+
+// Links may only point at web pages, email or this site. Everything else
+// (javascript:, data:, protocol-relative //host, ...) is rendered as plain text.
+export function safeHref(href: string): string | null {
+  if (/^(https?:\/\/|mailto:)/i.test(href)) return href;
+  if (/^\/(?![/\\])/.test(href) || href.startsWith('#')) return href;
+  return null;
+}
+
+function parseInline(text: string, base: number): Inline[] {
+  const nodes: Inline[] = [];
+  let buffer = '';
+  let bufferStart = 0;
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer, start: base + bufferStart });
+    buffer = '';
+  };
+  const literal = (ch: string, at: number) => {
+    if (!buffer) bufferStart = at;
+    buffer += ch;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    let m: RegExpMatchArray | null;
+
+    if (rest[0] === '\\' && /^\\[\\`*_[\]()>#+\-.!]/.test(rest)) {
+      literal(rest[1], i + 1);
+      i += 2;
+    } else if ((m = rest.match(/^`([^`]+)`/))) {
+      flush();
+      nodes.push({ type: 'code', text: m[1] });
+      i += m[0].length;
+    } else if ((m = rest.match(/^(\*\*|__)(?=\S)([\s\S]*?\S)\1/))) {
+      flush();
+      nodes.push({ type: 'strong', children: parseInline(m[2], base + i + 2) });
+      i += m[0].length;
+    } else if ((m = rest.match(/^\*(?=[^\s*])([\s\S]*?[^\s*])\*/)) || (/\W|^$/.test(text[i - 1] ?? '') && (m = rest.match(/^_(?=\S)([\s\S]*?\S)_(?!\w)/)))) {
+      flush();
+      nodes.push({ type: 'em', children: parseInline(m[1], base + i + 1) });
+      i += m[0].length;
+    } else if ((m = rest.match(/^\[(\d{1,2})\](?!\()/))) {
+      flush();
+      nodes.push({ type: 'marker', marker: Number(m[1]), start: base + i });
+      i += m[0].length;
+    } else if ((m = rest.match(/^\[([^\]]+)\]\(([^)\s]+)\)/))) {
+      flush();
+      const children = parseInline(m[1], base + i + 1);
+      const href = safeHref(m[2]);
+      if (href) nodes.push({ type: 'link', href, children });
+      else nodes.push(...children);
+      i += m[0].length;
+    } else {
+      literal(rest[0], i);
+      i++;
+    }
+  }
+  flush();
+  return nodes;
+}
+
+// Lines of a paragraph or heading, with line breaks kept as breaks
+function inlineLines(lines: Line[]): Inline[] {
+  return lines.flatMap((line, i) => [
+    ...(i > 0 ? [{ type: 'break' } as const] : []),
+    ...parseInline(line.text.trim(), line.offset + (line.text.length - line.text.trimStart().length)),
+  ]);
+}
+
+const FENCE = /^\s{0,3}(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s{0,3})([-*+]|\d{1,9}[.)])\s+/;
+
+function startsBlock(text: string): boolean {
+  return FENCE.test(text) || HEADING.test(text) || RULE.test(text) || QUOTE.test(text) || LIST_ITEM.test(text);
+}
+
+function parseBlocks(lines: Line[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const { text } = lines[i];
+    let m: RegExpMatchArray | null;
+
+    if (!text.trim()) {
+      i++;
+    } else if ((m = text.match(FENCE))) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].text.trimStart().startsWith(m[1])) code.push(lines[i++].text);
+      i++; // closing fence, if any
+      blocks.push({ type: 'code', text: code.join('\n') });
+    } else if ((m = text.match(HEADING))) {
+      const start = text.indexOf(m[2], m[1].length);
+      blocks.push({ type: 'heading', level: m[1].length, children: parseInline(m[2], lines[i].offset + start) });
+      i++;
+    } else if (RULE.test(text)) {
+      blocks.push({ type: 'rule' });
+      i++;
+    } else if (QUOTE.test(text)) {
+      const quoted: Line[] = [];
+      while (i < lines.length && QUOTE.test(lines[i].text)) {
+        const prefix = lines[i].text.match(QUOTE)![0].length;
+        quoted.push({ text: lines[i].text.slice(prefix), offset: lines[i].offset + prefix });
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+    } else if ((m = text.match(LIST_ITEM))) {
+      const ordered = /\d/.test(m[2]);
+      const indent = m[1].length;
+      const items: Block[][] = [];
+      // An item runs until the next marker at the same indent or an unindented line after a blank one
+      while (i < lines.length) {
+        const item = lines[i].text.match(LIST_ITEM);
+        if (!item || item[1].length !== indent || /\d/.test(item[2]) !== ordered) break;
+        const content: Line[] = [{ text: lines[i].text.slice(item[0].length), offset: lines[i].offset + item[0].length }];
+        const width = item[0].length;
+        i++;
+        while (i < lines.length) {
+          const next = lines[i].text;
+          const nested = next.match(LIST_ITEM);
+          if (nested && nested[1].length <= indent) break;
+          if (!next.trim()) {
+            // A blank line ends the item unless indented content follows
+            if (!lines[i + 1] || !/^\s{2,}\S/.test(lines[i + 1].text)) break;
+            content.push({ text: '', offset: lines[i].offset });
+          } else if (!/^\s/.test(next) && startsBlock(next)) {
+            break;
+          } else {
+            const strip = Math.min(width, next.length - next.trimStart().length);
+            content.push({ text: next.slice(strip), offset: lines[i].offset + strip });
+          }
+          i++;
+        }
+        items.push(parseBlocks(content));
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(m[2], 10) : 1, items });
+    } else {
+      const para: Line[] = [];
+      while (i < lines.length && lines[i].text.trim() && (para.length === 0 || !startsBlock(lines[i].text))) {
+        para.push(lines[i++]);
+      }
+      blocks.push({ type: 'paragraph', children: inlineLines(para) });
+    }
+  }
+  return blocks;
+}
+
+export function parseMarkdown(source: string): Block[] {
+  const lines: Line[] = [];
+  let offset = 0;
+  for (const text of source.split('\n')) {
+    lines.push({ text: text.replace(/\r$/, ''), offset });
+    offset += text.length + 1;
+  }
+  return parseBlocks(lines);
+}
+
+// Plain text without markup or citation markers, e.g. for copying a quote
+export function blockText(blocks: Block[]): string {
+  const inline = (nodes: Inline[]): string =>
+    nodes
+      .map(n => (n.type === 'text' || n.type === 'code' ? n.text : n.type === 'break' ? '\n' : n.type === 'marker' ? '' : inline(n.children)))
+      .join('');
+
+  return blocks
+    .map(b => {
+      switch (b.type) {
+        case 'paragraph':
+        case 'heading':
+          return inline(b.children);
+        case 'list':
+          return b.items.map((item, i) => `${b.ordered ? `${b.start + i}.` : '-'} ${blockText(item)}`).join('\n');
+        case 'blockquote':
+          return blockText(b.children);
+        case 'code':
+          return b.text;
+        case 'rule':
+          return '';
+      }
+    })
+    .join('\n\n')
+    .replace(/[ \t]+$/gm, '')
+    .trim();
+}
@@ -0,0 +1,169 @@
+import { ApiError, toApiError } from './api-error';
+import { limitApiKey } from './api-keys';
+import { estimateTokens, getBudgetGuard } from './budget';
+import type { Corpus } from './corpus';
+import { formatDate } from './newsletters';
+import { findRelevantChunks } from './retrieval';
+import { getNewsletterDocument, MAX_SEARCH_LIMIT, parseSearchRequest, toSearchResults, type NewsletterDocument, type SearchResult } from './search-api';
+import { Trace } from './trace';
+
+// A Model Context Protocol server for /api/mcp, over the Streamable HTTP
+// transport without sessions or server-sent streams: each POST carries one
+// JSON-RPC message and gets its reply as JSON. It offers two tools,
+// search_newsletters and get_newsletter, for the corpus in the URL.
+
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+type JsonRpcId = string | number | null;
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId; result: object }
+  | { jsonrpc: '2.0'; id: JsonRpcId; error: { code: number; message: string } };
+
+export interface McpContext {
+  corpus: Corpus;
+  origin: string; // for links to the newsletter reader
+  keyId: string; // tool calls share the caller's rate limit bucket
+}
+
+// JSON-RPC error codes
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+interface ToolResult {
+  content: { type: 'text'; text: string }[];
+  structuredContent?: object;
+  isError?: boolean;
+}
+
+const ISO_DATE = { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' };
+
+function tools(corpus: Corpus) {
+  return [
+    {
+      name: 'search_newsletters',
+      title: `Search ${corpus.archive}`,
+      description: `Find passages in ${corpus.archive} relevant to a query. Returns the best-matching excerpts, most relevant first, with their newsletter, date, section and links. Use get_newsletter to read a whole issue.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'What to look for, as a question or keywords' },
+          limit: { type: 'integer', minimum: 1, maximum: MAX_SEARCH_LIMIT, description: 'How many excerpts to return (default 8)' },
+          dateFrom: { ...ISO_DATE, description: 'Only issues published on or after this date (yyyy-mm-dd)' },
+          dateTo: { ...ISO_DATE, description: 'Only issues published on or before this date (yyyy-mm-dd)' },
+          topics: { type: 'array', items: { type: 'string' }, description: 'Only excerpts tagged with one of these topic ids' },
+        },
+        required: ['query'],
+      },
+    },
+    {
+      name: 'get_newsletter',
+      title: 'Read a newsletter',
+      description: `The full text of one issue of ${corpus.archive}, by the newsletter id that search_newsletters returns.`,
+      inputSchema: {
+        type: 'object',
+        properties: { id: { type: 'string', description: 'Newsletter id, e.g. 2026-01-14-divorce-is-awesome' } },
+        required: ['id'],
+      },
+    },
+  ];
+}
+
+function formatResults(results: SearchResult[]): string {
+  if (results.length === 0) return 'No matching passages.';
+  return results
+    .map(r => [
+      `[${r.rank}] ${r.newsletter.title}${r.section.title ? ` — ${r.section.title}` : ''} (${formatDate(r.newsletter.date)})`,
+      `Newsletter id: ${r.newsletter.id}`,
+      `Link: ${r.newsletter.url ?? r.archiveUrl}`,
+      '',
+      r.text,
+    ].join('\n'))
+    .join('\n\n---\n\n');
+}
+
+function formatNewsletter(doc: NewsletterDocument): string {
+  const sections = doc.sections.map(s => (s.heading ? `## ${s.heading}\n\n${s.text}` : s.text));
+  return [`# ${doc.title}`, `${formatDate(doc.date)} · ${doc.url ?? doc.archiveUrl}`, ...sections].join('\n\n');
+}
+
+// Problems with the arguments or the index, and running into the rate limit or
+// budget, are tool errors the agent can read, not protocol errors
+async function callTool(name: unknown, args: Record<string, unknown>, { corpus, origin, keyId }: McpContext): Promise<ToolResult> {
+  try {
+    await limitApiKey(keyId);
+    if (name === 'search_newsletters') {
+      const { query, limit, filters } = parseSearchRequest({
+        query: args.query,
+        limit: args.limit,
+        filters: { dateFrom: args.dateFrom, dateTo: args.dateTo, topics: args.topics },
+      });
+      await getBudgetGuard()?.check();
+      const trace = new Trace('/api/mcp');
+      const retrieved = await findRelevantChunks(corpus, query, limit, filters, trace);
+      trace.addTokens(estimateTokens(query), 0);
+      await getBudgetGuard()?.record(trace.totalTokens);
+      const results = toSearchResults(retrieved, corpus, origin);
+      return { content: [{ type: 'text', text: formatResults(results) }], structuredContent: { results } };
+    }
+    if (name === 'get_newsletter') {
+      if (typeof args.id !== 'string') throw new ApiError('invalid_request', 400, '`id` must be a newsletter id.');
+      const newsletter = getNewsletterDocument(corpus, args.id, origin);
+      return { content: [{ type: 'text', text: formatNewsletter(newsletter) }], structuredContent: { newsletter } };
+    }
+  } catch (e) {
+    if (!(e instanceof ApiError)) console.error('MCP Tool Error:', e instanceof Error ? e.message : e);
+    return { content: [{ type: 'text', text: toApiError(e).message }], isError: true };
+  }
+  throw new RpcError(INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+}
+
+async function dispatch(method: string, params: Record<string, unknown>, context: McpContext): Promise<object> {
+  switch (method) {
+    case 'initialize': {
+      const requested = params.protocolVersion;
+      return {
+        protocolVersion: typeof requested === 'string' && PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: { name: context.corpus.id, title: context.corpus.name, version: '0.1.0' },
+        instructions: `Search and read ${context.corpus.archive}. Quote excerpts as written and link to where they came from.`,
+      };
+    }
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return { tools: tools(context.corpus) };
+    case 'tools/call': {
+      const args = params.arguments ?? {};
+      if (typeof args !== 'object' || Array.isArray(args)) throw new RpcError(INVALID_PARAMS, '`arguments` must be an object.');
+      return callTool(params.name, args as Record<string, unknown>, context);
+    }
+    default:
+      throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+}
+
+// The reply to one JSON-RPC message, or null for notifications, which get none
+export async function handleMcpMessage(message: Record<string, unknown>, context: McpContext): Promise<JsonRpcResponse | null> {
+  const { id = null, method, params = {} } = message;
+  const isNotification = !('id' in message);
+  const validId = id === null || typeof id === 'string' || typeof id === 'number';
+
+  try {
+    if (message.jsonrpc !== '2.0' || typeof method !== 'string' || !validId) throw new RpcError(INVALID_REQUEST, 'Invalid JSON-RPC request.');
+    if (isNotification) return null;
+    if (!params || typeof params !== 'object' || Array.isArray(params)) throw new RpcError(INVALID_PARAMS, '`params` must be an object.');
+    return { jsonrpc: '2.0', id, result: await dispatch(method, params as Record<string, unknown>, context) };
+  } catch (e) {
+    if (!(e instanceof RpcError)) throw e;
+    return { jsonrpc: '2.0', id: validId ? id : null, error: { code: e.code, message: e.message } };
+  }
+}
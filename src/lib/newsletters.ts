@@ -0,0 +1,212 @@
+// Parser for newsletters.txt: one pasted web page per issue, each starting with
+// its title on the line before a standalone "Month D, YYYY" date line. Other
+// source formats (see sources/) build sections with sectionsFromBlocks or
+// parseSections, so every issue gets the same footer and boilerplate cleanup.
+
+export interface NewsletterSection {
+  id: string;
+  heading: string | null;
+  paragraphs: string[];
+}
+
+// Where an issue came from, kept on every chunk
+export interface NewsletterSource {
+  file: string; // relative to the project root
+  url: string | null; // the issue's web address, when the source has one
+}
+
+export interface Newsletter {
+  id: string;
+  title: string;
+  date: string; // ISO yyyy-mm-dd
+  sections: NewsletterSection[];
+  source?: NewsletterSource; // set by the source loader
+}
+
+// A paragraph or heading from a source that marks headings up (HTML, Markdown)
+export interface Block {
+  heading: boolean;
+  text: string;
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const DATE_LINE = /^(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{1,2}),\s+(\d{4})$/i;
+
+// Everything from the first of these lines onwards is site footer, not content
+const FOOTER_MARKERS = [
+  /^Want to read more\? Here are a few of my best past issues/i,
+  /^Did you enjoy this newsletter\?/i,
+  /^That['’]s all for this week/i,
+  /^Forwarded this message\?/i,
+  /^The Never Enough Newsletter$/i,
+  /^© \d{4} Andrew Wilkinson/,
+];
+
+// Recurring lines that carry no content of their own
+const BOILERPLATE_LINES = [
+  /^(Never Enough|Newsletter|Podcast|About)$/,
+  /^Hello friend,?$/i,
+  /^Why you['’]re getting this:/i,
+  /^Here['’]s what I['’]m thinking about/i,
+  /^That['’]s all for now/i,
+  /^-\s*Andrew$/,
+  /^Follow me on (Twitter|X|Instagram|Twitter\/X):/i,
+  /^PO Box \d+/,
+  /^Check out my podcast:/i,
+  /^Subscribe to My Twitter$/i,
+  /^Want to sell your business or know someone who does\?/i,
+];
+
+// Short link captions ("Listen here", "Spotify / YouTube / Apple Podcasts") look like headings but aren't
+const LINK_CAPTION = /(\bhere|Spotify|YouTube|Apple Podcasts?)$/i;
+
+// Zero-width characters left over from the HTML export (joiners inside emoji are kept)
+const INVISIBLE = /[\u200b\u200c\ufeff]|\u200d(?!\p{Extended_Pictographic})/gu;
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+}
+
+export function parseDate(text: string): string | null {
+  const m = text.trim().match(DATE_LINE);
+  if (!m) return null;
+  const month = MONTHS.indexOf(m[1].toLowerCase()) + 1;
+  return `${m[3]}-${String(month).padStart(2, '0')}-${m[2].padStart(2, '0')}`;
+}
+
+// Format an ISO date the way the newsletters do ("January 14, 2026")
+export function formatDate(iso: string): string {
+  const [year, month, day] = iso.split('-').map(Number);
+  if (!year || !month || !day) return iso;
+  const name = MONTHS[month - 1];
+  return `${name[0].toUpperCase()}${name.slice(1)} ${day}, ${year}`;
+}
+
+function isBoilerplate(line: string): boolean {
+  return BOILERPLATE_LINES.some(p => p.test(line));
+}
+
+function normalizeLine(line: string): string {
+  return line.replace(INVISIBLE, '').replace(/\s+/g, ' ').trim();
+}
+
+function withoutFooter<T>(items: T[], text: (item: T) => string): T[] {
+  const end = items.findIndex(item => FOOTER_MARKERS.some(p => p.test(text(item))));
+  return end >= 0 ? items.slice(0, end) : items;
+}
+
+// Section ids are heading slugs, numbered when a heading repeats
+function sectionIds() {
+  const used = new Set<string>(['intro']);
+  return (heading: string, fallback: string) => {
+    let id = slugify(heading) || fallback;
+    for (let n = 2; used.has(id); n++) id = `${slugify(heading) || fallback}-${n}`;
+    used.add(id);
+    return id;
+  };
+}
+
+// Section headings are short standalone lines without sentence punctuation,
+// e.g. "Life goals from Charlie Munger" between two paragraphs
+function isHeading(line: string, prevBlank: boolean, next: string | undefined): boolean {
+  if (!prevBlank || next === undefined) return false;
+  if (line.length < 4 || line.length > 80) return false;
+  if (/[.,:;!?…)"”'’*]$/.test(line)) return false;
+  if (!/^[\p{Lu}\d"“]/u.test(line)) return false;
+  if (line.split(/\s+/).length > 12) return false;
+  return !LINK_CAPTION.test(line);
+}
+
+function parseBody(lines: string[]): NewsletterSection[] {
+  const body = withoutFooter(lines, l => l).filter(l => !isBoilerplate(l));
+
+  const sections: NewsletterSection[] = [];
+  const nextId = sectionIds();
+  let current: NewsletterSection = { id: 'intro', heading: null, paragraphs: [] };
+
+  for (let i = 0; i < body.length; i++) {
+    const line = body[i];
+    if (!line) continue;
+
+    const next = body.slice(i + 1).find(l => l.length > 0);
+    if (current.paragraphs.length > 0 && isHeading(line, !body[i - 1], next)) {
+      sections.push(current);
+      current = { id: nextId(line, `section-${sections.length}`), heading: line, paragraphs: [] };
+      continue;
+    }
+
+    current.paragraphs.push(line);
+  }
+  if (current.paragraphs.length > 0) sections.push(current);
+
+  return sections;
+}
+
+// Sections of one issue's plain text, with headings guessed as in newsletters.txt
+export function parseSections(text: string): NewsletterSection[] {
+  return parseBody(text.split(/\r?\n/).map(normalizeLine));
+}
+
+// Sections of one issue whose headings are marked up. A heading with nothing
+// under it gives way to the next one.
+export function sectionsFromBlocks(blocks: Block[]): NewsletterSection[] {
+  const body = withoutFooter(
+    blocks.map(b => ({ ...b, text: normalizeLine(b.text) })),
+    b => b.text,
+  ).filter(b => b.text && !isBoilerplate(b.text));
+
+  const sections: NewsletterSection[] = [];
+  const nextId = sectionIds();
+  let current: NewsletterSection = { id: 'intro', heading: null, paragraphs: [] };
+  for (const block of body) {
+    if (!block.heading) {
+      current.paragraphs.push(block.text);
+      continue;
+    }
+    if (current.paragraphs.length > 0) sections.push(current);
+    current = { id: nextId(block.text, `section-${sections.length + 1}`), heading: block.text, paragraphs: [] };
+  }
+  if (current.paragraphs.length > 0) sections.push(current);
+  return sections;
+}
+
+export function parseNewsletters(content: string): Newsletter[] {
+  const lines = content.split(/\r?\n/).map(normalizeLine);
+
+  // An issue starts where a date sits alone on its line right below a title
+  const starts: number[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    if (DATE_LINE.test(lines[i]) && lines[i - 1] && !isBoilerplate(lines[i - 1])) starts.push(i);
+  }
+
+  const newsletters: Newsletter[] = [];
+  const usedIds = new Set<string>();
+
+  starts.forEach((dateIdx, n) => {
+    const title = lines[dateIdx - 1];
+    const date = parseDate(lines[dateIdx])!;
+    const end = n + 1 < starts.length ? starts[n + 1] - 1 : lines.length;
+    const sections = parseBody(lines.slice(dateIdx + 1, end));
+    if (sections.length === 0) return;
+
+    let id = `${date}-${slugify(title)}`;
+    for (let k = 2; usedIds.has(id); k++) id = `${date}-${slugify(title)}-${k}`;
+    usedIds.add(id);
+
+    newsletters.push({ id, title, date, sections });
+  });
+
+  return newsletters;
+}
+
+export function sectionText(section: NewsletterSection): string {
+  return section.paragraphs.join('\n\n');
+}
@@ -0,0 +1,107 @@
+import { ApiError } from './api-error';
+import { MAX_HISTORY_ITEMS, parseQuery } from './chat-request';
+import { trimHistory, type HistoryMessage } from './conversation';
+import { getCorpus, getDefaultCorpus, type Corpus } from './corpus';
+import type { SearchResult } from './search-api';
+
+// Request and response shapes for /v1/chat/completions, so OpenAI clients can
+// use this app as their base URL. The model names the corpus. System messages
+// are ignored: the corpus's own prompt always applies. Answers carry the
+// excerpts they cite as [n] in a `sources` field OpenAI doesn't have.
+
+// Same cap as /api/chat answers
+const MAX_COMPLETION_TOKENS = 800;
+
+export interface CompletionRequest {
+  corpus: Corpus;
+  query: string; // the last user message
+  history: HistoryMessage[];
+  stream: boolean;
+  maxTokens: number;
+}
+
+interface Usage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+const invalid = (message: string) => new ApiError('invalid_request', 400, message);
+
+// Content is a string or, in newer clients, a list of parts of which only text is read
+function messageText(content: unknown): string | null {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return null;
+  const parts = content.filter(p => p && typeof p === 'object' && p.type === 'text' && typeof p.text === 'string');
+  return parts.length > 0 ? parts.map(p => p.text).join('\n') : null;
+}
+
+export function parseCompletionRequest(body: Record<string, unknown>): CompletionRequest {
+  const { model, messages, stream = false } = body;
+  const maxTokens = body.max_completion_tokens ?? body.max_tokens ?? MAX_COMPLETION_TOKENS;
+
+  if (model !== undefined && typeof model !== 'string') throw invalid('`model` must be a corpus id.');
+  if (typeof stream !== 'boolean') throw invalid('`stream` must be a boolean.');
+  if (typeof maxTokens !== 'number' || !Number.isInteger(maxTokens) || maxTokens < 1) {
+    throw invalid('`max_tokens` must be a positive whole number.');
+  }
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_HISTORY_ITEMS) {
+    throw invalid(`\`messages\` must be an array of 1 to ${MAX_HISTORY_ITEMS} messages.`);
+  }
+
+  const chat: HistoryMessage[] = [];
+  for (const m of messages) {
+    if (!m || typeof m !== 'object') throw invalid('Each message must be an object with a `role` and `content`.');
+    if (m.role === 'system' || m.role === 'developer') continue;
+    if (m.role !== 'user' && m.role !== 'assistant') throw invalid(`Unsupported message role "${m.role}".`);
+    const text = messageText(m.content);
+    if (text?.trim()) chat.push({ role: m.role, content: text });
+  }
+  const last = chat.pop();
+  if (last?.role !== 'user') throw invalid('The last message must be from the user.');
+
+  return {
+    corpus: model ? getCorpus(model) : getDefaultCorpus(),
+    query: parseQuery(last.content, 'messages'),
+    history: trimHistory(chat),
+    stream,
+    maxTokens: Math.min(maxTokens, MAX_COMPLETION_TOKENS),
+  };
+}
+
+export function completionResponse(id: string, model: string, content: string, usage: Usage, sources: SearchResult[]) {
+  return {
+    id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage,
+    sources,
+  };
+}
+
+// Streams start with the role (and sources), then content deltas, then a chunk with the finish reason
+export function completionChunk(
+  id: string,
+  model: string,
+  delta: { role?: 'assistant'; content?: string },
+  finishReason: 'stop' | null = null,
+  sources?: SearchResult[],
+) {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+    ...(sources ? { sources } : {}),
+  };
+}
+
+const encoder = new TextEncoder();
+
+// Server-sent events, ending with "data: [DONE]" as OpenAI streams do
+export function encodeSse(data: object | '[DONE]'): Uint8Array {
+  return encoder.encode(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+}
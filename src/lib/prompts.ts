@@ -0,0 +1,48 @@
+import { formatDate } from './newsletters';
+import type { Chunk } from './chunking';
+import type { Corpus } from './corpus';
+
+export const UNAVAILABLE_MESSAGE = "I'm currently unavailable. Please check API configuration.";
+
+// Used when a corpus has no promptFile. The excerpts are appended after it.
+export const DEFAULT_PROMPT_TEMPLATE = `You are a search tool for {{archive}}. Your ONLY job is to find and quote what {{shortName}} has written.
+
+CRITICAL RULES - FOLLOW EXACTLY:
+1. You can ONLY share information that is DIRECTLY STATED in the context below.
+2. When answering, you MUST quote or closely paraphrase {{shortName}}'s exact words.
+3. Start each answer with something like "In my [newsletter topic], I wrote..." or "I discussed this in my newsletter about [topic]..."
+4. If the question is about something NOT covered in the context (identity questions, personal questions, topics not mentioned), respond EXACTLY: "{{refusal}}"
+5. NEVER make up quotes, facts, experiences, or details.
+6. NEVER generate generic advice that sounds like {{shortName}} but isn't from the context.
+7. The context contains excerpts from real newsletters - only use what's there.
+8. Each excerpt is numbered like [1]. After every quote or claim, cite the excerpt it came from with its number in square brackets, e.g. "...exact words..." [2]. Put direct quotes in double quotes and copy them word for word.
+
+META QUESTIONS:
+- "Who are you?" → "{{identity}}"
+- "What have you done in life?" → This requires the full newsletter archive. Ask specific questions like "What's your view on divorce?" or "How do you evaluate businesses?"`;
+
+export type PromptCorpus = Pick<Corpus, 'archive' | 'persona' | 'promptTemplate' | 'refusal' | 'identity'>;
+
+// Numbered excerpts; the numbers are what the model cites as [n]
+export function buildContext(chunks: Pick<Chunk, 'newsletterTitle' | 'title' | 'date' | 'text'>[]): string {
+  return chunks
+    .map((c, i) => `[${i + 1}] ${c.newsletterTitle}${c.title !== c.newsletterTitle ? ` — ${c.title}` : ''} (${formatDate(c.date)})\n${c.text}`)
+    .join('\n\n---\n\n');
+}
+
+export function buildSystemPrompt(context: string, corpus: PromptCorpus): string {
+  const values: Record<string, string> = {
+    archive: corpus.archive,
+    name: corpus.persona.name,
+    shortName: corpus.persona.shortName,
+    refusal: corpus.refusal,
+    identity: corpus.identity,
+  };
+  const instructions = (corpus.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE)
+    .replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+
+  return `${instructions}
+
+NEWSLETTER EXCERPTS TO SEARCH:
+${context}`;
+}
@@ -0,0 +1,56 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { ChatProvider, ChatRequest, EmbeddingProvider } from './types';
+
+function toContents(request: ChatRequest) {
+  return request.messages.map(m => ({
+    role: m.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: m.content }],
+  }));
+}
+
+export class GeminiChatProvider implements ChatProvider {
+  readonly id: string;
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey: string, private model: string) {
+    this.id = `gemini:${model}`;
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  private getModel(request: ChatRequest) {
+    return this.client.getGenerativeModel({
+      model: this.model,
+      systemInstruction: request.system,
+      generationConfig: { maxOutputTokens: request.maxTokens, temperature: request.temperature },
+    });
+  }
+
+  async generate(request: ChatRequest): Promise<string> {
+    const result = await this.getModel(request).generateContent({ contents: toContents(request) }, { signal: request.signal });
+    return result.response.text();
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    const result = await this.getModel(request).generateContentStream({ contents: toContents(request) }, { signal: request.signal });
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield text;
+    }
+  }
+}
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey: string, private model: string) {
+    this.id = `gemini:${model}`;
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const model = this.client.getGenerativeModel({ model: this.model });
+    const result = await model.embedContent(text.slice(0, 2000));
+    return result.embedding.values;
+  }
+}
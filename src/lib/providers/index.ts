@@ -0,0 +1,97 @@
+import { GeminiChatProvider, GeminiEmbeddingProvider } from './gemini';
+import { LocalChatProvider, LocalEmbeddingProvider } from './local';
+import { OpenAICompatibleChatProvider, OpenAICompatibleEmbeddingProvider } from './openai-compatible';
+import { OpenRouterChatProvider } from './openrouter';
+import { ProviderConfigError, type ChatProvider, type EmbeddingProvider } from './types';
+
+export * from './types';
+
+// Provider selection is configured through the environment:
+//   EMBEDDING_PROVIDER  gemini (default) | openai | local
+//   CHAT_PROVIDERS      comma-separated fallback order, default "openrouter,gemini"
+// Model overrides: GEMINI_EMBEDDING_MODEL, GEMINI_CHAT_MODEL, OPENROUTER_MODEL,
+// OPENAI_EMBEDDING_MODEL, OPENAI_CHAT_MODEL; OPENAI_BASE_URL targets any compatible endpoint.
+
+const DEFAULT_CHAT_PROVIDERS = 'openrouter,gemini';
+const CHAT_PROVIDER_NAMES = ['openrouter', 'gemini', 'openai', 'local'];
+
+function env(name: string, fallback?: string): string | undefined {
+  return process.env[name]?.trim() || fallback;
+}
+
+function requireKey(name: string, provider: string): string {
+  const key = env(name);
+  if (!key) throw new ProviderConfigError(`${name} is required for the ${provider} provider`);
+  return key;
+}
+
+export function createEmbeddingProvider(name = env('EMBEDDING_PROVIDER', 'gemini')!): EmbeddingProvider {
+  switch (name) {
+    case 'gemini':
+      return new GeminiEmbeddingProvider(
+        requireKey('GEMINI_API_KEY', name),
+        env('GEMINI_EMBEDDING_MODEL', 'text-embedding-004')!,
+      );
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider({
+        apiKey: requireKey('OPENAI_API_KEY', name),
+        baseURL: env('OPENAI_BASE_URL'),
+        model: env('OPENAI_EMBEDDING_MODEL', 'text-embedding-3-small')!,
+      });
+    case 'local':
+      return new LocalEmbeddingProvider();
+    default:
+      throw new ProviderConfigError(`Unknown embedding provider "${name}"`);
+  }
+}
+
+export function createChatProvider(name: string): ChatProvider {
+  switch (name) {
+    case 'openrouter':
+      return new OpenRouterChatProvider(
+        requireKey('OPENROUTER_API_KEY', name),
+        env('OPENROUTER_MODEL', 'openrouter/auto')!,
+      );
+    case 'gemini':
+      return new GeminiChatProvider(
+        requireKey('GEMINI_API_KEY', name),
+        env('GEMINI_CHAT_MODEL', 'gemini-1.5-flash-latest')!,
+      );
+    case 'openai':
+      return new OpenAICompatibleChatProvider({
+        apiKey: requireKey('OPENAI_API_KEY', name),
+        baseURL: env('OPENAI_BASE_URL'),
+        model: env('OPENAI_CHAT_MODEL', 'gpt-4o-mini')!,
+      });
+    case 'local':
+      return new LocalChatProvider();
+    default:
+      throw new ProviderConfigError(`Unknown chat provider "${name}"`);
+  }
+}
+
+// Fallback chain in configured order. Providers without keys are skipped, as
+// the route has always done, so a partial configuration still works.
+export function createChatProviders(names = env('CHAT_PROVIDERS', DEFAULT_CHAT_PROVIDERS)!): ChatProvider[] {
+  const providers: ChatProvider[] = [];
+  for (const name of names.split(',').map(n => n.trim()).filter(Boolean)) {
+    if (!CHAT_PROVIDER_NAMES.includes(name)) throw new ProviderConfigError(`Unknown chat provider "${name}"`);
+    try {
+      providers.push(createChatProvider(name));
+    } catch (e) {
+      if (!(e instanceof ProviderConfigError)) throw e;
+    }
+  }
+  return providers;
+}
+
+let embeddingProvider: EmbeddingProvider | null = null;
+let chatProviders: ChatProvider[] | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return (embeddingProvider ??= createEmbeddingProvider());
+}
+
+export function getChatProviders(): ChatProvider[] {
+  return (chatProviders ??= createChatProviders());
+}
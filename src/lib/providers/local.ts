@@ -0,0 +1,109 @@
+import { tokenize } from '../tokenize';
+import type { ChatProvider, ChatRequest, EmbeddingProvider } from './types';
+
+// Deterministic offline providers: no network, no API keys. Used for CI and
+// local development (EMBEDDING_PROVIDER=local CHAT_PROVIDERS=local).
+
+const LOCAL_DIMENSIONS = 256;
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Feature-hashed bag of words: similar wording gives similar vectors, which is
+// enough for retrieval to behave sensibly in tests
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id = `local:hash-${LOCAL_DIMENSIONS}`;
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    for (const token of tokenize(text)) {
+      const h = hash(token);
+      vector[h % LOCAL_DIMENSIONS] += h & 0x80000000 ? -1 : 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map(v => v / norm);
+  }
+}
+
+const MIN_OVERLAP = 2;
+
+interface Excerpt {
+  marker: number;
+  title: string;
+  text: string;
+}
+
+// Read the numbered excerpts back out of the system prompt built by buildSystemPrompt
+function parseExcerpts(system: string): Excerpt[] {
+  const start = system.indexOf('NEWSLETTER EXCERPTS TO SEARCH:');
+  if (start < 0) return [];
+  return system
+    .slice(start)
+    .split('\n\n---\n\n')
+    .map(block => block.replace(/^NEWSLETTER EXCERPTS TO SEARCH:\n/, '').match(/^\[(\d+)\] ([^\n]*)\n([\s\S]*)$/))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map(m => ({ marker: Number(m[1]), title: m[2].replace(/ \([^)]*\)$/, ''), text: m[3] }));
+}
+
+// The corpus's canned replies, as the prompt spells them out
+function cannedReplies(system: string): { refusal: string; identity: string | null } {
+  return {
+    refusal: system.match(/respond EXACTLY: "(.+)"$/m)?.[1] ?? "That's not something the archive covers.",
+    identity: system.match(/"Who are you\?" → "(.+)"$/m)?.[1] ?? null,
+  };
+}
+
+function overlap(a: Set<string>, text: string): number {
+  return new Set(tokenize(text).filter(w => a.has(w))).size;
+}
+
+// Canned answer: quote the excerpt sentence that best matches the question, or refuse
+export function cannedAnswer(request: ChatRequest): string {
+  const question = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+
+  const { refusal, identity } = cannedReplies(request.system ?? '');
+  if (identity && /\bwho are you\b/i.test(question)) return identity;
+
+  const excerpts = parseExcerpts(request.system ?? '');
+  if (excerpts.length === 0) {
+    // Query rewriting, titles and other utility prompts: echo the question back
+    return question.match(/(?:FOLLOW-UP )?QUESTION: (.+)/)?.[1]?.trim() ?? question;
+  }
+
+  const terms = new Set(tokenize(question));
+  let best: { excerpt: Excerpt; sentence: string; score: number } | null = null;
+  for (const excerpt of excerpts) {
+    for (const sentence of excerpt.text.split(/(?<=[.!?])\s+|\n+/)) {
+      if (sentence.length < 20 || sentence.includes('"')) continue;
+      const score = overlap(terms, sentence);
+      if (score > (best?.score ?? 0)) best = { excerpt, sentence: sentence.trim(), score };
+    }
+  }
+
+  // A single shared word is usually coincidence, so off-topic questions still get refused
+  if (!best || best.score < Math.min(MIN_OVERLAP, terms.size)) return refusal;
+  return `I wrote about this in ${best.excerpt.title}: "${best.sentence}" [${best.excerpt.marker}]`;
+}
+
+export class LocalChatProvider implements ChatProvider {
+  readonly id = 'local:canned';
+
+  async generate(request: ChatRequest): Promise<string> {
+    return cannedAnswer(request);
+  }
+
+  // Emits the canned answer word by word, like a real provider would
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    for (const token of cannedAnswer(request).split(/(?<=\s)/)) {
+      if (request.signal?.aborted) return;
+      yield token;
+    }
+  }
+}
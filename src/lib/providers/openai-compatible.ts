@@ -0,0 +1,70 @@
+import OpenAI from 'openai';
+import type { ChatProvider, ChatRequest, EmbeddingProvider } from './types';
+
+// Any endpoint that speaks the OpenAI API: OpenAI itself, Together, Ollama, vLLM, LM Studio...
+export interface OpenAICompatibleOptions {
+  apiKey: string;
+  baseURL?: string;
+  model: string;
+}
+
+function toMessages(request: ChatRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return [
+    ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+    ...request.messages,
+  ];
+}
+
+export class OpenAICompatibleChatProvider implements ChatProvider {
+  readonly id: string;
+  private client: OpenAI;
+  private model: string;
+
+  constructor({ apiKey, baseURL, model }: OpenAICompatibleOptions) {
+    this.id = `openai:${model}`;
+    this.client = new OpenAI({ apiKey, baseURL });
+    this.model = model;
+  }
+
+  async generate(request: ChatRequest): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: toMessages(request),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    }, { signal: request.signal });
+    return completion.choices[0]?.message?.content ?? '';
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: toMessages(request),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+    }, { signal: request.signal });
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private client: OpenAI;
+  private model: string;
+
+  constructor({ apiKey, baseURL, model }: OpenAICompatibleOptions) {
+    this.id = `openai:${model}`;
+    this.client = new OpenAI({ apiKey, baseURL });
+    this.model = model;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const result = await this.client.embeddings.create({ model: this.model, input: text.slice(0, 8000) });
+    return result.data[0].embedding;
+  }
+}
@@ -0,0 +1,46 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { generateText, streamText, type LanguageModel } from 'ai';
+import type { ChatProvider, ChatRequest } from './types';
+
+// OpenRouter through the AI SDK (auto-routes to the best available model by default)
+export class OpenRouterChatProvider implements ChatProvider {
+  readonly id: string;
+  private languageModel: LanguageModel;
+
+  constructor(apiKey: string, model: string) {
+    this.id = `openrouter:${model}`;
+    this.languageModel = createOpenAI({
+      baseURL: 'https://openrouter.ai/api/v1',
+      apiKey,
+      headers: { 'HTTP-Referer': 'https://ask-andrew.vercel.app' },
+    }).chat(model);
+  }
+
+  async generate(request: ChatRequest): Promise<string> {
+    const { text } = await generateText({
+      model: this.languageModel,
+      system: request.system,
+      messages: request.messages,
+      maxOutputTokens: request.maxTokens,
+      temperature: request.temperature,
+      abortSignal: request.signal,
+    });
+    return text;
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    const result = streamText({
+      model: this.languageModel,
+      system: request.system,
+      messages: request.messages,
+      maxOutputTokens: request.maxTokens,
+      temperature: request.temperature,
+      abortSignal: request.signal,
+    });
+
+    for await (const part of result.fullStream) {
+      if (part.type === 'text-delta') yield part.text;
+      else if (part.type === 'error') throw part.error;
+    }
+  }
+}
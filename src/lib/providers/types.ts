@@ -0,0 +1,30 @@
+import type { HistoryMessage } from '../conversation';
+
+export interface ChatRequest {
+  system?: string;
+  messages: HistoryMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface ChatProvider {
+  // e.g. "openrouter:openrouter/auto", recorded alongside answers for debugging
+  readonly id: string;
+  generate(request: ChatRequest): Promise<string>;
+  stream(request: ChatRequest): AsyncGenerator<string>;
+}
+
+export interface EmbeddingProvider {
+  // e.g. "gemini:text-embedding-004", recorded in the index manifest
+  readonly id: string;
+  embed(text: string): Promise<number[]>;
+}
+
+// The selected provider is missing an API key or is unknown
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
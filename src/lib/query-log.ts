@@ -0,0 +1,168 @@
+import fs from 'fs';
+import path from 'path';
+import { normalizeQuery } from './answer-cache';
+import type { Corpus } from './corpus';
+import { classifyReply, type ExpectedReply } from './eval';
+import { UNAVAILABLE_MESSAGE } from './prompts';
+import type { TraceRecord } from './trace';
+
+// Every question asked, for the analytics on /admin. One line per finished
+// /api/chat request is appended to a JSON Lines file on this server
+// (QUERY_LOG_PATH, default .data/queries.jsonl); nothing leaves the machine.
+// QUERY_LOG=off turns it off.
+
+// The canned replies are told apart from answers as in the eval
+export type QueryReply = ExpectedReply | 'unavailable';
+
+export interface QueryLogEntry {
+  id: string; // the request's trace id
+  at: string;
+  corpus: string;
+  query: string;
+  searchQuery: string | null; // the rewritten query, for follow-ups that were rewritten
+  status: TraceRecord['status'];
+  errorCode: string | null;
+  reply: QueryReply | null; // null when no answer was finished
+  cached: 'exact' | 'semantic' | null;
+  durationMs: number;
+  firstTokenMs: number | null;
+  provider: string | null;
+  chunkIds: string[];
+}
+
+export interface QueryLogStore {
+  append(entry: QueryLogEntry): Promise<void>;
+  // Oldest first
+  list(since?: Date): Promise<QueryLogEntry[]>;
+}
+
+export class JsonlQueryLogStore implements QueryLogStore {
+  constructor(private file: string) {}
+
+  async append(entry: QueryLogEntry): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.appendFile(this.file, JSON.stringify(entry) + '\n');
+  }
+
+  async list(since?: Date): Promise<QueryLogEntry[]> {
+    if (!fs.existsSync(this.file)) return [];
+    const from = since?.toISOString() ?? '';
+    const entries: QueryLogEntry[] = [];
+    for (const line of (await fs.promises.readFile(this.file, 'utf-8')).split('\n')) {
+      if (!line.trim()) continue;
+      const entry: QueryLogEntry = JSON.parse(line);
+      if (entry.at >= from) entries.push(entry);
+    }
+    return entries;
+  }
+}
+
+let store: QueryLogStore | null | undefined;
+
+export function getQueryLog(): QueryLogStore | null {
+  if (store === undefined) {
+    store = process.env.QUERY_LOG?.trim().toLowerCase() === 'off'
+      ? null
+      : new JsonlQueryLogStore(process.env.QUERY_LOG_PATH?.trim() || path.join(process.cwd(), '.data', 'queries.jsonl'));
+  }
+  return store;
+}
+
+export interface AskedQuery {
+  corpus: Corpus;
+  query: string;
+  searchQuery?: string;
+  answer?: string; // the reply as the user saw it, when there was one
+}
+
+export function queryLogEntry(record: TraceRecord, asked: AskedQuery): QueryLogEntry {
+  const { answer, corpus } = asked;
+  const cache = record.attributes.cache;
+  const errorCode = record.attributes.errorCode;
+  return {
+    id: record.id,
+    at: record.startedAt,
+    corpus: corpus.id,
+    query: asked.query,
+    searchQuery: asked.searchQuery && asked.searchQuery !== asked.query ? asked.searchQuery : null,
+    status: record.status,
+    errorCode: typeof errorCode === 'string' ? errorCode : null,
+    reply: !answer ? null : answer === UNAVAILABLE_MESSAGE ? 'unavailable' : classifyReply(answer, corpus),
+    cached: cache === 'exact' || cache === 'semantic' ? cache : null,
+    durationMs: record.durationMs,
+    firstTokenMs: record.stages.find(s => s.name === 'first_token')?.ms ?? null,
+    provider: record.provider,
+    chunkIds: record.retrieval.map(r => r.chunkId),
+  };
+}
+
+// Record a finished request. Failing to write the log never fails the request.
+export function logQuery(record: TraceRecord | null, asked: AskedQuery) {
+  const log = getQueryLog();
+  if (!log || !record) return;
+  log.append(queryLogEntry(record, asked)).catch(e => {
+    console.error('Query log error:', e instanceof Error ? e.message : e);
+  });
+}
+
+export interface TopQuery {
+  query: string; // as it was first asked
+  count: number;
+  refusals: number;
+  lastAskedAt: string;
+}
+
+export interface QueryStats {
+  total: number;
+  answered: number; // requests that finished with a reply
+  errorRate: number;
+  refusalRate: number; // of answered requests
+  cacheHitRate: number;
+  latencyMs: { p50: number; p95: number }; // of successful, uncached requests
+  firstTokenMs: { p50: number; p95: number };
+  topQueries: TopQuery[];
+  refused: QueryLogEntry[]; // most recent first
+  slowest: QueryLogEntry[];
+}
+
+const LIST_LENGTH = 20;
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+const rate = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+// Questions are grouped the way the answer cache matches them: case, spacing and trailing punctuation aside
+export function summarizeQueries(entries: QueryLogEntry[]): QueryStats {
+  const answered = entries.filter(e => e.reply !== null);
+  const generated = entries.filter(e => e.status === 'ok' && !e.cached);
+
+  const groups = new Map<string, TopQuery>();
+  for (const e of entries) {
+    const key = normalizeQuery(e.query);
+    const group = groups.get(key) ?? { query: e.query, count: 0, refusals: 0, lastAskedAt: e.at };
+    group.count++;
+    if (e.reply === 'refusal') group.refusals++;
+    if (e.at > group.lastAskedAt) group.lastAskedAt = e.at;
+    groups.set(key, group);
+  }
+
+  return {
+    total: entries.length,
+    answered: answered.length,
+    errorRate: rate(entries.filter(e => e.status === 'error').length, entries.length),
+    refusalRate: rate(answered.filter(e => e.reply === 'refusal').length, answered.length),
+    cacheHitRate: rate(entries.filter(e => e.cached).length, entries.length),
+    latencyMs: { p50: percentile(generated.map(e => e.durationMs), 50), p95: percentile(generated.map(e => e.durationMs), 95) },
+    firstTokenMs: {
+      p50: percentile(generated.flatMap(e => e.firstTokenMs ?? []), 50),
+      p95: percentile(generated.flatMap(e => e.firstTokenMs ?? []), 95),
+    },
+    topQueries: [...groups.values()].sort((a, b) => b.count - a.count || b.lastAskedAt.localeCompare(a.lastAskedAt)).slice(0, LIST_LENGTH),
+    refused: answered.filter(e => e.reply === 'refusal').reverse().slice(0, LIST_LENGTH),
+    slowest: [...generated].sort((a, b) => b.durationMs - a.durationMs).slice(0, LIST_LENGTH),
+  };
+}
@@ -0,0 +1,100 @@
+// Per-client token bucket rate limiting. Bucket state lives behind a store
+// interface so a shared store (Redis, KV) can replace the in-memory default
+// when the app runs on more than one instance.
+//
+//   RATE_LIMIT_PER_MINUTE  sustained requests per minute per client, default 10 (0 disables)
+//   RATE_LIMIT_BURST       bucket size, i.e. requests allowed back to back, default 5
+//   TRUSTED_PROXY_HOPS     proxies in front of the app that append to X-Forwarded-For, default 1
+//   CLIENT_IP_HEADER       read the client IP from this header instead, if the platform sets one
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number; // ms since epoch
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<TokenBucket | null>;
+  set(key: string, bucket: TokenBucket, ttlMs: number): Promise<void>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+// Entries expire once their bucket would be full again, so idle clients don't accumulate
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { bucket: TokenBucket; expiresAt: number }>();
+
+  async get(key: string): Promise<TokenBucket | null> {
+    const entry = this.buckets.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.buckets.delete(key);
+      return null;
+    }
+    return entry.bucket;
+  }
+
+  async set(key: string, bucket: TokenBucket, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    if (this.buckets.size > 10_000) {
+      for (const [k, e] of this.buckets) if (e.expiresAt <= now) this.buckets.delete(k);
+    }
+    this.buckets.set(key, { bucket, expiresAt: now + ttlMs });
+  }
+}
+
+export class RateLimiter {
+  constructor(
+    private store: RateLimitStore,
+    private capacity: number,
+    private refillPerMs: number,
+  ) {}
+
+  async consume(key: string, now = Date.now()): Promise<RateLimitResult> {
+    const previous = await this.store.get(key);
+    const elapsed = previous ? Math.max(0, now - previous.updatedAt) : 0;
+    const tokens = previous ? Math.min(this.capacity, previous.tokens + elapsed * this.refillPerMs) : this.capacity;
+    const ttlMs = Math.ceil(this.capacity / this.refillPerMs);
+
+    if (tokens < 1) {
+      await this.store.set(key, { tokens, updatedAt: now }, ttlMs);
+      return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / this.refillPerMs) };
+    }
+
+    await this.store.set(key, { tokens: tokens - 1, updatedAt: now }, ttlMs);
+    return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 };
+  }
+}
+
+// The client's address as our own proxies saw it. Clients can send any
+// X-Forwarded-For they like and each proxy appends to it, so only the hop
+// added by the outermost trusted proxy counts, TRUSTED_PROXY_HOPS from the right.
+// CLIENT_IP_HEADER names a header the platform sets itself instead, e.g.
+// cf-connecting-ip behind Cloudflare.
+export function clientIp(request: Request): string {
+  const header = process.env.CLIENT_IP_HEADER?.trim();
+  if (header) return request.headers.get(header)?.trim() || 'unknown';
+
+  const hops = request.headers.get('x-forwarded-for')?.split(',').map(h => h.trim()).filter(Boolean) ?? [];
+  const trusted = Math.max(1, Math.floor(numberEnv('TRUSTED_PROXY_HOPS', 1)));
+  const forwarded = hops.length > 0 ? hops[Math.max(0, hops.length - trusted)] : undefined;
+  return forwarded || request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+function numberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]?.trim() || fallback);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+let limiter: RateLimiter | null | undefined;
+
+export function getRateLimiter(): RateLimiter | null {
+  if (limiter !== undefined) return limiter;
+  const perMinute = numberEnv('RATE_LIMIT_PER_MINUTE', 10);
+  const burst = Math.max(1, numberEnv('RATE_LIMIT_BURST', 5));
+  limiter = perMinute > 0 ? new RateLimiter(new MemoryRateLimitStore(), burst, perMinute / 60_000) : null;
+  return limiter;
+}
@@ -0,0 +1,55 @@
+import { estimateTokens } from './budget';
+import type { Chunk } from './chunking';
+import { getChatProviders, type ChatProvider } from './providers';
+import type { Trace } from './trace';
+
+// Optional second-stage ranking of the fused candidates (RERANKER=llm enables it)
+export interface Reranker {
+  readonly id: string;
+  // One relevance score in [0, 1] per chunk, in the same order. Model calls add
+  // their tokens to the request's trace, when there is one.
+  rerank(query: string, chunks: Chunk[], trace?: Trace): Promise<number[]>;
+}
+
+// Asks the chat model to grade every candidate in a single call
+export class LlmReranker implements Reranker {
+  readonly id: string;
+
+  constructor(private provider: ChatProvider) {
+    this.id = `llm:${provider.id}`;
+  }
+
+  async rerank(query: string, chunks: Chunk[], trace?: Trace): Promise<number[]> {
+    const passages = chunks
+      .map((c, i) => `[${i + 1}] ${c.text.slice(0, 600).replace(/\s+/g, ' ')}`)
+      .join('\n\n');
+    const prompt = `Rate how well each passage answers the question, from 0 (irrelevant) to 10 (directly answers it).
+Reply with a JSON array of ${chunks.length} numbers in passage order and nothing else.
+
+QUESTION: ${query}
+
+PASSAGES:
+${passages}`;
+    const text = await this.provider.generate({
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: 200,
+      temperature: 0,
+    });
+    trace?.addTokens(estimateTokens(prompt), estimateTokens(text));
+
+    const scores = JSON.parse(text.slice(text.indexOf('['), text.lastIndexOf(']') + 1));
+    if (!Array.isArray(scores) || scores.length !== chunks.length) {
+      throw new Error(`Reranker returned ${Array.isArray(scores) ? scores.length : 'no'} scores for ${chunks.length} passages`);
+    }
+    return scores.map(s => Math.min(Math.max(Number(s) || 0, 0), 10) / 10);
+  }
+}
+
+let reranker: Reranker | null | undefined;
+
+export function getReranker(): Reranker | null {
+  if (reranker !== undefined) return reranker;
+  const provider = process.env.RERANKER === 'llm' ? getChatProviders()[0] : undefined;
+  reranker = provider ? new LlmReranker(provider) : null;
+  return reranker;
+}
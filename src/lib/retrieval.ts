@@ -0,0 +1,235 @@
+import { Bm25Index } from './bm25';
+import type { Chunk } from './chunking';
+import { personaStopwords, type Corpus } from './corpus';
+import { hasFilters, matchesFilters, type SearchFilters } from './filters';
+import { getEmbeddingProvider } from './providers';
+import { getReranker, type Reranker } from './rerank';
+import { IndexUnavailableError, loadIndex, type IndexManifest } from './search-index';
+import type { Trace } from './trace';
+import { normalize, topRows, type IvfIndex, type VectorMatrix } from './vectors';
+
+// Hybrid retrieval: vector similarity and BM25 keyword search fused with
+// reciprocal rank fusion, an optional reranking pass, then MMR for diversity.
+
+export interface RetrievalScores {
+  vector: number | null;
+  vectorRank: number | null;
+  keyword: number | null;
+  keywordRank: number | null;
+  fused: number;
+  rerank: number | null;
+}
+
+export interface RetrievedChunk {
+  chunk: Chunk;
+  scores: RetrievalScores;
+}
+
+export interface RetrievalOptions {
+  topK: number;
+  filters?: SearchFilters;
+  reranker?: Reranker | null;
+  // Clusters to scan when the index has an IVF structure; unfiltered searches only
+  probes?: number;
+  // Collects the reranker's token usage for the budget
+  trace?: Trace;
+}
+
+// Chunks passed to the model as context
+export const DEFAULT_TOP_K = 4;
+
+const CANDIDATES_PER_RETRIEVER = 50;
+const RERANK_POOL = 20;
+const RRF_K = 60;
+const MMR_LAMBDA = 0.7;
+const MAX_PER_NEWSLETTER = 2;
+const DEFAULT_IVF_PROBES = 8;
+
+export class Retriever {
+  private keywordIndex: Bm25Index;
+  private rows: Map<string, number>;
+  private byId: Map<string, Chunk>;
+
+  // vectors holds one normalized row per chunk, in the same order; stopwords
+  // are the corpus's own, on top of the tokenizer's
+  constructor(readonly chunks: Chunk[], private vectors: VectorMatrix, private ivf: IvfIndex | null = null, stopwords?: ReadonlySet<string>) {
+    if (vectors.count !== chunks.length) throw new Error(`${vectors.count} vectors for ${chunks.length} chunks`);
+    this.keywordIndex = new Bm25Index(chunks, stopwords);
+    this.rows = new Map(chunks.map((c, i) => [c.id, i]));
+    this.byId = new Map(chunks.map(c => [c.id, c]));
+  }
+
+  private cosine(a: Chunk, b: Chunk): number {
+    return this.vectors.similarity(this.rows.get(a.id)!, this.rows.get(b.id)!);
+  }
+
+  async search(query: string, queryEmbedding: number[], { topK, filters, reranker, probes = DEFAULT_IVF_PROBES, trace }: RetrievalOptions): Promise<RetrievedChunk[]> {
+    const unit = normalize(queryEmbedding);
+
+    // Filters narrow the corpus before either retriever ranks anything
+    const filtered = filters && hasFilters(filters);
+    const eligible = filtered ? this.chunks.filter(c => matchesFilters(c, filters)) : this.chunks;
+    if (eligible.length === 0) return [];
+
+    // The IVF index only helps a full scan; a filtered set is scanned exactly
+    const rows = filtered
+      ? eligible.map(c => this.rows.get(c.id)!)
+      : this.ivf ? this.ivf.candidates(unit, probes) : this.chunks.keys();
+    const vectorHits = topRows(this.vectors, unit, rows, CANDIDATES_PER_RETRIEVER)
+      .map(hit => ({ id: this.chunks[hit.row].id, score: hit.score }));
+    const keywordHits = this.keywordIndex.search(
+      query,
+      CANDIDATES_PER_RETRIEVER,
+      filtered ? new Set(eligible.map(c => c.id)) : undefined,
+    );
+
+    // Reciprocal rank fusion: rank matters, raw score scales don't
+    const candidates = new Map<string, RetrievedChunk>();
+    const entry = (id: string) => {
+      let c = candidates.get(id);
+      if (!c) {
+        c = {
+          chunk: this.byId.get(id)!,
+          scores: { vector: null, vectorRank: null, keyword: null, keywordRank: null, fused: 0, rerank: null },
+        };
+        candidates.set(id, c);
+      }
+      return c;
+    };
+    vectorHits.forEach((hit, rank) => {
+      const c = entry(hit.id);
+      Object.assign(c.scores, { vector: hit.score, vectorRank: rank + 1 });
+      c.scores.fused += 1 / (RRF_K + rank + 1);
+    });
+    keywordHits.forEach((hit, rank) => {
+      const c = entry(hit.id);
+      Object.assign(c.scores, { keyword: hit.score, keywordRank: rank + 1 });
+      c.scores.fused += 1 / (RRF_K + rank + 1);
+    });
+
+    const pool = [...candidates.values()]
+      .sort((a, b) => b.scores.fused - a.scores.fused)
+      .slice(0, RERANK_POOL);
+
+    if (reranker && pool.length > 0) {
+      try {
+        const scores = await reranker.rerank(query, pool.map(p => p.chunk), trace);
+        pool.forEach((p, i) => { p.scores.rerank = scores[i]; });
+      } catch (e) {
+        console.error(`${reranker.id} rerank failed:`, e instanceof Error ? e.message : e);
+      }
+    }
+
+    return this.diversify(pool, topK);
+  }
+
+  // Maximal marginal relevance, plus a cap on chunks from any one newsletter
+  private diversify(pool: RetrievedChunk[], topK: number): RetrievedChunk[] {
+    const relevance = pool.map(p => p.scores.rerank ?? p.scores.fused);
+    const max = Math.max(...relevance);
+    const min = Math.min(...relevance);
+    const normalized = relevance.map(r => (max > min ? (r - min) / (max - min) : 1));
+
+    const selected: number[] = [];
+    const perNewsletter = new Map<string, number>();
+
+    const pick = (allowOverCap: boolean) => {
+      let best = -1;
+      let bestScore = -Infinity;
+      for (let i = 0; i < pool.length; i++) {
+        if (selected.includes(i)) continue;
+        if (!allowOverCap && (perNewsletter.get(pool[i].chunk.newsletterId) ?? 0) >= MAX_PER_NEWSLETTER) continue;
+
+        const redundancy = selected.length
+          ? Math.max(...selected.map(j => this.cosine(pool[i].chunk, pool[j].chunk)))
+          : 0;
+        const score = MMR_LAMBDA * normalized[i] - (1 - MMR_LAMBDA) * redundancy;
+        if (score > bestScore) {
+          best = i;
+          bestScore = score;
+        }
+      }
+      return best;
+    };
+
+    while (selected.length < Math.min(topK, pool.length)) {
+      // Only go over the per-newsletter cap when nothing else is left
+      let best = pick(false);
+      if (best < 0) best = pick(true);
+      if (best < 0) break;
+
+      selected.push(best);
+      const nl = pool[best].chunk.newsletterId;
+      perNewsletter.set(nl, (perNewsletter.get(nl) ?? 0) + 1);
+    }
+
+    return selected.map(i => pool[i]);
+  }
+}
+
+interface LoadedIndex {
+  retriever: Retriever;
+  manifest: IndexManifest;
+}
+
+const loaded = new Map<string, LoadedIndex>();
+
+// Load a corpus's prebuilt index once per server instance (see scripts/ingest.ts)
+function initializeChunks(corpus: Corpus): LoadedIndex {
+  const existing = loaded.get(corpus.id);
+  if (existing) return existing;
+  const index = loadIndex(corpus, getEmbeddingProvider().id);
+  const { manifest } = index;
+  const entry = { retriever: new Retriever(index.chunks, index.vectors, index.ivf, personaStopwords(corpus)), manifest };
+  loaded.set(corpus.id, entry);
+  console.log(
+    `Loaded ${index.chunks.length} ${corpus.id} chunks (${manifest.embeddingModel}, ${manifest.vectorEncoding}${index.ivf ? `, IVF ${manifest.ivfLists} lists` : ''}, built ${manifest.builtAt})`,
+  );
+  return entry;
+}
+
+// Identifies the loaded index build, so anything derived from it (e.g. cached answers) can tell when it's stale
+export function getIndexVersion(corpus: Corpus): string {
+  const { manifest } = initializeChunks(corpus);
+  return `${corpus.id}:${manifest.embeddingModel}@${manifest.builtAt}`;
+}
+
+export function getIndexedChunks(corpus: Corpus): Chunk[] {
+  return initializeChunks(corpus).retriever.chunks;
+}
+
+export async function embedQuery(corpus: Corpus, query: string): Promise<number[]> {
+  const { manifest } = initializeChunks(corpus);
+  const queryEmb = await getEmbeddingProvider().embed(query);
+  if (queryEmb.length !== manifest.dimensions) {
+    throw new IndexUnavailableError(`Query embedding has ${queryEmb.length} dimensions but the ${corpus.id} index has ${manifest.dimensions}.`);
+  }
+  return queryEmb;
+}
+
+// IVF_PROBES trades recall for speed on an index built with --ivf
+function ivfProbes(): number | undefined {
+  const probes = Number(process.env.IVF_PROBES);
+  return Number.isInteger(probes) && probes > 0 ? probes : undefined;
+}
+
+export async function searchChunks(
+  corpus: Corpus,
+  query: string,
+  queryEmbedding: number[],
+  topK: number = DEFAULT_TOP_K,
+  filters: SearchFilters = {},
+  trace?: Trace,
+): Promise<RetrievedChunk[]> {
+  return initializeChunks(corpus).retriever.search(query, queryEmbedding, { topK, filters, reranker: getReranker(), probes: ivfProbes(), trace });
+}
+
+export async function findRelevantChunks(
+  corpus: Corpus,
+  query: string,
+  topK: number = DEFAULT_TOP_K,
+  filters: SearchFilters = {},
+  trace?: Trace,
+): Promise<RetrievedChunk[]> {
+  return searchChunks(corpus, query, await embedQuery(corpus, query), topK, filters, trace);
+}
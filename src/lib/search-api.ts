@@ -0,0 +1,80 @@
+import { ApiError } from './api-error';
+import { parseQuery } from './chat-request';
+import { sourceHref } from './chat-stream';
+import { archivePath, getNewsletters, type Corpus } from './corpus';
+import { parseFilters, type SearchFilters } from './filters';
+import { sectionText } from './newsletters';
+import type { RetrievalScores, RetrievedChunk } from './retrieval';
+
+// Search results and whole newsletters as the programmatic APIs return them:
+// /api/search and the MCP tools. Links point at this site's newsletter reader,
+// and at the original web page when the source recorded one.
+
+export const DEFAULT_SEARCH_LIMIT = 8;
+export const MAX_SEARCH_LIMIT = 20;
+
+export interface SearchRequest {
+  query: string;
+  limit: number;
+  filters: SearchFilters;
+}
+
+export interface SearchResult {
+  rank: number;
+  chunkId: string;
+  text: string;
+  newsletter: { id: string; title: string; date: string; url: string | null };
+  section: { id: string; title: string | null };
+  topics: string[];
+  archiveUrl: string; // the section in this site's reader
+  scores: RetrievalScores;
+}
+
+export interface NewsletterDocument {
+  id: string;
+  title: string;
+  date: string;
+  url: string | null;
+  archiveUrl: string;
+  sections: { id: string; heading: string | null; text: string }[];
+}
+
+const invalid = (message: string) => new ApiError('invalid_request', 400, message);
+
+// Filters take the same shape as in /api/chat: dateFrom, dateTo, newsletterIds and topics
+export function parseSearchRequest(body: Record<string, unknown>): SearchRequest {
+  const { limit = DEFAULT_SEARCH_LIMIT, filters } = body;
+  if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+    throw invalid(`\`limit\` must be a whole number from 1 to ${MAX_SEARCH_LIMIT}.`);
+  }
+  if (filters !== undefined && filters !== null && (typeof filters !== 'object' || Array.isArray(filters))) {
+    throw invalid('`filters` must be an object.');
+  }
+  return { query: parseQuery(body.query), limit, filters: parseFilters(filters) };
+}
+
+export function toSearchResults(retrieved: RetrievedChunk[], corpus: Corpus, origin: string): SearchResult[] {
+  return retrieved.map(({ chunk, scores }, i) => ({
+    rank: i + 1,
+    chunkId: chunk.id,
+    text: chunk.text,
+    newsletter: { id: chunk.newsletterId, title: chunk.newsletterTitle, date: chunk.date, url: chunk.source?.url ?? null },
+    section: { id: chunk.sectionId, title: chunk.title !== chunk.newsletterTitle ? chunk.title : null },
+    topics: chunk.topics,
+    archiveUrl: origin + sourceHref({ title: chunk.newsletterTitle, newsletterId: chunk.newsletterId, sectionId: chunk.sectionId }, archivePath(corpus)),
+    scores,
+  }));
+}
+
+export function getNewsletterDocument(corpus: Corpus, id: string, origin: string): NewsletterDocument {
+  const newsletter = getNewsletters(corpus).find(n => n.id === id);
+  if (!newsletter) throw new ApiError('not_found', 404, `No newsletter with id "${id}".`);
+  return {
+    id: newsletter.id,
+    title: newsletter.title,
+    date: newsletter.date,
+    url: newsletter.source?.url ?? null,
+    archiveUrl: `${origin}${archivePath(corpus)}/${newsletter.id}`,
+    sections: newsletter.sections.map(s => ({ id: s.id, heading: s.heading, text: sectionText(s) })),
+  };
+}
@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Chunk } from './chunking';
+import type { Corpus } from './corpus';
+import { IvfIndex, VectorMatrix, type VectorEncoding } from './vectors';
+
+// Built offline by `npm run ingest`, one index per corpus in its data directory;
+// the API only ever reads these files. Chunk metadata is JSON; the vectors are
+// a binary matrix (see vectors.ts).
+export interface IndexPaths {
+  chunks: string;
+  vectors: string;
+  ivf: string;
+  manifest: string;
+  json: string; // the JSON cache of format v1 and v2 indexes, with vectors inline
+}
+
+export function indexPaths(corpus: Pick<Corpus, 'dataDir'>): IndexPaths {
+  const dir = path.join(process.cwd(), corpus.dataDir);
+  return {
+    chunks: path.join(dir, 'index_chunks.json'),
+    vectors: path.join(dir, 'index_vectors.bin'),
+    ivf: path.join(dir, 'index_ivf.bin'),
+    manifest: path.join(dir, 'index_manifest.json'),
+    json: path.join(dir, 'embeddings_cache.json'),
+  };
+}
+
+export const INDEX_FORMAT_VERSION = 3;
+
+export interface IndexManifest {
+  formatVersion: number;
+  builtAt: string;
+  corpus: string;
+  embeddingModel: string;
+  dimensions: number;
+  chunkerVersion: number;
+  sourceFiles: string[];
+  sourceHash: string;
+  chunkCount: number;
+  topicClassifier: string;
+  taxonomyHash: string;
+  vectorEncoding: VectorEncoding;
+  ivfLists: number | null; // clusters in index_ivf.bin, or null when there is none
+}
+
+export interface SearchIndex {
+  manifest: IndexManifest;
+  chunks: Chunk[];
+  vectors: VectorMatrix; // row i belongs to chunks[i]
+  ivf: IvfIndex | null;
+}
+
+// A chunk as stored in the v1/v2 JSON cache
+export type JsonIndexChunk = Omit<Chunk, 'topics'> & { topics?: string[]; embedding: number[] };
+
+// The cache written before the manifest existed: no chunk ids, chunked by an
+// older parser, and always embedded with Gemini's text-embedding-004
+export interface LegacyCacheEntry {
+  text: string;
+  title: string;
+  date: string;
+  embedding: number[];
+}
+
+export const LEGACY_EMBEDDING_MODEL = 'gemini:text-embedding-004';
+
+// Thrown when the index is missing or was built for a different embedding model
+export class IndexUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IndexUnavailableError';
+  }
+}
+
+export function hashContent(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+export function readManifest(corpus: Pick<Corpus, 'dataDir'>): IndexManifest | null {
+  const file = indexPaths(corpus).manifest;
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function readIndexFiles(paths: IndexPaths, manifest: IndexManifest): SearchIndex {
+  const chunks: Chunk[] = JSON.parse(fs.readFileSync(paths.chunks, 'utf-8'));
+  if (chunks.length !== manifest.chunkCount) throw new Error(`${chunks.length} chunks but the manifest says ${manifest.chunkCount}`);
+  const vectors = VectorMatrix.fromBuffer(fs.readFileSync(paths.vectors), chunks.length, manifest.dimensions, manifest.vectorEncoding);
+  const ivf = manifest.ivfLists ? IvfIndex.fromBuffer(fs.readFileSync(paths.ivf), manifest.ivfLists, manifest.dimensions, chunks.length) : null;
+  return { manifest, chunks, vectors, ivf };
+}
+
+// Load a corpus's index and refuse to serve it if it doesn't match the query-time model
+export function loadIndex(corpus: Pick<Corpus, 'id' | 'dataDir'>, embeddingModel: string): SearchIndex {
+  const paths = indexPaths(corpus);
+  const manifest = readManifest(corpus);
+  if ((!manifest || manifest.formatVersion < INDEX_FORMAT_VERSION) && fs.existsSync(paths.json)) {
+    throw new IndexUnavailableError(`The ${corpus.id} index is still in the JSON format. Run \`npm run index:convert\` or \`npm run ingest\`.`);
+  }
+  if (!manifest || !fs.existsSync(paths.chunks) || !fs.existsSync(paths.vectors)) {
+    throw new IndexUnavailableError(`Search index for ${corpus.id} not found. Run \`npm run ingest -- --corpus=${corpus.id}\` to build it.`);
+  }
+  if (manifest.formatVersion !== INDEX_FORMAT_VERSION) {
+    throw new IndexUnavailableError(`Index format v${manifest.formatVersion} is not supported. Re-run \`npm run ingest\`.`);
+  }
+  if (manifest.embeddingModel !== embeddingModel) {
+    throw new IndexUnavailableError(
+      `Index was built with ${manifest.embeddingModel} but queries use ${embeddingModel}. Re-run \`npm run ingest\`.`
+    );
+  }
+
+  try {
+    return readIndexFiles(paths, manifest);
+  } catch (e) {
+    throw new IndexUnavailableError(`Index does not match its manifest (${e instanceof Error ? e.message : e}). Re-run \`npm run ingest\`.`);
+  }
+}
+
+// Vectors from the previous build in either format, for ingest to reuse.
+// Vectors read back from an int8 index carry its rounding.
+export function readStoredEmbeddings(corpus: Pick<Corpus, 'dataDir'>, manifest: IndexManifest): { text: string; topics?: string[]; embedding: ArrayLike<number> }[] {
+  const paths = indexPaths(corpus);
+  if (manifest.formatVersion >= 3) {
+    if (!fs.existsSync(paths.chunks) || !fs.existsSync(paths.vectors)) return [];
+    const { chunks, vectors } = readIndexFiles(paths, manifest);
+    return chunks.map((c, i) => ({ text: c.text, topics: c.topics, embedding: vectors.vector(i) }));
+  }
+  return fs.existsSync(paths.json) ? readJsonIndex(corpus) : [];
+}
+
+// The chunks of a v1/v2 JSON index. The cache from before the manifest has no
+// chunk ids; read it with readLegacyCache instead.
+export function readJsonIndex(corpus: Pick<Corpus, 'dataDir'>): JsonIndexChunk[] {
+  const file = indexPaths(corpus).json;
+  const chunks: JsonIndexChunk[] = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(chunks) || chunks.some(c => typeof c.id !== 'string' || typeof c.newsletterId !== 'string' || !Array.isArray(c.embedding))) {
+    throw new Error(`${path.relative(process.cwd(), file)} is not a v1 or v2 index. Run \`npm run ingest\` instead.`);
+  }
+  return chunks;
+}
+
+// The pre-manifest cache, or null if the corpus has none. Its chunks don't
+// line up with the current chunker's, so they can only seed vector reuse by
+// content hash; ingest and the converter re-chunk the sources around them.
+export function readLegacyCache(corpus: Pick<Corpus, 'dataDir'>): LegacyCacheEntry[] | null {
+  const file = indexPaths(corpus).json;
+  if (readManifest(corpus) || !fs.existsSync(file)) return null;
+  const entries: LegacyCacheEntry[] = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(entries) || entries.some(e => typeof e.text !== 'string' || !Array.isArray(e.embedding))) {
+    throw new Error(`${path.relative(process.cwd(), file)} is not an embeddings cache. Delete it and run \`npm run ingest\`.`);
+  }
+  return entries;
+}
+
+export interface VectorOptions {
+  encoding: VectorEncoding;
+  ivfLists: number | null; // null for exact search only; 0 picks √n clusters
+}
+
+// `--int8` and `--ivf[=lists]`, as taken by ingest and the converter
+export function parseVectorOptions(argv: string[]): VectorOptions {
+  const ivf = argv.find(a => a === '--ivf' || a.startsWith('--ivf='));
+  const ivfLists = ivf ? Number(ivf.split('=')[1] ?? 0) : null;
+  if (ivfLists !== null && !(Number.isInteger(ivfLists) && ivfLists >= 0)) throw new Error(`Invalid ${ivf}`);
+  return { encoding: argv.includes('--int8') ? 'int8' : 'float32', ivfLists };
+}
+
+export function buildVectors(embeddings: ArrayLike<number>[], options: VectorOptions) {
+  const vectors = VectorMatrix.fromVectors(embeddings, options.encoding);
+  const ivf = options.ivfLists === null ? null : IvfIndex.build(vectors, options.ivfLists || undefined);
+  return { vectors, ivf, manifest: { dimensions: vectors.dimensions, vectorEncoding: vectors.encoding, ivfLists: ivf?.centroids.count ?? null } };
+}
+
+export function writeIndex(corpus: Pick<Corpus, 'dataDir'>, index: SearchIndex) {
+  const paths = indexPaths(corpus);
+  fs.mkdirSync(path.dirname(paths.manifest), { recursive: true });
+  fs.writeFileSync(paths.chunks, JSON.stringify(index.chunks));
+  fs.writeFileSync(paths.vectors, index.vectors.toBuffer());
+  if (index.ivf) fs.writeFileSync(paths.ivf, index.ivf.toBuffer());
+  else fs.rmSync(paths.ivf, { force: true });
+  fs.writeFileSync(paths.manifest, JSON.stringify(index.manifest, null, 2) + '\n');
+}
@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+import { cookies } from 'next/headers';
+
+// Anonymous identity for the server-side chat store: a random id in a cookie,
+// signed with SESSION_SECRET so it can't be swapped for someone else's.
+
+const COOKIE_NAME = 'ask-andrew-uid';
+const MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+const USER_ID = /^[0-9a-f-]{36}$/;
+
+function sign(userId: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(userId).digest('base64url');
+}
+
+export function verifyUserCookie(value: string | undefined, secret: string): string | null {
+  const [userId, signature] = value?.split('.') ?? [];
+  if (!userId || !signature || !USER_ID.test(userId)) return null;
+  const expected = Buffer.from(sign(userId, secret));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected) ? userId : null;
+}
+
+// The caller's user id, issuing a new cookie on first visit when `create` is set
+export async function getUserId(secret: string, create: boolean): Promise<string | null> {
+  const jar = await cookies();
+  const existing = verifyUserCookie(jar.get(COOKIE_NAME)?.value, secret);
+  if (existing || !create) return existing;
+
+  const userId = crypto.randomUUID();
+  jar.set(COOKIE_NAME, `${userId}.${sign(userId, secret)}`, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: MAX_AGE_SECONDS,
+  });
+  return userId;
+}
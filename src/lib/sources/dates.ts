@@ -0,0 +1,22 @@
+import { parseDate } from '../newsletters';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// The calendar date as written, in the formats sources use: ISO 8601 (Atom,
+// front matter, Substack), RFC 2822 (RSS, email) and "January 14, 2026".
+// Times and zones are ignored, so an issue sent late in the evening keeps its day.
+export function toIsoDate(value: string | null | undefined): string | null {
+  const text = value?.trim();
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:$|[T\s])/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const written = parseDate(text);
+  if (written) return written;
+
+  const rfc = text.match(/(?:^|\s)(\d{1,2})\s+([A-Za-z]{3})[a-z]*\.?\s+(\d{4})\b/);
+  const month = rfc ? MONTHS.indexOf(rfc[2].toLowerCase()) + 1 : 0;
+  if (rfc && month > 0) return `${rfc[3]}-${String(month).padStart(2, '0')}-${rfc[1].padStart(2, '0')}`;
+  return null;
+}
@@ -0,0 +1,61 @@
+import { sectionsFromBlocks } from '../newsletters';
+import { toIsoDate } from './dates';
+import { decodeEntities, htmlToBlocks, stripTags } from './html';
+import { SourceError, type SourceAdapter, type SourceFile, type SourceIssue } from './types';
+
+// RSS 2.0 and Atom feeds saved as XML, one issue per <item> or <entry>. Feeds
+// carry the full post in content:encoded or <content> on most newsletter hosts;
+// feeds with only a summary give short issues.
+
+function escapeName(name: string): string {
+  return name.replace(/[:.]/g, m => `\\${m}`);
+}
+
+// The text of the first <name> element, CDATA unwrapped. Without CDATA its
+// markup is escaped, so entities are decoded once to get it back.
+function element(xml: string, name: string): string | null {
+  const match = xml.match(new RegExp(`<${escapeName(name)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeName(name)}>`, 'i'));
+  if (!match) return null;
+  const cdata = match[1].trim().match(/^<!\[CDATA\[([\s\S]*)\]\]>$/);
+  return cdata ? cdata[1] : decodeEntities(match[1]);
+}
+
+function first(xml: string, names: string[]): string | null {
+  for (const name of names) {
+    const value = element(xml, name);
+    if (value?.trim()) return value;
+  }
+  return null;
+}
+
+// RSS has <link>url</link>; Atom has <link rel="alternate" href="url"/>
+function itemUrl(xml: string): string | null {
+  for (const tag of xml.match(/<link\b[^>]*\/?>/gi) ?? []) {
+    const rel = tag.match(/\brel\s*=\s*["']([^"']*)["']/i)?.[1] ?? 'alternate';
+    const href = tag.match(/\bhref\s*=\s*["']([^"']*)["']/i)?.[1];
+    if (href && rel === 'alternate') return decodeEntities(href);
+  }
+  const url = element(xml, 'link')?.trim() || element(xml, 'guid')?.trim();
+  return url && /^https?:\/\//.test(url) ? url : null;
+}
+
+export const feedAdapter: SourceAdapter = {
+  id: 'feed',
+  extensions: ['.xml', '.rss', '.atom'],
+  parse(file: SourceFile) {
+    const xml = file.bytes.toString('utf-8');
+    const items = xml.match(/<(item|entry)\b[\s\S]*?<\/\1>/gi);
+    if (!items) throw new SourceError(file.path, 'no RSS <item> or Atom <entry> elements found');
+
+    return items.flatMap((item, i): SourceIssue[] => {
+      const title = stripTags(first(item, ['title']) ?? '').trim();
+      if (!title) throw new SourceError(file.path, `item ${i + 1} has no title`);
+      const date = toIsoDate(first(item, ['pubDate', 'published', 'dc:date', 'updated']));
+      if (!date) throw new SourceError(file.path, `no date found for "${title}"`);
+
+      const html = first(item, ['content:encoded', 'content', 'description', 'summary']) ?? '';
+      const sections = sectionsFromBlocks(htmlToBlocks(html).filter(b => !(b.heading && b.text === title)));
+      return sections.length > 0 ? [{ title, date, sections, url: itemUrl(item) }] : [];
+    });
+  },
+};
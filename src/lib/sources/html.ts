@@ -0,0 +1,105 @@
+import { sectionsFromBlocks, type Block } from '../newsletters';
+import { toIsoDate } from './dates';
+import { SourceError, type SourceAdapter, type SourceFile } from './types';
+
+// Web pages saved from Substack, Beehiiv and similar hosts, one issue per file,
+// and the body-only post files in a Substack export. Site chrome (nav, header,
+// footer, forms) is dropped before the text is read.
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  ndash: '–', mdash: '—', hellip: '…', middot: '·', bull: '•', copy: '©', trade: '™',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return ENTITIES[name.toLowerCase()] ?? entity;
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+// Elements whose contents are never newsletter text
+const DROPPED = /<(script|style|noscript|template|svg|head|nav|header|footer|form|button|iframe|select)\b[\s\S]*?<\/\1\s*>/gi;
+const BLOCK_TAGS = /<\/?(p|div|li|ul|ol|blockquote|section|article|aside|main|table|tr|td|th|figure|figcaption|pre|hr|br)\b[^>]*>/gi;
+// Marks a heading through tag stripping; a private-use character no text contains
+const HEADING_MARK = '\uE000';
+
+export function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, ''));
+}
+
+// The readable text of a page or fragment as paragraphs and headings. Only
+// the <article> is read when there is one, since pages put related posts and
+// comments around it.
+export function htmlToBlocks(html: string): Block[] {
+  let body = html.replace(/<!--[\s\S]*?-->/g, '').replace(DROPPED, '');
+  body = body.match(/<article\b[^>]*>([\s\S]*)<\/article>/i)?.[1] ?? body.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? body;
+
+  const text = body
+    .replace(/<h[1-6]\b[^>]*>([\s\S]*?)<\/h[1-6]\s*>/gi, (_, inner: string) => `\n\n${HEADING_MARK}${inner.replace(/<[^>]*>/g, ' ')}\n\n`)
+    .replace(BLOCK_TAGS, '\n\n');
+
+  return stripTags(text)
+    .split(/\n\s*\n/)
+    .map(part => part.replace(/\s+/g, ' ').trim())
+    .filter(part => part && part !== HEADING_MARK)
+    .map(part => (part.startsWith(HEADING_MARK) ? { heading: true, text: part.slice(1).trim() } : { heading: false, text: part }));
+}
+
+function attribute(tag: string, name: string): string | null {
+  const value = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return value ? decodeEntities(value[1] ?? value[2]).trim() : null;
+}
+
+// <meta property|name="..." content="...">, in either attribute order
+function meta(html: string, names: string[]): string | null {
+  for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+    const key = (attribute(tag, 'property') ?? attribute(tag, 'name'))?.toLowerCase();
+    if (key && names.includes(key)) return attribute(tag, 'content') || null;
+  }
+  return null;
+}
+
+function canonicalUrl(html: string): string | null {
+  const link = (html.match(/<link\b[^>]*>/gi) ?? []).find(tag => attribute(tag, 'rel')?.toLowerCase() === 'canonical');
+  const url = (link && attribute(link, 'href')) || meta(html, ['og:url']);
+  return url && /^https?:\/\//.test(url) ? url : null;
+}
+
+function publishedDate(html: string): string | null {
+  const published = meta(html, ['article:published_time', 'date', 'pubdate', 'publish-date']);
+  const time = html.match(/<time\b[^>]*>/i)?.[0];
+  return toIsoDate(published) ?? toIsoDate(time && attribute(time, 'datetime'));
+}
+
+export const htmlAdapter: SourceAdapter = {
+  id: 'html',
+  extensions: ['.html', '.htm'],
+  parse(file: SourceFile) {
+    const html = file.bytes.toString('utf-8');
+    let blocks = htmlToBlocks(html);
+
+    const firstHeading = blocks.find(b => b.heading)?.text;
+    const pageTitle = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    const title = file.meta?.title ?? meta(html, ['og:title', 'twitter:title']) ?? firstHeading ?? (pageTitle && stripTags(pageTitle).trim());
+    if (!title) throw new SourceError(file.path, 'no title found (expected an <h1>, og:title or <title>)');
+    // The title is usually repeated as the page's first heading
+    blocks = blocks.filter(b => !(b.heading && b.text === title));
+
+    // Pasted pages often show the date as its own line under the title
+    let date = file.meta?.date ?? publishedDate(html);
+    if (!date) {
+      const line = blocks.findIndex(b => !b.heading && toIsoDate(b.text) && b.text.length <= 40);
+      if (line >= 0) {
+        date = toIsoDate(blocks[line].text);
+        blocks = blocks.filter((_, i) => i !== line);
+      }
+    }
+    if (!date) throw new SourceError(file.path, `no publication date found for "${title}"`);
+
+    const sections = sectionsFromBlocks(blocks);
+    return sections.length > 0 ? [{ title, date, sections, url: file.meta?.url ?? canonicalUrl(html) }] : [];
+  },
+};
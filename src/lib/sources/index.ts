@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { slugify, type Newsletter } from '../newsletters';
+import { toIsoDate } from './dates';
+import { feedAdapter } from './feed';
+import { htmlAdapter } from './html';
+import { mailAdapter } from './mail';
+import { markdownAdapter } from './markdown';
+import { textAdapter } from './text';
+import { SourceError, type PostMeta, type SourceAdapter, type SourceFile } from './types';
+
+export * from './types';
+
+// A corpus's `sources` are files or directories, relative to the project root.
+// Directories are read recursively in name order, skipping files no adapter
+// reads. A directory with a Substack posts.csv is read as a Substack export:
+// only published posts, titled and dated from the CSV.
+
+const ADAPTERS: SourceAdapter[] = [textAdapter, markdownAdapter, htmlAdapter, feedAdapter, mailAdapter];
+
+export interface LoadedSources {
+  newsletters: Newsletter[]; // newest first, ids unique across files
+  files: string[]; // every file read
+  hash: string; // changes whenever any file does
+}
+
+export function adapterFor(file: string): SourceAdapter | null {
+  const extension = path.extname(file).toLowerCase();
+  return ADAPTERS.find(a => a.extensions.includes(extension)) ?? null;
+}
+
+// Minimal RFC 4180: quoted fields may hold commas, newlines and "" escapes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') field += text[i++];
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f)) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f)) rows.push(row);
+  return rows;
+}
+
+// posts.csv maps each posts/<post_id>.html to its title and date; drafts map to null
+function readSubstackIndex(file: string): Map<string, PostMeta | null> {
+  const [header, ...rows] = parseCsv(fs.readFileSync(file, 'utf-8'));
+  const column = (name: string) => header?.indexOf(name) ?? -1;
+  const [id, published, date, title] = ['post_id', 'is_published', 'post_date', 'title'].map(column);
+  if (id < 0 || title < 0) throw new SourceError(file, 'expected Substack post_id and title columns');
+
+  return new Map(rows.map(r => [
+    r[id],
+    published >= 0 && r[published] !== 'true' ? null : { title: r[title], date: toIsoDate(r[date]), url: null },
+  ]));
+}
+
+function listFiles(root: string, dir: string, out: SourceFile[], meta: Map<string, PostMeta | null> | null) {
+  const entries = fs.readdirSync(path.join(root, dir), { withFileTypes: true })
+    .filter(e => !e.name.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const index = entries.some(e => e.isFile() && e.name === 'posts.csv')
+    ? readSubstackIndex(path.join(root, dir, 'posts.csv'))
+    : meta;
+
+  for (const entry of entries) {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      listFiles(root, file, out, index);
+    } else if (adapterFor(file)) {
+      const postId = path.basename(file, path.extname(file));
+      const post = index?.get(postId);
+      // Drafts and unsent posts in an export are skipped
+      if (index?.has(postId) && !post) continue;
+      out.push({ path: file, bytes: fs.readFileSync(path.join(root, file)), meta: post ?? null });
+    }
+  }
+}
+
+export function readSourceFiles(sources: string[], root = process.cwd()): SourceFile[] {
+  const files: SourceFile[] = [];
+  for (const source of sources) {
+    const full = path.join(root, source);
+    if (!fs.existsSync(full)) throw new SourceError(source, 'not found');
+    if (fs.statSync(full).isDirectory()) {
+      listFiles(root, source, files, null);
+    } else {
+      if (!adapterFor(source)) throw new SourceError(source, `unsupported format (expected one of ${ADAPTERS.flatMap(a => a.extensions).join(', ')})`);
+      files.push({ path: source, bytes: fs.readFileSync(full), meta: null });
+    }
+  }
+  return files;
+}
+
+export function loadSources(sources: string[], root = process.cwd()): LoadedSources {
+  const files = readSourceFiles(sources, root);
+  const hash = crypto.createHash('sha256');
+  const newsletters: Newsletter[] = [];
+  const usedIds = new Set<string>();
+
+  for (const file of files) {
+    hash.update(file.path).update('\0').update(file.bytes);
+    for (const issue of adapterFor(file.path)!.parse(file)) {
+      const base = `${issue.date}-${slugify(issue.title)}`;
+      let id = base;
+      for (let k = 2; usedIds.has(id); k++) id = `${base}-${k}`;
+      usedIds.add(id);
+      newsletters.push({
+        id,
+        title: issue.title,
+        date: issue.date,
+        sections: issue.sections,
+        source: { file: file.path, url: issue.url },
+      });
+    }
+  }
+
+  // Stable, so issues from one day keep their order in the file
+  newsletters.sort((a, b) => b.date.localeCompare(a.date));
+  return { newsletters, files: files.map(f => f.path), hash: hash.digest('hex') };
+}
@@ -0,0 +1,128 @@
+import { parseSections, sectionsFromBlocks } from '../newsletters';
+import { toIsoDate } from './dates';
+import { htmlToBlocks } from './html';
+import { SourceError, type SourceAdapter, type SourceFile, type SourceIssue } from './types';
+
+// Issues as they arrived by email: single .eml messages, or .mbox archives
+// (a Gmail Takeout label, say) with one issue per message. The HTML part is
+// preferred, since plain text parts lose the section headings.
+//
+// Messages are read as latin1 so every byte survives until a part is decoded
+// with its own charset.
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+function parsePart(raw: string): MimePart {
+  const split = raw.search(/\r?\n\r?\n/);
+  const head = split >= 0 ? raw.slice(0, split) : raw;
+  const body = split >= 0 ? raw.slice(split).replace(/^\r?\n\r?\n/, '') : '';
+  const headers = new Map<string, string>();
+  // Folded header lines continue with whitespace
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+function param(header: string | undefined, name: string): string | null {
+  const match = header?.match(new RegExp(`;\\s*${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+function decodeBytes(bytes: Buffer, charset: string | null): string {
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(bytes);
+  } catch {
+    return bytes.toString('utf-8');
+  }
+}
+
+function latin1Bytes(text: string): Buffer {
+  return Buffer.from(text, 'latin1');
+}
+
+function decodeQuotedPrintable(text: string): string {
+  return text.replace(/=\r?\n/g, '').replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+// RFC 2047 encoded words in headers, e.g. =?UTF-8?Q?Why_divorce_is_awesome?=.
+// Anything else is taken as UTF-8, which is what hosts send unencoded.
+function decodeHeader(value: string): string {
+  return decodeBytes(latin1Bytes(value), 'utf-8')
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : latin1Bytes(decodeQuotedPrintable(text.replace(/_/g, ' ')));
+      return decodeBytes(bytes, charset);
+    });
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = part.headers.get('content-transfer-encoding')?.toLowerCase();
+  const bytes = encoding === 'base64'
+    ? Buffer.from(part.body.replace(/\s+/g, ''), 'base64')
+    : latin1Bytes(encoding === 'quoted-printable' ? decodeQuotedPrintable(part.body) : part.body);
+  return decodeBytes(bytes, param(part.headers.get('content-type'), 'charset'));
+}
+
+// The first part of the given type, searching nested multiparts in order
+function findPart(part: MimePart, type: string): MimePart | null {
+  const contentType = part.headers.get('content-type') ?? 'text/plain';
+  if (contentType.toLowerCase().startsWith(type)) return part;
+  const boundary = param(contentType, 'boundary');
+  if (!contentType.toLowerCase().startsWith('multipart/') || !boundary) return null;
+
+  const delimiter = `--${boundary}`;
+  const pieces = part.body.split(new RegExp(`^${delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:--)?[ \\t]*\\r?$`, 'm'));
+  for (const piece of pieces.slice(1, -1)) {
+    const found = findPart(parsePart(piece.replace(/^\r?\n/, '')), type);
+    if (found) return found;
+  }
+  return null;
+}
+
+// mbox separates messages with "From " lines and escapes body lines that start
+// with it as ">From "
+function splitMbox(text: string): string[] {
+  return text
+    .split(/^From .*\r?\n/m)
+    .filter(message => message.trim())
+    .map(message => message.replace(/^>(>*From )/gm, '$1'));
+}
+
+function readMessage(raw: string, file: string): SourceIssue[] {
+  const message = parsePart(raw);
+  const title = decodeHeader(message.headers.get('subject') ?? '').replace(/\s+/g, ' ').trim();
+  if (!title) throw new SourceError(file, 'a message has no Subject');
+  const date = toIsoDate(message.headers.get('date'));
+  if (!date) throw new SourceError(file, `no Date header for "${title}"`);
+
+  const html = findPart(message, 'text/html');
+  const text = html ? null : findPart(message, 'text/plain');
+  const sections = html
+    ? sectionsFromBlocks(htmlToBlocks(decodeBody(html)).filter(b => !(b.heading && b.text === title)))
+    : text
+      ? parseSections(decodeBody(text))
+      : [];
+
+  // Newsletter hosts put the web version in List-Post or Archived-At
+  const link = (message.headers.get('list-post') ?? message.headers.get('archived-at'))?.match(/<?(https?:\/\/[^>\s]+)>?/)?.[1] ?? null;
+  return sections.length > 0 ? [{ title, date, sections, url: link }] : [];
+}
+
+export const mailAdapter: SourceAdapter = {
+  id: 'mail',
+  extensions: ['.eml', '.mbox'],
+  parse(file: SourceFile) {
+    const text = file.bytes.toString('latin1');
+    const messages = file.path.toLowerCase().endsWith('.mbox') ? splitMbox(text) : [text];
+    return messages.flatMap(message => readMessage(message, file.path));
+  },
+};
@@ -0,0 +1,107 @@
+import path from 'path';
+import { sectionsFromBlocks, type Block } from '../newsletters';
+import { toIsoDate } from './dates';
+import { stripTags } from './html';
+import { SourceError, type SourceAdapter, type SourceFile } from './types';
+
+// One issue per Markdown file, as in a folder of posts exported from a static
+// site or a note-taking app. Title, date and URL come from front matter
+// (title, date, url or canonical_url), falling back to the first "# " heading
+// and a yyyy-mm-dd file name prefix.
+
+function frontMatter(text: string): { fields: Record<string, string>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { fields: {}, body: text };
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (field) fields[field[1].toLowerCase()] = field[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+  }
+  return { fields, body: text.slice(match[0].length) };
+}
+
+// Formatting is dropped and links keep only their text
+function inline(text: string): string {
+  return stripTags(
+    text
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+      .replace(/<(https?:\/\/[^>\s]+)>/g, '$1')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2')
+      .replace(/(^|[^\w*])[*_](?=\S)([^*_]*?\S)[*_](?![\w*])/g, '$1$2'),
+  ).trim();
+}
+
+function markdownToBlocks(body: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let fence: string[] | null = null;
+  const flush = () => {
+    const text = inline(paragraph.join(' '));
+    if (text) blocks.push({ heading: false, text });
+    paragraph = [];
+  };
+
+  for (const raw of body.split(/\r?\n/)) {
+    // Code blocks are kept as they are, as one paragraph
+    if (/^\s*(```|~~~)/.test(raw)) {
+      if (fence) {
+        if (fence.length > 0) blocks.push({ heading: false, text: fence.join(' ') });
+        fence = null;
+      } else {
+        flush();
+        fence = [];
+      }
+      continue;
+    }
+    if (fence) {
+      fence.push(raw.trim());
+      continue;
+    }
+
+    const line = raw.replace(/^\s*>\s?/, '').trim();
+    const heading = line.match(/^#{1,6}\s+(.*?)(?:\s+#+)?$/);
+    if (heading) {
+      flush();
+      blocks.push({ heading: true, text: inline(heading[1]) });
+    } else if (!line || /^([-*_])(\s*\1){2,}$/.test(line)) {
+      flush();
+    } else if (/^([-*+]|\d+[.)])\s+/.test(line)) {
+      // Each list item is its own paragraph, like the lines of newsletters.txt
+      flush();
+      paragraph.push(line.replace(/^([-*+]|\d+[.)])\s+/, ''));
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+export const markdownAdapter: SourceAdapter = {
+  id: 'markdown',
+  extensions: ['.md', '.markdown'],
+  parse(file: SourceFile) {
+    const { fields, body } = frontMatter(file.bytes.toString('utf-8'));
+    let text = body;
+    let title = fields.title ? inline(fields.title) : null;
+    if (!title) {
+      const h1 = text.match(/^#[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/m);
+      if (h1) {
+        title = inline(h1[1]);
+        text = text.replace(h1[0], '');
+      }
+    }
+    if (!title) throw new SourceError(file.path, 'no title found (add `title:` front matter or a "# " heading)');
+
+    const date = toIsoDate(fields.date) ?? toIsoDate(path.basename(file.path).match(/^\d{4}-\d{2}-\d{2}/)?.[0]);
+    if (!date) throw new SourceError(file.path, `no date found for "${title}" (add \`date:\` front matter or a yyyy-mm-dd file name prefix)`);
+
+    const url = fields.url || fields.canonical_url || fields.link || null;
+    // Front matter titles are often repeated as the first heading
+    const sections = sectionsFromBlocks(markdownToBlocks(text).filter(b => !(b.heading && b.text === title)));
+    return sections.length > 0 ? [{ title, date, sections, url: url && /^https?:\/\//.test(url) ? url : null }] : [];
+  },
+};
@@ -0,0 +1,11 @@
+import { parseNewsletters } from '../newsletters';
+import type { SourceAdapter, SourceFile } from './types';
+
+// newsletters.txt: issues pasted from the web, one after another (see newsletters.ts)
+export const textAdapter: SourceAdapter = {
+  id: 'text',
+  extensions: ['.txt'],
+  parse(file: SourceFile) {
+    return parseNewsletters(file.bytes.toString('utf-8')).map(({ title, date, sections }) => ({ title, date, sections, url: null }));
+  },
+};
@@ -0,0 +1,39 @@
+import type { NewsletterSection } from '../newsletters';
+
+export interface SourceFile {
+  path: string; // relative to the project root
+  bytes: Buffer;
+  // Title, date and URL from an export's index (Substack's posts.csv), for
+  // HTML files that are only the post body
+  meta: PostMeta | null;
+}
+
+export interface PostMeta {
+  title: string;
+  date: string | null; // ISO yyyy-mm-dd
+  url: string | null;
+}
+
+// One issue as an adapter reads it; the loader assigns ids and provenance
+export interface SourceIssue {
+  title: string;
+  date: string; // ISO yyyy-mm-dd
+  sections: NewsletterSection[];
+  url: string | null;
+}
+
+export interface SourceAdapter {
+  // e.g. "markdown", for log lines
+  readonly id: string;
+  readonly extensions: string[];
+  parse(file: SourceFile): SourceIssue[];
+}
+
+// A source file can't be read as newsletters: an unsupported format, or an
+// issue without a title or date
+export class SourceError extends Error {
+  constructor(file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = 'SourceError';
+  }
+}
@@ -0,0 +1,17 @@
+// Shared word tokenizer for keyword search, grounding and the local providers.
+// Words specific to one corpus, like its author's name, are passed in as
+// `extraStopwords` (see personaStopwords in corpus.ts).
+
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'also', 'been', 'before', 'being', 'does', 'doing', 'from',
+  'have', 'having', 'into', 'just', 'like', 'more', 'most', 'only', 'other', 'over', 'really', 'said',
+  'same', 'should', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they',
+  'this', 'those', 'very', 'want', 'were', 'what', 'when', 'where', 'which', 'while', 'with', 'would',
+  'write', 'wrote', 'your', 'you', 'the', 'and', 'for', 'are', 'how', 'why', 'who', 'his', 'him',
+]);
+
+export function tokenize(text: string, extraStopwords?: ReadonlySet<string>): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9'’]*/g) ?? [])
+    .map(w => w.replace(/['’]s?$/, ''))
+    .filter(w => w.length > 2 && !STOPWORDS.has(w) && !extraStopwords?.has(w));
+}
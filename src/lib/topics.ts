@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import type { Chunk, RawChunk } from './chunking';
+import type { Corpus } from './corpus';
+import { getChatProviders, type ChatProvider } from './providers';
+import { hashContent } from './search-index';
+
+// Topic taxonomy for tagging chunks at ingest. Topics and their keyword rules
+// live in each corpus's topics.json (its `topicsFile`); `npm run ingest` stores
+// the assigned topic ids on each chunk, and topic filters match on those ids.
+
+export interface Topic {
+  id: string; // lowercase slug, used in filters and the index
+  label: string;
+  description?: string;
+  // Whole words, case-insensitive unless the keyword has capitals ("Tiny" the
+  // company, not "tiny"). A trailing * matches any ending: "invest*".
+  keywords: string[];
+  questions?: string[]; // example questions for the topic explorer
+}
+
+export interface Taxonomy {
+  minScore: number; // a section heading mention counts HEADING_WEIGHT, a body mention 1
+  maxTopicsPerChunk: number;
+  topics: Topic[];
+}
+
+// What /api/topics returns for each topic
+export interface TopicSummary {
+  id: string;
+  label: string;
+  description: string | null;
+  count: number; // chunks tagged with the topic
+  questions: string[];
+}
+
+const TOPIC_ID = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const HEADING_WEIGHT = 3;
+
+function invalid(file: string, message: string): never {
+  throw new Error(`Invalid topic taxonomy ${file}: ${message}`);
+}
+
+export function parseTaxonomy(value: unknown, file: string): Taxonomy {
+  if (!value || typeof value !== 'object') invalid(file, 'expected an object');
+  const raw = value as Record<string, unknown>;
+  if (!Array.isArray(raw.topics) || raw.topics.length === 0) invalid(file, '`topics` must be a non-empty array');
+
+  const strings = (v: unknown) => Array.isArray(v) && v.every(s => typeof s === 'string' && s.trim());
+  const seen = new Set<string>();
+  const topics = raw.topics.map((t: Record<string, unknown>, i): Topic => {
+    if (typeof t?.id !== 'string' || !TOPIC_ID.test(t.id)) invalid(file, `topic ${i + 1} needs a lowercase slug \`id\``);
+    if (seen.has(t.id)) invalid(file, `duplicate topic id "${t.id}"`);
+    seen.add(t.id);
+    if (typeof t.label !== 'string' || !t.label.trim()) invalid(file, `topic "${t.id}" needs a \`label\``);
+    if (!strings(t.keywords)) invalid(file, `topic "${t.id}" needs a \`keywords\` array of strings`);
+    if (t.questions !== undefined && !strings(t.questions)) invalid(file, `topic "${t.id}" has invalid \`questions\``);
+    return {
+      id: t.id,
+      label: t.label,
+      description: typeof t.description === 'string' ? t.description : undefined,
+      keywords: t.keywords as string[],
+      questions: t.questions as string[] | undefined,
+    };
+  });
+
+  const number = (v: unknown, fallback: number) => (typeof v === 'number' && v > 0 ? v : fallback);
+  return { minScore: number(raw.minScore, 2), maxTopicsPerChunk: number(raw.maxTopicsPerChunk, 3), topics };
+}
+
+const taxonomies = new Map<string, Taxonomy>();
+
+// Read once per process; edits need a server restart (and an ingest to re-tag)
+export function getTaxonomy(corpus: Pick<Corpus, 'id' | 'topicsFile'>): Taxonomy {
+  const cached = taxonomies.get(corpus.id);
+  if (cached) return cached;
+  const file = path.join(process.cwd(), corpus.topicsFile);
+  let value: unknown;
+  try {
+    value = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (e) {
+    invalid(file, e instanceof Error ? e.message : String(e));
+  }
+  const taxonomy = parseTaxonomy(value, file);
+  taxonomies.set(corpus.id, taxonomy);
+  return taxonomy;
+}
+
+// Recorded in the index manifest so a changed taxonomy shows the tags are stale
+export function taxonomyHash(t: Taxonomy): string {
+  return hashContent(JSON.stringify(t)).slice(0, 16);
+}
+
+export interface TopicClassifier {
+  // e.g. "keywords" or "llm:openrouter:openrouter/auto", recorded in the index manifest
+  readonly id: string;
+  // Topic ids for each chunk, in order
+  classify(chunks: RawChunk[]): Promise<string[][]>;
+}
+
+function keywordPattern(keyword: string): RegExp {
+  const prefix = keyword.endsWith('*');
+  const word = (prefix ? keyword.slice(0, -1) : keyword).trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`\\b${word}${prefix ? '\\w*' : '\\b'}`, /[A-Z]/.test(keyword) ? 'g' : 'gi');
+}
+
+export class KeywordTopicClassifier implements TopicClassifier {
+  readonly id = 'keywords';
+  private rules: { id: string; patterns: RegExp[] }[];
+
+  constructor(private taxonomy: Taxonomy) {
+    this.rules = taxonomy.topics.map(t => ({ id: t.id, patterns: t.keywords.map(keywordPattern) }));
+  }
+
+  // Best-scoring topics first. Untitled sections carry the newsletter title,
+  // which says nothing about them, so only real headings are weighted.
+  tag(chunk: Pick<RawChunk, 'title' | 'newsletterTitle' | 'text'>): string[] {
+    const count = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+    const heading = chunk.title !== chunk.newsletterTitle ? chunk.title : '';
+    return this.rules
+      .map(rule => ({
+        id: rule.id,
+        score: rule.patterns.reduce((sum, p) => sum + HEADING_WEIGHT * count(heading, p) + count(chunk.text, p), 0),
+      }))
+      .filter(r => r.score >= this.taxonomy.minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.taxonomy.maxTopicsPerChunk)
+      .map(r => r.id);
+  }
+
+  async classify(chunks: RawChunk[]): Promise<string[][]> {
+    return chunks.map(c => this.tag(c));
+  }
+}
+
+// Asks the chat model to pick topics for a batch of chunks in one call
+export class LlmTopicClassifier implements TopicClassifier {
+  readonly id: string;
+
+  constructor(private provider: ChatProvider, private taxonomy: Taxonomy) {
+    this.id = `llm:${provider.id}`;
+  }
+
+  async classify(chunks: RawChunk[]): Promise<string[][]> {
+    const topics = this.taxonomy.topics.map(t => `- ${t.id}: ${t.label}${t.description ? ` (${t.description})` : ''}`).join('\n');
+    const passages = chunks.map((c, i) => `[${i + 1}] ${c.title}\n${c.text.replace(/\s+/g, ' ')}`).join('\n\n');
+    const text = await this.provider.generate({
+      messages: [{
+        role: 'user',
+        content: `Tag each newsletter passage with the topics it is substantially about, at most ${this.taxonomy.maxTopicsPerChunk}, or none.
+Use only these topic ids:
+${topics}
+
+Reply with a JSON array of ${chunks.length} arrays of topic ids, in passage order, and nothing else.
+
+PASSAGES:
+${passages}`,
+      }],
+      maxTokens: 40 * chunks.length,
+      temperature: 0,
+    });
+
+    const tags = JSON.parse(text.slice(text.indexOf('['), text.lastIndexOf(']') + 1));
+    if (!Array.isArray(tags) || tags.length !== chunks.length) {
+      throw new Error(`Topic classifier returned ${Array.isArray(tags) ? tags.length : 'no'} results for ${chunks.length} chunks`);
+    }
+    const known = new Set(this.taxonomy.topics.map(t => t.id));
+    return tags.map(ids =>
+      (Array.isArray(ids) ? [...new Set(ids)] : [])
+        .filter((id): id is string => typeof id === 'string' && known.has(id))
+        .slice(0, this.taxonomy.maxTopicsPerChunk),
+    );
+  }
+}
+
+// TOPIC_CLASSIFIER=llm tags with the first chat provider; keyword rules otherwise
+export function createTopicClassifier(t: Taxonomy): TopicClassifier {
+  const provider = process.env.TOPIC_CLASSIFIER === 'llm' ? getChatProviders()[0] : undefined;
+  return provider ? new LlmTopicClassifier(provider, t) : new KeywordTopicClassifier(t);
+}
+
+const MAX_QUESTIONS = 4;
+
+// Topics with their chunk counts, most covered first. Topics nothing was
+// tagged with are left out. Topics without configured questions get questions
+// about their newest tagged sections, asked of `author`.
+export function summarizeTopics(chunks: Pick<Chunk, 'topics' | 'title' | 'newsletterTitle' | 'date'>[], t: Taxonomy, author: string): TopicSummary[] {
+  const newestFirst = [...chunks].sort((a, b) => b.date.localeCompare(a.date));
+  return t.topics
+    .map(topic => {
+      const tagged = newestFirst.filter(c => c.topics.includes(topic.id));
+      const questions = topic.questions?.length
+        ? topic.questions
+        : [...new Set(tagged.filter(c => c.title !== c.newsletterTitle).map(c => `What did ${author} write in “${c.title}”?`))];
+      return {
+        id: topic.id,
+        label: topic.label,
+        description: topic.description ?? null,
+        count: tagged.length,
+        questions: questions.slice(0, MAX_QUESTIONS),
+      };
+    })
+    .filter(s => s.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import type { RetrievalResult } from './chat-stream';
+
+// Request-scoped trace: stage timings, which provider answered (and which ones
+// failed before it), estimated token usage and the retrieved chunks. Finished
+// traces are written to stdout as one JSON line each and kept in a small
+// in-memory buffer for /api/admin/traces.
+
+export interface TraceStage {
+  name: string;
+  ms: number;
+}
+
+export interface TraceFallback {
+  stage: string;
+  provider: string;
+  reason: string;
+}
+
+export interface TraceRecord {
+  id: string;
+  route: string;
+  startedAt: string;
+  durationMs: number;
+  status: 'ok' | 'error' | 'aborted';
+  error?: string;
+  stages: TraceStage[];
+  provider: string | null;
+  model: string | null;
+  fallbacks: TraceFallback[];
+  // Estimated from text length (~4 characters per token); providers don't all report usage
+  tokens: { prompt: number; completion: number };
+  retrieval: RetrievalResult[];
+  attributes: Record<string, string | number | boolean | null>;
+}
+
+const MAX_TRACES = 200;
+const recent: TraceRecord[] = [];
+
+export class Trace {
+  readonly id = crypto.randomUUID();
+  private started = Date.now();
+  private record: Omit<TraceRecord, 'durationMs' | 'status'>;
+  private finished = false;
+
+  constructor(route: string) {
+    this.record = {
+      id: this.id,
+      route,
+      startedAt: new Date(this.started).toISOString(),
+      stages: [],
+      provider: null,
+      model: null,
+      fallbacks: [],
+      tokens: { prompt: 0, completion: 0 },
+      retrieval: [],
+      attributes: {},
+    };
+  }
+
+  // Time an async stage; failed stages are recorded too
+  async stage<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+      return await fn();
+    } finally {
+      this.record.stages.push({ name, ms: Date.now() - start });
+    }
+  }
+
+  // Record a stage that was timed elsewhere (e.g. time to first token of a stream)
+  addStage(name: string, ms: number) {
+    this.record.stages.push({ name, ms });
+  }
+
+  // Provider ids are "<provider>:<model>"
+  setProvider(providerId: string) {
+    const [provider, ...model] = providerId.split(':');
+    this.record.provider = provider;
+    this.record.model = model.join(':') || null;
+  }
+
+  fallback(stage: string, provider: string, reason: string) {
+    this.record.fallbacks.push({ stage, provider, reason });
+  }
+
+  addTokens(prompt: number, completion: number) {
+    this.record.tokens.prompt += prompt;
+    this.record.tokens.completion += completion;
+  }
+
+  get totalTokens(): number {
+    return this.record.tokens.prompt + this.record.tokens.completion;
+  }
+
+  setRetrieval(results: RetrievalResult[]) {
+    this.record.retrieval = results;
+  }
+
+  set(key: string, value: string | number | boolean | null) {
+    this.record.attributes[key] = value;
+  }
+
+  // The finished record, or null if the trace was already finished
+  finish(status: TraceRecord['status'], error?: string): TraceRecord | null {
+    if (this.finished) return null;
+    this.finished = true;
+
+    const record: TraceRecord = { ...this.record, durationMs: Date.now() - this.started, status };
+    if (error) record.error = error;
+    console.log(JSON.stringify({ type: 'trace', ...record }));
+
+    recent.push(record);
+    if (recent.length > MAX_TRACES) recent.shift();
+    return record;
+  }
+}
+
+// Newest first
+export function getRecentTraces(limit = MAX_TRACES): TraceRecord[] {
+  return recent.slice(-limit).reverse();
+}
@@ -0,0 +1,206 @@
+// Embedding vectors as one flat typed array, normalized to unit length when
+// the index is built so a similarity is a plain dot product. Vectors are kept
+// as float32, or as int8 with one float32 scale per vector (a quarter of the
+// size, with rankings that barely move).
+
+export type VectorEncoding = 'float32' | 'int8';
+
+export function normalize(vector: ArrayLike<number>): Float32Array {
+  const out = Float32Array.from(vector);
+  let sum = 0;
+  for (let i = 0; i < out.length; i++) sum += out[i] * out[i];
+  const norm = Math.sqrt(sum) || 1;
+  for (let i = 0; i < out.length; i++) out[i] /= norm;
+  return out;
+}
+
+// One loop per array type, so each stays monomorphic for V8
+function dotFloat32(data: Float32Array, start: number, query: Float32Array): number {
+  let sum = 0;
+  for (let d = 0; d < query.length; d++) sum += data[start + d] * query[d];
+  return sum;
+}
+
+function dotInt8(data: Int8Array, start: number, query: Float32Array): number {
+  let sum = 0;
+  for (let d = 0; d < query.length; d++) sum += data[start + d] * query[d];
+  return sum;
+}
+
+// Copies into a fresh ArrayBuffer, since typed array views need aligned offsets
+function view<T>(buffer: Uint8Array, start: number, bytes: number, make: (b: ArrayBuffer) => T): T {
+  const copy = new ArrayBuffer(bytes);
+  new Uint8Array(copy).set(buffer.subarray(start, start + bytes));
+  return make(copy);
+}
+
+export class VectorMatrix {
+  private constructor(
+    readonly count: number,
+    readonly dimensions: number,
+    readonly encoding: VectorEncoding,
+    private data: Float32Array | Int8Array,
+    private scales: Float32Array | null,
+  ) {}
+
+  static fromVectors(vectors: ArrayLike<number>[], encoding: VectorEncoding = 'float32'): VectorMatrix {
+    const dimensions = vectors[0]?.length ?? 0;
+    if (vectors.some(v => v.length !== dimensions)) throw new Error('Embedding dimensions are inconsistent across chunks');
+
+    if (encoding === 'float32') {
+      const data = new Float32Array(vectors.length * dimensions);
+      vectors.forEach((v, i) => data.set(normalize(v), i * dimensions));
+      return new VectorMatrix(vectors.length, dimensions, encoding, data, null);
+    }
+
+    // Symmetric per-vector quantization: the largest component maps to ±127
+    const data = new Int8Array(vectors.length * dimensions);
+    const scales = new Float32Array(vectors.length);
+    vectors.forEach((v, i) => {
+      const unit = normalize(v);
+      const max = unit.reduce((m, x) => Math.max(m, Math.abs(x)), 0) || 1;
+      scales[i] = max / 127;
+      for (let d = 0; d < dimensions; d++) data[i * dimensions + d] = Math.round(unit[d] / scales[i]);
+    });
+    return new VectorMatrix(vectors.length, dimensions, encoding, data, scales);
+  }
+
+  // Layout: float32 rows, or the int8 scales (float32) followed by int8 rows
+  static fromBuffer(buffer: Uint8Array, count: number, dimensions: number, encoding: VectorEncoding): VectorMatrix {
+    const expected = VectorMatrix.byteLength(count, dimensions, encoding);
+    if (buffer.byteLength !== expected) {
+      throw new Error(`Vector file has ${buffer.byteLength} bytes, expected ${expected}`);
+    }
+    if (encoding === 'float32') {
+      return new VectorMatrix(count, dimensions, encoding, view(buffer, 0, expected, b => new Float32Array(b)), null);
+    }
+    const scales = view(buffer, 0, count * 4, b => new Float32Array(b));
+    const data = view(buffer, count * 4, count * dimensions, b => new Int8Array(b));
+    return new VectorMatrix(count, dimensions, encoding, data, scales);
+  }
+
+  static byteLength(count: number, dimensions: number, encoding: VectorEncoding): number {
+    return encoding === 'float32' ? count * dimensions * 4 : count * 4 + count * dimensions;
+  }
+
+  toBuffer(): Uint8Array {
+    const rows = new Uint8Array(this.data.buffer, this.data.byteOffset, this.data.byteLength);
+    if (!this.scales) return rows.slice();
+    const out = new Uint8Array(this.scales.byteLength + rows.byteLength);
+    out.set(new Uint8Array(this.scales.buffer, this.scales.byteOffset, this.scales.byteLength));
+    out.set(rows, this.scales.byteLength);
+    return out;
+  }
+
+  // A row as unit-length floats (approximately, for int8)
+  vector(row: number): Float32Array {
+    const start = row * this.dimensions;
+    const out = Float32Array.from(this.data.subarray(start, start + this.dimensions));
+    if (this.scales) for (let d = 0; d < out.length; d++) out[d] *= this.scales[row];
+    return out;
+  }
+
+  // Cosine similarity with a normalized query
+  dot(row: number, query: Float32Array): number {
+    const start = row * this.dimensions;
+    return this.scales
+      ? dotInt8(this.data as Int8Array, start, query) * this.scales[row]
+      : dotFloat32(this.data as Float32Array, start, query);
+  }
+
+  // Cosine similarity between two rows
+  similarity(a: number, b: number): number {
+    return this.dot(a, this.vector(b));
+  }
+}
+
+export interface ScoredRow {
+  row: number;
+  score: number;
+}
+
+// The k best rows by dot product, best first, without sorting every score
+export function topRows(matrix: VectorMatrix, query: Float32Array, rows: Iterable<number>, k: number): ScoredRow[] {
+  const best: ScoredRow[] = [];
+  for (const row of rows) {
+    const score = matrix.dot(row, query);
+    if (best.length === k && score <= best[k - 1].score) continue;
+    let i = best.length === k ? k - 1 : best.length;
+    while (i > 0 && best[i - 1].score < score) {
+      best[i] = best[i - 1];
+      i--;
+    }
+    best[i] = { row, score };
+  }
+  return best;
+}
+
+// Inverted file index for approximate search on large archives: vectors are
+// clustered with k-means, and a query scans only the clusters whose centroids
+// are closest to it. Built at ingest; small indexes don't need one.
+export class IvfIndex {
+  private constructor(
+    readonly centroids: VectorMatrix,
+    private assignments: Uint32Array,
+    private lists: number[][],
+  ) {}
+
+  private static fromAssignments(centroids: VectorMatrix, assignments: Uint32Array): IvfIndex {
+    const lists: number[][] = Array.from({ length: centroids.count }, () => []);
+    assignments.forEach((list, row) => lists[list].push(row));
+    return new IvfIndex(centroids, assignments, lists);
+  }
+
+  // Spherical k-means with a deterministic spread-out start, so rebuilding the
+  // same index gives the same clusters
+  static build(vectors: VectorMatrix, listCount = Math.max(1, Math.round(Math.sqrt(vectors.count))), iterations = 10): IvfIndex {
+    const k = Math.min(listCount, vectors.count);
+    const rows = Array.from({ length: vectors.count }, (_, row) => vectors.vector(row));
+    let centroids = VectorMatrix.fromVectors(Array.from({ length: k }, (_, i) => rows[Math.floor((i * vectors.count) / k)]));
+    const assignments = new Uint32Array(vectors.count);
+    const all = Array.from({ length: k }, (_, i) => i);
+
+    for (let iter = 0; iter < iterations; iter++) {
+      let moved = 0;
+      for (let row = 0; row < vectors.count; row++) {
+        const nearest = topRows(centroids, rows[row], all, 1)[0].row;
+        if (nearest !== assignments[row] || iter === 0) moved++;
+        assignments[row] = nearest;
+      }
+      if (moved === 0) break;
+
+      const sums = Array.from({ length: k }, () => new Float32Array(vectors.dimensions));
+      for (let row = 0; row < vectors.count; row++) {
+        const sum = sums[assignments[row]];
+        for (let d = 0; d < vectors.dimensions; d++) sum[d] += rows[row][d];
+      }
+      // An empty cluster keeps its old centroid
+      centroids = VectorMatrix.fromVectors(sums.map((s, i) => (s.some(x => x !== 0) ? s : centroids.vector(i))));
+    }
+    return IvfIndex.fromAssignments(centroids, assignments);
+  }
+
+  // Layout: float32 centroids followed by one uint32 list number per vector
+  static fromBuffer(buffer: Uint8Array, lists: number, dimensions: number, count: number): IvfIndex {
+    const centroidBytes = VectorMatrix.byteLength(lists, dimensions, 'float32');
+    if (buffer.byteLength !== centroidBytes + count * 4) throw new Error('IVF file does not match the index');
+    const centroids = VectorMatrix.fromBuffer(buffer.subarray(0, centroidBytes), lists, dimensions, 'float32');
+    const assignments = view(buffer, centroidBytes, count * 4, b => new Uint32Array(b));
+    if (assignments.some(a => a >= lists)) throw new Error('IVF file does not match the index');
+    return IvfIndex.fromAssignments(centroids, assignments);
+  }
+
+  toBuffer(): Uint8Array {
+    const centroids = this.centroids.toBuffer();
+    const out = new Uint8Array(centroids.byteLength + this.assignments.byteLength);
+    out.set(centroids);
+    out.set(new Uint8Array(this.assignments.buffer, this.assignments.byteOffset, this.assignments.byteLength), centroids.byteLength);
+    return out;
+  }
+
+  // Rows in the `probes` clusters nearest to the query
+  candidates(query: Float32Array, probes: number): number[] {
+    const all = Array.from({ length: this.centroids.count }, (_, i) => i);
+    return topRows(this.centroids, query, all, probes).flatMap(c => this.lists[c.row]);
+  }
+}
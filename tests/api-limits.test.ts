@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import type { ApiErrorBody } from '@/lib/api-error';
+import { getBudgetGuard } from '@/lib/budget';
+import type { Chunk } from '@/lib/chunking';
+
+vi.stubEnv('API_KEYS', 'key-search,key-mcp,key-budget');
+vi.stubEnv('RATE_LIMIT_PER_MINUTE', '1');
+vi.stubEnv('RATE_LIMIT_BURST', '2');
+vi.stubEnv('DAILY_BUDGET_USD', '1');
+
+const chunk: Chunk = {
+  id: 'abc123def456',
+  newsletterId: '2025-01-01-hiring',
+  newsletterTitle: 'Hiring',
+  sectionId: 'intro',
+  title: 'Hiring',
+  date: '2025-01-01',
+  text: 'Hiring is the whole game.',
+  topics: [],
+};
+
+const findRelevantChunks = vi.fn(async () => [{ chunk, scores: { vector: 1, vectorRank: 1, keyword: null, keywordRank: null, fused: 1, rerank: null } }]);
+
+vi.mock('@/lib/retrieval', () => ({ findRelevantChunks }));
+
+const { POST: search } = await import('@/app/api/search/route');
+const { POST: mcp } = await import('@/app/api/mcp/route');
+
+function post(url: string, key: string, body: object) {
+  return new NextRequest(`http://localhost${url}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${key}` },
+    body: JSON.stringify(body),
+  });
+}
+
+let rpcId = 0;
+const searchTool = (key: string) =>
+  post('/api/mcp', key, { jsonrpc: '2.0', id: ++rpcId, method: 'tools/call', params: { name: 'search_newsletters', arguments: { query: 'hiring' } } });
+
+describe('API key limits', () => {
+  it('rate limit /api/search per key, with a Retry-After', async () => {
+    expect((await search(post('/api/search', 'key-search', { query: 'hiring' }))).status).toBe(200);
+    expect((await search(post('/api/search', 'key-search', { query: 'hiring' }))).status).toBe(200);
+
+    const res = await search(post('/api/search', 'key-search', { query: 'hiring' }));
+    expect(res.status).toBe(429);
+    expect(((await res.json()) as ApiErrorBody).error.code).toBe('rate_limited');
+    expect(Number(res.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+
+  it('rate limit MCP tool calls per key, but not the handshake', async () => {
+    for (const method of ['initialize', 'tools/list', 'ping']) {
+      expect((await mcp(post('/api/mcp', 'key-mcp', { jsonrpc: '2.0', id: ++rpcId, method, params: {} }))).status).toBe(200);
+    }
+    for (let i = 0; i < 2; i++) {
+      const { result } = await (await mcp(searchTool('key-mcp'))).json();
+      expect(result.isError).toBeUndefined();
+    }
+
+    const { result } = await (await mcp(searchTool('key-mcp'))).json();
+    expect(result).toMatchObject({ isError: true, content: [{ type: 'text', text: 'Too many requests for this API key. Please wait a moment.' }] });
+  });
+
+  // Last, since the budget stays spent for the rest of the file
+  it('stop searching once the daily budget is spent', async () => {
+    await getBudgetGuard()!.record(1_000_000);
+    findRelevantChunks.mockClear();
+
+    const res = await search(post('/api/search', 'key-budget', { query: 'hiring' }));
+    expect(res.status).toBe(503);
+    expect(((await res.json()) as ApiErrorBody).error.code).toBe('budget_exceeded');
+
+    const { result } = await (await mcp(searchTool('key-budget'))).json();
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toMatch(/usage limit/);
+    expect(findRelevantChunks).not.toHaveBeenCalled();
+  });
+});
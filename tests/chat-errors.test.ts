@@ -0,0 +1,158 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import type { ApiErrorBody } from '@/lib/api-error';
+import { getBudgetGuard } from '@/lib/budget';
+import type { ChatStreamEvent } from '@/lib/chat-stream';
+import { MAX_QUERY_CHARS } from '@/lib/chat-request';
+import type { Chunk } from '@/lib/chunking';
+import type { ChatProvider, ChatRequest } from '@/lib/providers';
+
+vi.stubEnv('RATE_LIMIT_PER_MINUTE', '1');
+vi.stubEnv('RATE_LIMIT_BURST', '2');
+vi.stubEnv('DAILY_BUDGET_USD', '1');
+vi.stubEnv('ANSWER_CACHE_TTL_SECONDS', '0');
+
+// What a provider or SDK might put in an error; none of it may reach the client
+const SECRET = 'API key sk-live-1234 exceeded quota for project acme-prod';
+
+// Answers, or fails after its first token when asked to
+class FlakyProvider implements ChatProvider {
+  readonly id = 'fake:flaky';
+
+  async generate(): Promise<string> {
+    throw new Error(SECRET);
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    yield 'Hiring ';
+    if (request.messages.at(-1)?.content.includes('fail midway')) throw new Error(SECRET);
+    yield 'is the whole game.';
+  }
+}
+
+const chunk: Chunk = {
+  id: 'abc123def456',
+  newsletterId: '2025-01-01-hiring',
+  newsletterTitle: 'Hiring',
+  sectionId: 'intro',
+  title: 'Hiring',
+  date: '2025-01-01',
+  text: 'Hiring is the whole game.',
+  topics: [],
+};
+
+vi.mock('@/lib/providers', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/providers')>()),
+  getChatProviders: () => [new FlakyProvider()],
+}));
+
+vi.mock('@/lib/retrieval', () => ({
+  DEFAULT_TOP_K: 4,
+  getIndexVersion: () => 'test',
+  embedQuery: async (_corpus: unknown, query: string) => {
+    if (query.includes('fail to embed')) throw new Error(SECRET);
+    return [1, 0];
+  },
+  searchChunks: async () => [{ chunk, scores: { vector: 1, vectorRank: 1, keyword: null, keywordRank: null, fused: 1, rerank: null } }],
+}));
+
+const { POST } = await import('@/app/api/chat/route');
+
+// Each test gets its own client address, so only the rate limit test runs out of tokens
+let clients = 0;
+
+function chatRequest(body: string | object, { ip = `10.0.0.${++clients}`, headers = {} }: { ip?: string; headers?: Record<string, string> } = {}) {
+  return new NextRequest('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': ip, ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+async function expectError(res: Response, status: number, code: string) {
+  expect(res.status).toBe(status);
+  const body: ApiErrorBody = await res.json();
+  expect(body.error.code).toBe(code);
+  expect(body.error.message).toBeTruthy();
+  return body;
+}
+
+describe('POST /api/chat rejects', () => {
+  it('bodies that are not JSON', async () => {
+    await expectError(await POST(chatRequest('{"query": "hiring"')), 400, 'invalid_json');
+  });
+
+  it('bodies that are not a JSON object', async () => {
+    await expectError(await POST(chatRequest('["hiring"]')), 400, 'invalid_request');
+  });
+
+  it('a query that is missing, not a string or empty', async () => {
+    await expectError(await POST(chatRequest({})), 400, 'invalid_request');
+    await expectError(await POST(chatRequest({ query: 42 })), 400, 'invalid_request');
+    await expectError(await POST(chatRequest({ query: '   ' })), 400, 'invalid_request');
+  });
+
+  it('a query over the length limit', async () => {
+    const body = await expectError(await POST(chatRequest({ query: 'a'.repeat(MAX_QUERY_CHARS + 1) })), 400, 'query_too_long');
+    expect(body.error.message).toContain(String(MAX_QUERY_CHARS));
+  });
+
+  it('bodies over 64 KB, by Content-Length or by what arrives', async () => {
+    const big = { query: 'hiring', padding: 'x'.repeat(70 * 1024) };
+    await expectError(await POST(chatRequest(big)), 413, 'payload_too_large');
+    await expectError(await POST(chatRequest({ query: 'hiring' }, { headers: { 'Content-Length': String(1024 * 1024) } })), 413, 'payload_too_large');
+  });
+
+  it('history that is not an array, or too long', async () => {
+    await expectError(await POST(chatRequest({ query: 'hiring', history: 'earlier' })), 400, 'invalid_request');
+    const history = Array.from({ length: 101 }, (_, i) => ({ role: i % 2 ? 'assistant' : 'user', content: 'hi' }));
+    await expectError(await POST(chatRequest({ query: 'hiring', history })), 400, 'invalid_request');
+  });
+
+  it('filters that are not an object', async () => {
+    await expectError(await POST(chatRequest({ query: 'hiring', filters: 'after 2024' })), 400, 'invalid_request');
+    await expectError(await POST(chatRequest({ query: 'hiring', filters: ['2024'] })), 400, 'invalid_request');
+  });
+
+  it('clients over the rate limit, with a Retry-After', async () => {
+    const ip = '192.0.2.99';
+    // The limit is checked before the body, so even bad requests use up the burst
+    await POST(chatRequest({}, { ip }));
+    await POST(chatRequest({}, { ip }));
+    const res = await POST(chatRequest({ query: 'hiring' }, { ip }));
+    await expectError(res, 429, 'rate_limited');
+    const retryAfter = Number(res.headers.get('Retry-After'));
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(60);
+
+    // Other clients are unaffected
+    expect((await POST(chatRequest({ query: 'hiring' }))).status).toBe(200);
+  });
+
+  it('without passing on provider error messages', async () => {
+    const body = await expectError(await POST(chatRequest({ query: 'please fail to embed this' })), 500, 'internal_error');
+    expect(JSON.stringify(body)).not.toContain('sk-live');
+
+    // A failed follow-up rewrite falls back to the question as asked
+    const rewrite = await POST(chatRequest({ query: 'and then?', history: [{ role: 'user', content: 'hiring' }, { role: 'assistant', content: 'Hire well.' }] }));
+    expect(rewrite.status).toBe(200);
+    expect(await rewrite.text()).not.toContain('sk-live');
+
+    // Once the stream has started, failures arrive as an error event
+    const res = await POST(chatRequest({ query: 'please fail midway' }));
+    const text = await res.text();
+    expect(text).not.toContain('sk-live');
+    const events: ChatStreamEvent[] = text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+    expect(events.at(-1)).toEqual({ type: 'error', error: 'The answer was interrupted. Please try again.' });
+  });
+
+  // Last, since the budget stays spent for the rest of the file
+  it('questions once the daily budget is spent, with a Retry-After', async () => {
+    await getBudgetGuard()!.record(1_000_000);
+    const res = await POST(chatRequest({ query: 'hiring' }));
+    await expectError(res, 503, 'budget_exceeded');
+    const retryAfter = Number(res.headers.get('Retry-After'));
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(24 * 60 * 60);
+  });
+});
@@ -0,0 +1,140 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ChatStreamEvent } from '@/lib/chat-stream';
+import type { Chunk } from '@/lib/chunking';
+import type { ChatProvider, ChatRequest } from '@/lib/providers';
+import { getRecentTraces } from '@/lib/trace';
+
+vi.stubEnv('RATE_LIMIT_PER_MINUTE', '0');
+vi.stubEnv('ANSWER_CACHE_TTL_SECONDS', '0');
+
+// Emits a fixed answer a token at a time, pausing between tokens like a real stream
+class FakeTokenProvider implements ChatProvider {
+  readonly id = 'fake:tokens';
+  emitted = 0;
+  lastRequest: ChatRequest | null = null;
+
+  constructor(private tokens: string[]) {}
+
+  async generate(): Promise<string> {
+    return this.tokens.join('');
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    this.lastRequest = request;
+    for (const token of this.tokens) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      if (request.signal?.aborted) return;
+      this.emitted++;
+      yield token;
+    }
+  }
+}
+
+const TOKENS = ['I ', 'wrote ', 'that ', '"hiring ', 'is ', 'the ', 'whole ', 'game." ', '[1]'];
+const provider = new FakeTokenProvider(TOKENS);
+
+const chunk: Chunk = {
+  id: 'abc123def456',
+  newsletterId: '2025-01-01-hiring',
+  newsletterTitle: 'Hiring',
+  sectionId: 'intro',
+  title: 'Hiring',
+  date: '2025-01-01',
+  text: 'Hiring is the whole game. Everything else follows from the people you bring in.',
+  topics: [],
+};
+
+vi.mock('@/lib/providers', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/providers')>()),
+  getChatProviders: () => [provider],
+}));
+
+vi.mock('@/lib/retrieval', () => ({
+  DEFAULT_TOP_K: 4,
+  getIndexVersion: () => 'test',
+  embedQuery: async () => [1, 0],
+  searchChunks: async () => [{ chunk, scores: { vector: 1, vectorRank: 1, keyword: null, keywordRank: null, fused: 1, rerank: null } }],
+}));
+
+const { POST } = await import('@/app/api/chat/route');
+
+function chatRequest(query: string, signal?: AbortSignal): NextRequest {
+  return new NextRequest('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query }),
+    signal,
+  });
+}
+
+function parseEvents(text: string): ChatStreamEvent[] {
+  return text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+afterEach(() => {
+  provider.emitted = 0;
+});
+
+describe('POST /api/chat', () => {
+  it('streams the query, sources, text deltas and done, in that order', async () => {
+    const res = await POST(chatRequest('What does he say about hiring?'));
+    expect(res.headers.get('Content-Type')).toContain('application/x-ndjson');
+
+    const events = parseEvents(await res.text());
+    const types = events.map(e => e.type);
+    expect(types.slice(0, 3)).toEqual(['query', 'sources', 'retrieval']);
+    expect(types.at(-1)).toBe('done');
+
+    const texts = events.filter(e => e.type === 'text');
+    expect(texts).toHaveLength(TOKENS.length);
+    expect(texts.map(e => (e.type === 'text' ? e.delta : '')).join('')).toBe(TOKENS.join(''));
+    // Every delta comes after the sources and before anything that needs the whole answer
+    const firstText = types.indexOf('text');
+    const lastText = types.lastIndexOf('text');
+    expect(firstText).toBeGreaterThan(types.indexOf('sources'));
+    expect(types.slice(firstText, lastText + 1).every(t => t === 'text')).toBe(true);
+    expect(types.indexOf('citations')).toBeGreaterThan(lastText);
+
+    expect(events[0]).toEqual({ type: 'query', searchQuery: 'What does he say about hiring?' });
+    expect(events[1]).toEqual({
+      type: 'sources',
+      sources: [{ title: 'Hiring', section: null, newsletterId: chunk.newsletterId, sectionId: 'intro' }],
+    });
+    expect(getRecentTraces(1)[0]).toMatchObject({ status: 'ok', provider: 'fake' });
+  });
+
+  it('stops generating when the request is aborted', async () => {
+    const controller = new AbortController();
+    const res = await POST(chatRequest('Tell me about hiring again', controller.signal));
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+
+    // Read until the first text delta arrives, then hang up
+    let received = '';
+    while (!parseEvents(received.slice(0, received.lastIndexOf('\n') + 1)).some(e => e.type === 'text')) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      received += decoder.decode(value, { stream: true });
+    }
+    controller.abort();
+
+    await vi.waitFor(() => expect(getRecentTraces(1)[0].status).toBe('aborted'));
+    expect(provider.lastRequest?.signal?.aborted).toBe(true);
+    expect(provider.emitted).toBeLessThan(TOKENS.length);
+    expect(parseEvents(received.slice(0, received.lastIndexOf('\n') + 1)).map(e => e.type)).not.toContain('done');
+
+    // The response ends rather than hanging open
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read());
+  });
+
+  it('cancels cleanly when the client stops reading', async () => {
+    const res = await POST(chatRequest('And once more about hiring'));
+    const reader = res.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    await vi.waitFor(() => expect(getRecentTraces(1)[0].status).toBe('aborted'));
+    expect(provider.emitted).toBeLessThan(TOKENS.length);
+  });
+});
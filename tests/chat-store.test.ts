@@ -0,0 +1,58 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileChatStore } from '@/lib/chat-store';
+import type { Chat } from '@/lib/chats';
+
+const USER = 'user-1';
+
+const chat: Chat = {
+  id: 'chat-1',
+  title: 'Hiring',
+  messages: [{ id: 'm1', role: 'user', content: 'How do I make my first hire?' }],
+  createdAt: 1,
+};
+
+let dir: string;
+let store: FileChatStore;
+
+beforeEach(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'chat-store-'));
+  store = new FileChatStore(dir);
+  await store.save(USER, chat);
+});
+
+afterEach(async () => {
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+describe('FileChatStore sharing', () => {
+  it('takes the share link down when a shared chat is deleted', async () => {
+    const shareId = (await store.share(USER, chat.id))!;
+    expect((await store.getShared(shareId))?.title).toBe('Hiring');
+
+    expect(await store.delete(USER, chat.id)).toBe(true);
+    expect(await store.getShared(shareId)).toBeNull();
+    expect(await store.get(USER, chat.id)).toBeNull();
+  });
+
+  it('unshares a chat but keeps it, and a new share gets a new link', async () => {
+    const shareId = (await store.share(USER, chat.id))!;
+    expect((await store.get(USER, chat.id))?.shareId).toBe(shareId);
+
+    expect(await store.unshare(USER, chat.id)).toBe(true);
+    expect(await store.getShared(shareId)).toBeNull();
+    expect((await store.get(USER, chat.id))?.shareId).toBeUndefined();
+
+    const again = (await store.share(USER, chat.id))!;
+    expect(again).not.toBe(shareId);
+    expect(await store.getShared(again)).not.toBeNull();
+  });
+
+  it("can't unshare another user's chat", async () => {
+    const shareId = (await store.share(USER, chat.id))!;
+    expect(await store.unshare('user-2', chat.id)).toBe(false);
+    expect(await store.getShared(shareId)).not.toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens } from '@/lib/budget';
+import type { Chunk } from '@/lib/chunking';
+import { LlmEntailmentChecker, verifyGrounding } from '@/lib/grounding';
+import type { ChatProvider, ChatRequest } from '@/lib/providers';
+import { Trace } from '@/lib/trace';
+
+// Agrees with every claim and remembers what it was asked
+class AgreeingProvider implements ChatProvider {
+  readonly id = 'fake:agree';
+  prompts: string[] = [];
+
+  async generate(request: ChatRequest): Promise<string> {
+    this.prompts.push(request.messages[0].content);
+    return '[true]';
+  }
+
+  async *stream(): AsyncGenerator<string> {}
+}
+
+const corpus = {
+  persona: { name: 'Andrew Wilkinson', shortName: 'Andrew', photo: null },
+  refusal: "I haven't written about that.",
+  identity: 'I answer from the newsletter archive.',
+};
+
+const chunk: Chunk = {
+  id: 'abc123def456',
+  newsletterId: '2025-11-03-cafe-meetings',
+  newsletterTitle: 'Café meetings',
+  sectionId: 'intro',
+  title: 'Café meetings',
+  date: '2025-11-03',
+  text: 'I take every first meeting at the café downstairs. Nobody stays longer than one coffee.',
+  topics: [],
+};
+
+describe('LLM entailment check', () => {
+  it('rules on paraphrases and charges its tokens to the trace', async () => {
+    const provider = new AgreeingProvider();
+    const trace = new Trace('/api/chat');
+
+    const report = await verifyGrounding('First meetings happen over a short coffee near the office.', [chunk], {
+      corpus,
+      trace,
+      checker: new LlmEntailmentChecker(provider),
+    });
+
+    expect(report?.claims).toMatchObject([{ method: 'entailment', supported: true }]);
+    expect(provider.prompts).toHaveLength(1);
+    expect(trace.totalTokens).toBe(estimateTokens(provider.prompts[0]) + estimateTokens('[true]'));
+  });
+});
@@ -0,0 +1,104 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import AnswerText from '@/components/AnswerText';
+import { parseMarkdown, safeHref, type Block, type Inline } from '@/lib/markdown';
+
+const UNSAFE_HREFS = [
+  'javascript:alert(1)',
+  'JaVaScRiPt:alert(1)',
+  'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+  'vbscript:msgbox(1)',
+  '//evil.example',
+  '/\\evil.example',
+  'https:evil.example',
+  'evil.example/page',
+];
+
+// Every link in a parsed answer, however deeply nested
+function links(blocks: Block[]): string[] {
+  const inline = (nodes: Inline[]): string[] =>
+    nodes.flatMap(n => ('children' in n ? [...(n.type === 'link' ? [n.href] : []), ...inline(n.children)] : []));
+  return blocks.flatMap(b => {
+    switch (b.type) {
+      case 'paragraph':
+      case 'heading':
+        return inline(b.children);
+      case 'list':
+        return b.items.flatMap(links);
+      case 'blockquote':
+        return links(b.children);
+      default:
+        return [];
+    }
+  });
+}
+
+const render = (content: string) => renderToStaticMarkup(<AnswerText content={content} onCite={() => {}} />);
+
+describe('safeHref', () => {
+  it.each(UNSAFE_HREFS)('rejects %s', href => {
+    expect(safeHref(href)).toBeNull();
+  });
+
+  it.each(['https://example.com/a?b=c', 'http://example.com', 'mailto:andrew@example.com', '/andrew/2025-01-01-hiring#intro', '#sources'])(
+    'allows %s',
+    href => {
+      expect(safeHref(href)).toBe(href);
+    },
+  );
+});
+
+describe('parseMarkdown', () => {
+  it.each(UNSAFE_HREFS)('renders a link to %s as its text', href => {
+    const blocks = parseMarkdown(`See [the newsletter](${href}) for more.`);
+    expect(links(blocks)).toEqual([]);
+  });
+
+  it('drops unsafe links inside emphasis, lists and quotes, and unsafe links around markup', () => {
+    const blocks = parseMarkdown(
+      [
+        '**Read [this](javascript:alert(1))** and *[that](//evil.example)*',
+        '',
+        '- [**bold** `code`](data:text/html,x)',
+        '',
+        '> [quoted](/\\evil.example) and [fine](https://example.com)',
+      ].join('\n'),
+    );
+    expect(links(blocks)).toEqual(['https://example.com']);
+  });
+});
+
+describe('AnswerText', () => {
+  it('shows raw HTML in an answer as text', () => {
+    const html = render('Hello <script>alert(1)</script> and <img src=x onerror=alert(1)>');
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+  });
+
+  it('escapes markup inside emphasis, links, code and headings', () => {
+    const html = render(
+      [
+        '## <svg onload=alert(1)>',
+        '',
+        '***<img src=x onerror=alert(1)>*** and _<iframe src="javascript:alert(1)">_',
+        '',
+        '[<b onclick=alert(1)>click</b>](https://example.com) `<script>alert(1)</script>`',
+        '',
+        '```',
+        '</code><script>alert(1)</script>',
+        '```',
+      ].join('\n'),
+    );
+    for (const tag of ['<svg', '<img', '<iframe', '<b ', '<script']) expect(html).not.toContain(tag);
+    expect(html).toContain('<a href="https://example.com" target="_blank" rel="noopener noreferrer nofollow">&lt;b onclick=alert(1)&gt;click&lt;/b&gt;</a>');
+    expect(html).toContain('<code>&lt;script&gt;alert(1)&lt;/script&gt;</code>');
+  });
+
+  it('renders no href for unsafe links', () => {
+    const html = render(UNSAFE_HREFS.map(href => `[link](${href})`).join(' '));
+    expect(html).not.toContain('<a ');
+    expect(html).not.toMatch(/javascript:|href=/i);
+  });
+});
@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseNewsletters, sectionText } from '@/lib/newsletters';
+
+const fixture = fs.readFileSync(path.join(__dirname, 'fixtures', 'newsletters.txt'), 'utf-8');
+const newsletters = parseNewsletters(fixture);
+const allText = newsletters.flatMap(n => n.sections.flatMap(s => [s.heading ?? '', ...s.paragraphs]));
+
+describe('parseNewsletters', () => {
+  it('starts an issue at each title followed by a date line', () => {
+    expect(newsletters.map(n => [n.id, n.title, n.date])).toEqual([
+      ['2026-01-14-hiring-is-the-whole-game', 'Hiring is the whole game', '2026-01-14'],
+      ['2025-12-03-why-i-stopped-checking-email', 'Why I stopped checking email', '2025-12-03'],
+    ]);
+  });
+
+  it("doesn't start an issue at a date inside the body", () => {
+    const [hiring] = newsletters;
+    expect(sectionText(hiring.sections[0])).toContain('January 20th, 2026 at Habit Coffee');
+    expect(newsletters.some(n => n.title === 'Come say hi at the Victoria meetup:')).toBe(false);
+  });
+
+  it('strips the site navigation, preamble and sign-off lines', () => {
+    for (const line of ['Never Enough', 'Newsletter', 'Podcast', 'About', 'Hello friend,', '- Andrew']) {
+      expect(allText).not.toContain(line);
+    }
+    expect(allText.some(l => l.startsWith("Why you're getting this"))).toBe(false);
+    expect(allText.some(l => l.startsWith("Here's what I'm thinking about"))).toBe(false);
+  });
+
+  it('drops everything from the footer on', () => {
+    expect(allText.some(l => /That's all for this week|Subscribe to My Twitter|The Never Enough Newsletter/.test(l))).toBe(false);
+    expect(sectionText(newsletters[1].sections[0])).toBe('I check email twice a week now, and nothing has broken.');
+  });
+
+  it('numbers repeated section headings', () => {
+    expect(newsletters[0].sections.map(s => [s.id, s.heading])).toEqual([
+      ['intro', null],
+      ['the-first-hire', 'The first hire'],
+      ['reading-list', 'Reading list'],
+      ['reading-list-2', 'Reading list'],
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { clientIp, MemoryRateLimitStore, RateLimiter } from '@/lib/rate-limit';
+
+function request(headers: Record<string, string>): Request {
+  return new Request('http://localhost/api/chat', { headers });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('clientIp', () => {
+  it('takes the hop our proxy appended, not one the client sent', () => {
+    expect(clientIp(request({ 'X-Forwarded-For': '203.0.113.7' }))).toBe('203.0.113.7');
+    expect(clientIp(request({ 'X-Forwarded-For': '1.2.3.4, 203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('counts TRUSTED_PROXY_HOPS from the right', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    expect(clientIp(request({ 'X-Forwarded-For': '1.2.3.4, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+    // Fewer hops than proxies means the request skipped one; use what there is
+    expect(clientIp(request({ 'X-Forwarded-For': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('reads CLIENT_IP_HEADER instead when set', () => {
+    vi.stubEnv('CLIENT_IP_HEADER', 'cf-connecting-ip');
+    expect(clientIp(request({ 'CF-Connecting-IP': '203.0.113.7', 'X-Forwarded-For': '1.2.3.4' }))).toBe('203.0.113.7');
+    expect(clientIp(request({ 'X-Forwarded-For': '1.2.3.4' }))).toBe('unknown');
+  });
+
+  it('falls back to X-Real-IP, then a shared key', () => {
+    expect(clientIp(request({ 'X-Real-IP': '203.0.113.7' }))).toBe('203.0.113.7');
+    expect(clientIp(request({}))).toBe('unknown');
+  });
+});
+
+describe('RateLimiter', () => {
+  it('allows a burst, then refills over time', async () => {
+    const limiter = new RateLimiter(new MemoryRateLimitStore(), 2, 1 / 1000);
+    expect((await limiter.consume('a', 0)).allowed).toBe(true);
+    expect((await limiter.consume('a', 0)).allowed).toBe(true);
+    expect(await limiter.consume('a', 0)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 1000 });
+    expect((await limiter.consume('b', 0)).allowed).toBe(true);
+    expect((await limiter.consume('a', 1000)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens } from '@/lib/budget';
+import type { Chunk } from '@/lib/chunking';
+import type { ChatProvider, ChatRequest } from '@/lib/providers';
+import { LlmReranker } from '@/lib/rerank';
+import { Trace } from '@/lib/trace';
+
+// Grades the passages with fixed scores and remembers what it was asked
+class GradingProvider implements ChatProvider {
+  readonly id = 'fake:grades';
+  prompts: string[] = [];
+
+  constructor(private reply: string) {}
+
+  async generate(request: ChatRequest): Promise<string> {
+    this.prompts.push(request.messages[0].content);
+    return this.reply;
+  }
+
+  async *stream(): AsyncGenerator<string> {}
+}
+
+function chunk(id: string, text: string): Chunk {
+  return { id, newsletterId: `2025-01-01-${id}`, newsletterTitle: id, sectionId: 'intro', title: id, date: '2025-01-01', text, topics: [] };
+}
+
+const chunks = [chunk('hiring', 'Hiring is the whole game.'), chunk('coffee', 'I drink too much coffee.')];
+
+describe('LlmReranker', () => {
+  it('scores every passage from 0 to 1 and charges its tokens to the trace', async () => {
+    const provider = new GradingProvider('[10, 2]');
+    const trace = new Trace('/api/chat');
+
+    expect(await new LlmReranker(provider).rerank('How should I hire?', chunks, trace)).toEqual([1, 0.2]);
+    expect(provider.prompts[0]).toContain('[2] I drink too much coffee.');
+    expect(trace.totalTokens).toBe(estimateTokens(provider.prompts[0]) + estimateTokens('[10, 2]'));
+  });
+
+  it('rejects a reply with the wrong number of scores', async () => {
+    await expect(new LlmReranker(new GradingProvider('[7]')).rerank('How should I hire?', chunks)).rejects.toThrow('1 scores for 2 passages');
+  });
+});
@@ -0,0 +1,126 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { chunkNewsletters } from '@/lib/chunking';
+import type { Newsletter } from '@/lib/newsletters';
+import { loadSources } from '@/lib/sources';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+// One fixture file or directory as ingest reads it. Every chunk must carry
+// its issue's title, date and provenance, since answers cite and link them.
+function load(source: string) {
+  const { newsletters } = loadSources([`sources/${source}`], FIXTURES);
+  const chunks = chunkNewsletters(newsletters);
+  for (const c of chunks) {
+    const issue = newsletters.find(n => n.id === c.newsletterId)!;
+    expect(c).toMatchObject({ newsletterTitle: issue.title, date: issue.date, source: issue.source });
+  }
+  expect(new Set(chunks.map(c => c.newsletterId)).size).toBe(newsletters.length);
+  return { newsletters, text: chunks.map(c => c.text).join('\n') };
+}
+
+function summary(n: Newsletter) {
+  return { title: n.title, date: n.date, sections: n.sections.map(s => [s.id, s.heading]), source: n.source };
+}
+
+describe('source adapters', () => {
+  it('reads a Substack export: titles and dates from posts.csv, drafts skipped', () => {
+    const { newsletters, text } = load('substack');
+    expect(newsletters.map(summary)).toEqual([{
+      title: 'Hiring is the whole game',
+      date: '2025-11-05',
+      sections: [['intro', null], ['the-first-hire', 'The first hire'], ['reading-list', 'Reading list']],
+      source: { file: 'sources/substack/posts/101.hiring-is-the-whole-game.html', url: null },
+    }]);
+    expect(text).toContain('twice — once to learn it');
+    expect(text).not.toMatch(/draft|Subscribe/);
+  });
+
+  it('reads a saved Beehiiv page without its site chrome or footer', () => {
+    const { newsletters, text } = load('web/beehiiv-post.html');
+    expect(newsletters.map(summary)).toEqual([{
+      title: 'Why I stopped checking email',
+      date: '2025-12-03',
+      sections: [['intro', null], ['what-changed', 'What changed']],
+      source: { file: 'sources/web/beehiiv-post.html', url: 'https://neverenough.beehiiv.com/p/why-i-stopped-checking-email' },
+    }]);
+    expect(text).toContain('sends me a five-line summary.');
+    expect(text).not.toMatch(/Home|Archive|Never Enough|Sponsored|Recommended|©/);
+  });
+
+  it('reads Markdown front matter and drops the repeated title heading', () => {
+    const { newsletters, text } = load('web/2025-09-01-notes-on-focus.md');
+    expect(newsletters.map(summary)).toEqual([{
+      title: 'Notes on focus',
+      date: '2025-09-01',
+      sections: [['intro', null], ['saying-no', 'Saying no']],
+      source: { file: 'sources/web/2025-09-01-notes-on-focus.md', url: 'https://example.com/notes-on-focus' },
+    }]);
+    expect(text).toContain("I keep a list of things I won't do and read it every Monday.");
+    expect(text).not.toMatch(/\]\(|\*\*|tags:/);
+  });
+
+  it('reads an RSS feed from content:encoded, with the item link', () => {
+    const { newsletters, text } = load('feeds/substack.rss');
+    expect(newsletters.map(summary)).toEqual([{
+      title: "Buy, don't build",
+      date: '2025-10-07',
+      sections: [['intro', null], ['the-math', 'The math']],
+      source: { file: 'sources/feeds/substack.rss', url: 'https://neverenough.substack.com/p/buy-dont-build' },
+    }]);
+    expect(text).not.toContain('Why I would rather buy');
+  });
+
+  it('reads an Atom feed: escaped HTML content, the alternate link and the published day as written', () => {
+    const { newsletters, text } = load('feeds/blog.atom');
+    expect(newsletters.map(summary)).toEqual([{
+      title: 'Remote & async',
+      date: '2025-08-14',
+      sections: [['intro', null], ['writing-it-down', 'Writing it down']],
+      source: { file: 'sources/feeds/blog.atom', url: 'https://example.com/remote-async' },
+    }]);
+    expect(text).toContain('Most meetings should have been a document.');
+    expect(text).not.toContain('<p>');
+  });
+
+  it('reads a multipart email: RFC 2047 subject, quoted-printable HTML part and List-Post link', () => {
+    const { newsletters, text } = load('mail/cafe-meetings.eml');
+    expect(newsletters.map(summary)).toEqual([{
+      title: 'Café meetings — a rethink',
+      date: '2025-11-03',
+      sections: [['intro', null], ['why-it-works', 'Why it works']],
+      source: { file: 'sources/mail/cafe-meetings.eml', url: 'https://neverenough.substack.com/p/cafe-meetings' },
+    }]);
+    expect(text).toContain('I take every first meeting at the café downstairs.');
+    expect(text).toContain('Nobody stays longer than one coffee, and nobody feels trapped');
+    expect(text).not.toMatch(/Plain text version|Forwarded this message/);
+  });
+
+  it('reads an mbox one message at a time, unescaping >From lines', () => {
+    const { newsletters, text } = load('mail/archive.mbox');
+    expect(newsletters.map(summary)).toEqual([
+      {
+        title: 'Lessons from a bad year',
+        date: '2025-07-10',
+        sections: [['intro', null]],
+        source: { file: 'sources/mail/archive.mbox', url: 'https://example.com/lessons-from-a-bad-year' },
+      },
+      {
+        title: 'Naïve optimism',
+        date: '2025-06-12',
+        sections: [['intro', null]],
+        source: { file: 'sources/mail/archive.mbox', url: null },
+      },
+    ]);
+    expect(text).toContain('\nFrom the archives: I wrote about this in 2019 too.');
+    expect(text).not.toContain('>From');
+    expect(text).toContain('not a naïve mood');
+  });
+
+  it('reads a directory of mixed formats, newest first', () => {
+    const { newsletters, files } = loadSources(['sources'], FIXTURES);
+    expect(files).not.toContain('sources/substack/posts/102.not-ready-yet.html');
+    expect(newsletters).toHaveLength(8);
+    expect(newsletters.map(n => n.date)).toEqual(newsletters.map(n => n.date).sort().reverse());
+  });
+});
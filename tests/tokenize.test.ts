@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Index } from '@/lib/bm25';
+import { personaStopwords } from '@/lib/corpus';
+import { tokenize } from '@/lib/tokenize';
+
+const andrew = { persona: { name: 'Andrew Wilkinson', shortName: 'Andrew', photo: null } };
+
+const docs = [
+  { id: 'carnegie', text: 'Andrew Carnegie gave away most of his fortune.' },
+  { id: 'hiring', text: 'Andrew on hiring: the first hire sets the culture.' },
+];
+
+describe('tokenize', () => {
+  it("keeps names unless a corpus's stopwords drop them", () => {
+    expect(tokenize("What does Andrew think of Andrew's hiring?")).toEqual(['andrew', 'think', 'andrew', 'hiring']);
+    expect(tokenize("What does Andrew think of Andrew's hiring?", personaStopwords(andrew))).toEqual(['think', 'hiring']);
+  });
+
+  it("derives a corpus's stopwords from its persona", () => {
+    expect(personaStopwords(andrew)).toEqual(new Set(['andrew', 'wilkinson']));
+    expect(personaStopwords({ persona: { name: 'Sahil Lavingia', shortName: 'Sahil', photo: null } })).toEqual(new Set(['sahil', 'lavingia']));
+  });
+});
+
+describe('Bm25Index', () => {
+  it('searches for the persona name only in corpora where it is someone else', () => {
+    expect(new Bm25Index(docs).search('andrew', 10).map(h => h.id).sort()).toEqual(['carnegie', 'hiring']);
+    expect(new Bm25Index(docs, personaStopwords(andrew)).search('andrew', 10)).toEqual([]);
+    expect(new Bm25Index(docs, personaStopwords(andrew)).search('What does Andrew say about hiring?', 10).map(h => h.id)).toEqual(['hiring']);
+  });
+});